@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { ICONS } from '../constants';
+import {
+  AlertRule, AlertRuleKind, AlertScope, ALERT_RULE_KIND_LABELS, ALERT_SCOPE_LABELS
+} from '../utils/alerts';
+import { SeriesMetric, SERIES_METRIC_LABELS } from '../utils/timeSeries';
+import { createRule } from '../services/alertRules';
+
+const inputClass = "w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-2";
+
+const THRESHOLD_LABELS: Record<AlertRuleKind, string | null> = {
+  below_weekday_avg: 'Порог, % от среднего',
+  metric_drop: 'Падение больше, %',
+  zero_sales: null,
+};
+
+const WINDOW_LABELS: Record<AlertRuleKind, string> = {
+  below_weekday_avg: 'Недель истории',
+  metric_drop: 'Окно сравнения, дней',
+  zero_sales: 'Дней без продаж',
+};
+
+const AlertRulesEditor = ({ rules, onSave, onClose }: {
+  rules: AlertRule[],
+  onSave: (rules: AlertRule[]) => void,
+  onClose: () => void,
+}) => {
+  const [draft, setDraft] = useState<AlertRule[]>(rules);
+  const [editingId, setEditingId] = useState<string | null>(rules[0]?.id || null);
+  const editing = draft.find(r => r.id === editingId);
+
+  const update = (id: string, patch: Partial<AlertRule>) =>
+    setDraft(list => list.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const addRule = (kind: AlertRuleKind) => {
+    const rule = createRule(kind);
+    setDraft(list => [...list, rule]);
+    setEditingId(rule.id);
+  };
+
+  const removeRule = (id: string) => {
+    const next = draft.filter(r => r.id !== id);
+    setDraft(next);
+    if (editingId === id) setEditingId(next[0]?.id || null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-8 space-y-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-black tracking-tight">Правила оповещений</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-6">
+          <div className="space-y-2">
+            {draft.map(r => (
+              <div
+                key={r.id}
+                onClick={() => setEditingId(r.id)}
+                className={`p-3 rounded-2xl cursor-pointer flex items-center gap-3 transition ${editingId === r.id ? 'bg-orange-50' : 'hover:bg-slate-50'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={r.enabled}
+                  onChange={e => update(r.id, { enabled: e.target.checked })}
+                  onClick={e => e.stopPropagation()}
+                  className="w-4 h-4 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+                />
+                <div className="min-w-0">
+                  <div className="text-sm font-bold text-slate-700 truncate">{r.name}</div>
+                  <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{ALERT_RULE_KIND_LABELS[r.kind]}</div>
+                </div>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2 pt-2">
+              {(Object.keys(ALERT_RULE_KIND_LABELS) as AlertRuleKind[]).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => addRule(kind)}
+                  className="px-3 py-1 bg-slate-100 hover:bg-orange-100 text-[10px] font-bold rounded-lg transition"
+                >
+                  + {ALERT_RULE_KIND_LABELS[kind]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {editing ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className={labelClass}>Название</label>
+                <input value={editing.name} onChange={e => update(editing.id, { name: e.target.value })} className={inputClass} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className={labelClass}>Разрез</label>
+                  <select value={editing.scope} onChange={e => update(editing.id, { scope: e.target.value as AlertScope })} className={inputClass}>
+                    {(Object.keys(ALERT_SCOPE_LABELS) as AlertScope[]).map(s => (
+                      <option key={s} value={s}>{ALERT_SCOPE_LABELS[s]}</option>
+                    ))}
+                  </select>
+                </div>
+                {editing.kind !== 'zero_sales' && (
+                  <div className="space-y-2">
+                    <label className={labelClass}>Показатель</label>
+                    <select value={editing.metric} onChange={e => update(editing.id, { metric: e.target.value as SeriesMetric })} className={inputClass}>
+                      {(Object.keys(SERIES_METRIC_LABELS) as SeriesMetric[]).map(m => (
+                        <option key={m} value={m}>{SERIES_METRIC_LABELS[m]}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {THRESHOLD_LABELS[editing.kind] && (
+                  <div className="space-y-2">
+                    <label className={labelClass}>{THRESHOLD_LABELS[editing.kind]}</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={editing.threshold}
+                      onChange={e => update(editing.id, { threshold: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <label className={labelClass}>{WINDOW_LABELS[editing.kind]}</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={60}
+                    value={editing.window}
+                    onChange={e => update(editing.id, { window: Math.max(1, Number(e.target.value)) })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <button
+                onClick={() => removeRule(editing.id)}
+                className="px-4 py-2 text-rose-500 hover:bg-rose-50 rounded-2xl text-xs font-bold transition flex items-center gap-2"
+              >
+                <ICONS.Trash className="w-4 h-4" />
+                Удалить правило
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400 px-2">Добавьте правило, чтобы получать оповещения после каждой загрузки данных.</p>
+          )}
+        </div>
+
+        <p className="text-xs text-slate-400 px-2">
+          Помимо правил, выручка сети и каждого магазина автоматически проверяется на статистические выбросы относительно тех же дней недели.
+        </p>
+
+        <div className="flex gap-3 justify-end pt-2">
+          <button onClick={onClose} className="px-6 py-3 text-slate-400 hover:text-slate-600 text-xs font-bold uppercase tracking-widest transition">
+            Отмена
+          </button>
+          <button onClick={() => onSave(draft)} className="px-6 py-3 bg-orange-500 text-white rounded-2xl font-bold shadow-lg shadow-orange-200 hover:bg-orange-600 transition">
+            Сохранить
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertRulesEditor;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ICONS } from '../constants';
+import { Alert } from '../utils/alerts';
+
+// Длинная история аномалий не помещается в выпадающую панель
+const PANEL_LIMIT = 50;
+
+const AlertsPanel = ({ alerts, seen, onMarkSeen, onOpenRules }: {
+  alerts: Alert[],
+  seen: Set<string>,
+  onMarkSeen: (ids: string[]) => void,
+  onOpenRules: () => void,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [onlyRules, setOnlyRules] = useState(false);
+  const unread = alerts.filter(a => !seen.has(a.id));
+  const visible = alerts.filter(a => !onlyRules || a.source === 'rule').slice(0, PANEL_LIMIT);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="relative px-4 py-3 bg-white border border-slate-100 rounded-2xl font-bold text-slate-600 shadow-sm hover:bg-slate-50 transition flex items-center"
+        title="Оповещения"
+      >
+        <ICONS.Bell className="w-4 h-4" />
+        {unread.length > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[20px] h-5 px-1 bg-rose-500 text-white text-[10px] font-black rounded-full flex items-center justify-center">
+            {unread.length > 99 ? '99+' : unread.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-[420px] max-w-[90vw] bg-white border border-slate-100 rounded-3xl shadow-xl z-20">
+          <div className="flex items-center justify-between p-4 border-b border-slate-50">
+            <span className="text-sm font-black text-slate-900">Оповещения</span>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={onlyRules}
+                  onChange={e => setOnlyRules(e.target.checked)}
+                  className="w-3.5 h-3.5 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+                />
+                Только правила
+              </label>
+              <button onClick={onOpenRules} className="text-[10px] font-bold text-orange-500 hover:text-orange-600">Правила</button>
+            </div>
+          </div>
+
+          <div className="max-h-[420px] overflow-y-auto divide-y divide-slate-50">
+            {visible.length === 0 && (
+              <p className="p-6 text-sm text-slate-400 text-center">Нет оповещений</p>
+            )}
+            {visible.map(a => (
+              <div
+                key={a.id}
+                onClick={() => onMarkSeen([a.id])}
+                className={`p-4 flex gap-3 cursor-pointer hover:bg-slate-50 transition ${seen.has(a.id) ? 'opacity-60' : ''}`}
+              >
+                <div className={`w-2 h-2 mt-1.5 rounded-full shrink-0 ${a.severity === 'critical' ? 'bg-rose-500' : 'bg-amber-400'}`}></div>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-bold text-slate-800">{a.title}</span>
+                    {a.source === 'anomaly' && (
+                      <span className="px-1.5 py-0.5 bg-slate-100 text-slate-500 text-[9px] font-black uppercase tracking-widest rounded">авто</span>
+                    )}
+                  </div>
+                  <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{a.date} · {a.scope}</div>
+                  <p className="text-xs text-slate-500 mt-1">{a.message}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {unread.length > 0 && (
+            <div className="p-3 border-t border-slate-50 text-right">
+              <button
+                onClick={() => onMarkSeen(unread.map(a => a.id))}
+                className="text-[10px] font-bold text-slate-400 hover:text-orange-500 uppercase tracking-widest"
+              >
+                Отметить все прочитанными
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertsPanel;
@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ResponsiveContainer, BarChart, Bar, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, Cell
+} from 'recharts';
+import { NormalizedRow } from '../types';
+import { CHART_COLORS } from '../constants';
+import { formatPercent } from '../utils/format';
+import { useFormatter } from '../hooks/useFormatter';
+import {
+  QueryResultRow, QUERY_METRIC_LABELS, questionContext, executeDataQuery, describeQuery, formatQueryValue
+} from '../utils/dataQuery';
+import { buildWeeklyDigest } from '../utils/weeklyDigest';
+import { SalesAssistant, PlannedQuery, createDefaultAssistant, createLocalAssistant } from '../services/assistant';
+
+const EXAMPLES = [
+  'Какой магазин сильнее всего упал в ноябре?',
+  'Топ-5 категорий по выручке',
+  'Средний чек по неделям',
+  'Какая категория выросла за прошлую неделю в %',
+];
+
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest";
+
+const changeClass = (v: number | null) =>
+  v === null || v === 0 ? 'text-slate-400' : v > 0 ? 'text-emerald-600' : 'text-rose-600';
+
+// Вопрос на естественном языке → запрос к текущей выборке → таблица и график;
+// плюс текстовая сводка за последнюю неделю
+const AskDataPanel = ({ rows, assistant: initialAssistant, onClose }: {
+  rows: NormalizedRow[],
+  // Подменяется в проверках; по умолчанию Gemini, если задан ключ
+  assistant?: SalesAssistant,
+  onClose: () => void,
+}) => {
+  const fmt = useFormatter();
+  const [assistant, setAssistant] = useState<SalesAssistant>(() => initialAssistant || createDefaultAssistant());
+  const [question, setQuestion] = useState('');
+  const [planned, setPlanned] = useState<PlannedQuery | null>(null);
+  const [asking, setAsking] = useState(false);
+  const [askError, setAskError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [summarizing, setSummarizing] = useState(false);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+
+  const ctx = useMemo(() => questionContext(rows), [rows]);
+  // Запрос пересчитывается при смене фильтров дашборда — ответ всегда по текущей выборке
+  const result = useMemo(() => planned ? executeDataQuery(rows, planned.query) : null, [rows, planned]);
+
+  const ask = async (text: string, using: SalesAssistant = assistant) => {
+    if (!text.trim()) return;
+    setQuestion(text);
+    setAsking(true);
+    setAskError(null);
+    try {
+      setPlanned(await using.planQuery(text, ctx));
+    } catch (e: any) {
+      setAskError(e?.message || 'Не удалось разобрать вопрос');
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  const summarize = async (using: SalesAssistant = assistant) => {
+    const digest = buildWeeklyDigest(rows);
+    if (!digest) return;
+    setSummarizing(true);
+    setSummaryError(null);
+    try {
+      setSummary(await using.writeSummary(digest, fmt));
+    } catch (e: any) {
+      setSummaryError(e?.message || 'Не удалось составить сводку');
+    } finally {
+      setSummarizing(false);
+    }
+  };
+
+  const switchToLocal = () => {
+    const local = createLocalAssistant();
+    setAssistant(local);
+    if (askError) ask(question, local);
+    if (summaryError) summarize(local);
+  };
+
+  const query = planned?.query;
+  const byChange = !!result?.baseRange && query?.sortBy !== 'value';
+  const chartKey = byChange ? (query?.sortBy === 'change_pct' ? 'changePct' : 'change') : 'value';
+  const formatChart = (v: number) => chartKey === 'changePct' ? formatPercent(v) : formatQueryValue(query!.metric, v, fmt);
+  const leader: QueryResultRow | undefined = query?.groupBy !== 'none' && query?.chart !== 'line' ? result?.rows[0] : undefined;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto p-8 space-y-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-2xl font-black tracking-tight">Спросить данные</h3>
+            <p className="text-xs font-bold text-slate-400 mt-1">
+              Ответ считается по текущей выборке дашборда · {assistant.label}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <form
+          className="flex gap-3"
+          onSubmit={e => { e.preventDefault(); ask(question); }}
+        >
+          <input
+            autoFocus
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            placeholder="Например: какой магазин сильнее всего упал в ноябре?"
+            className="flex-1 bg-slate-50 border-none rounded-2xl px-5 py-3 text-sm font-medium text-slate-700 focus:ring-2 focus:ring-orange-500"
+          />
+          <button
+            type="submit"
+            disabled={asking || !question.trim() || !rows.length}
+            className="px-6 py-3 bg-orange-500 text-white rounded-2xl font-bold shadow-lg shadow-orange-200 hover:bg-orange-600 disabled:bg-slate-300 disabled:shadow-none transition"
+          >
+            {asking ? 'Разбираю…' : 'Спросить'}
+          </button>
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          {EXAMPLES.map(ex => (
+            <button
+              key={ex}
+              onClick={() => ask(ex)}
+              disabled={asking || !rows.length}
+              className="px-3 py-1.5 bg-slate-50 hover:bg-orange-50 hover:text-orange-600 text-xs font-bold text-slate-500 rounded-xl transition disabled:opacity-50"
+            >
+              {ex}
+            </button>
+          ))}
+        </div>
+
+        {askError && (
+          <div className="flex items-center gap-3 text-xs font-bold text-rose-500">
+            <span>{askError}</span>
+            {assistant.id !== 'local' && (
+              <button onClick={switchToLocal} className="underline hover:text-rose-700">Разобрать без модели</button>
+            )}
+          </div>
+        )}
+
+        {query && result && (
+          <div className="space-y-4 border-t border-slate-100 pt-6">
+            <div>
+              <h4 className="text-lg font-black">{query.title}</h4>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {describeQuery(query, result).map(part => (
+                  <span key={part} className="px-3 py-1 bg-slate-100 text-slate-500 rounded-lg text-[11px] font-bold">{part}</span>
+                ))}
+              </div>
+              {planned!.warnings.map(w => (
+                <p key={w} className="text-xs font-bold text-amber-600 mt-2">{w}</p>
+              ))}
+            </div>
+
+            {!result.rows.length ? (
+              <p className="text-sm font-bold text-slate-400">Под условия вопроса нет данных в текущей выборке</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-8">
+                  {leader && (
+                    <div>
+                      <span className={labelClass}>Ответ</span>
+                      <p className="text-xl font-black text-slate-800 mt-1">
+                        {leader.label}
+                        <span className={`ml-3 text-sm ${byChange ? changeClass(leader.change) : 'text-slate-500'}`}>
+                          {byChange && leader.changePct !== null
+                            ? `${formatPercent(leader.changePct)} (${formatQueryValue(query.metric, leader.change!, fmt)})`
+                            : formatQueryValue(query.metric, leader.value, fmt)}
+                        </span>
+                      </p>
+                    </div>
+                  )}
+                  <div>
+                    <span className={labelClass}>{QUERY_METRIC_LABELS[query.metric]} за период</span>
+                    <p className="text-xl font-black text-slate-800 mt-1">
+                      {formatQueryValue(query.metric, result.total, fmt)}
+                      {result.baseTotal !== null && (
+                        <span className={`ml-3 text-sm ${changeClass(result.total - result.baseTotal)}`}>
+                          было {formatQueryValue(query.metric, result.baseTotal, fmt)}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                </div>
+
+                {query.chart !== 'table' && result.rows.length > 1 && (
+                  <div className="h-[300px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      {query.chart === 'line' ? (
+                        <LineChart data={result.rows}>
+                          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={CHART_COLORS.grid} />
+                          <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#94A3B8' }} />
+                          <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#94A3B8' }} tickFormatter={v => formatQueryValue(query.metric, v, fmt)} width={90} />
+                          <Tooltip formatter={(v: any) => formatQueryValue(query.metric, Number(v), fmt)} />
+                          <Line type="monotone" dataKey="value" name="Период" stroke={CHART_COLORS.primary} strokeWidth={3} dot={false} />
+                          {result.baseRange && (
+                            <Line type="monotone" dataKey="base" name="База" stroke={CHART_COLORS.secondary} strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                          )}
+                        </LineChart>
+                      ) : (
+                        <BarChart data={result.rows} layout="vertical">
+                          <XAxis type="number" hide />
+                          <YAxis type="category" dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#64748B', fontWeight: 'bold' }} width={140} />
+                          <Tooltip cursor={{ fill: '#F8FAFC' }} formatter={(v: any) => formatChart(Number(v))} />
+                          <Bar dataKey={chartKey} name={byChange ? 'Изменение' : QUERY_METRIC_LABELS[query.metric]} radius={[0, 10, 10, 0]}>
+                            {result.rows.map(r => (
+                              <Cell
+                                key={r.key}
+                                fill={!byChange ? CHART_COLORS.primary : (r[chartKey] ?? 0) < 0 ? '#F43F5E' : '#10B981'}
+                              />
+                            ))}
+                          </Bar>
+                        </BarChart>
+                      )}
+                    </ResponsiveContainer>
+                  </div>
+                )}
+
+                <div className="overflow-auto border border-slate-100 rounded-2xl">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="p-3 text-left font-black text-slate-400 uppercase tracking-widest">{query.groupBy === 'none' ? '' : 'Группа'}</th>
+                        <th className="p-3 text-right font-black text-slate-400 uppercase tracking-widest">{QUERY_METRIC_LABELS[query.metric]}</th>
+                        {result.baseRange && (
+                          <>
+                            <th className="p-3 text-right font-black text-slate-400 uppercase tracking-widest">База</th>
+                            <th className="p-3 text-right font-black text-slate-400 uppercase tracking-widest">Изменение</th>
+                            <th className="p-3 text-right font-black text-slate-400 uppercase tracking-widest">%</th>
+                          </>
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-50">
+                      {result.rows.map(r => (
+                        <tr key={r.key} className="hover:bg-slate-50/50">
+                          <td className="p-3 font-bold text-slate-700">{r.label}</td>
+                          <td className="p-3 text-right font-bold text-slate-700">{formatQueryValue(query.metric, r.value, fmt)}</td>
+                          {result.baseRange && (
+                            <>
+                              <td className="p-3 text-right text-slate-500">{r.base === null ? '—' : formatQueryValue(query.metric, r.base, fmt)}</td>
+                              <td className={`p-3 text-right font-bold ${changeClass(r.change)}`}>{r.change === null ? '—' : formatQueryValue(query.metric, r.change, fmt)}</td>
+                              <td className={`p-3 text-right font-bold ${changeClass(r.changePct)}`}>{r.changePct === null ? '—' : formatPercent(r.changePct)}</td>
+                            </>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {result.groupCount > result.rows.length && (
+                    <div className="p-3 text-xs font-bold text-slate-400">Показаны {result.rows.length} из {result.groupCount}</div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-3 border-t border-slate-100 pt-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h4 className="text-lg font-black">Сводка за неделю</h4>
+              <p className="text-xs font-bold text-slate-400">Последняя полная неделя выборки против предыдущей</p>
+            </div>
+            <button
+              onClick={() => summarize()}
+              disabled={summarizing || !rows.length}
+              className="px-5 py-2.5 bg-slate-900 text-white rounded-2xl text-xs font-bold hover:bg-slate-700 disabled:bg-slate-300 transition"
+            >
+              {summarizing ? 'Пишу…' : summary ? 'Обновить' : 'Составить'}
+            </button>
+          </div>
+          {summaryError && (
+            <div className="flex items-center gap-3 text-xs font-bold text-rose-500">
+              <span>{summaryError}</span>
+              {assistant.id !== 'local' && (
+                <button onClick={switchToLocal} className="underline hover:text-rose-700">Составить без модели</button>
+              )}
+            </div>
+          )}
+          {summary && <p className="text-sm text-slate-600 leading-relaxed whitespace-pre-line">{summary}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AskDataPanel;
@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import { NormalizedRow } from '../types';
+import { formatCompact } from '../utils/format';
+import { useFormatter } from '../hooks/useFormatter';
+import { DateRange, endOfMonth } from '../utils/dates';
+import { monthLabel } from '../utils/plan';
+import {
+  DayMark, DayMarkKind, DayMarksMode, CalendarMetric, WeekdayMetric,
+  DAY_MARK_LABELS, DAY_MARKS_MODE_LABELS, DAY_MARK_COLORS, CALENDAR_METRIC_LABELS, WEEKDAY_METRIC_LABELS, WEEKDAY_NAMES,
+  buildCalendar, buildWeekdayMatrix, toggleDayMark
+} from '../utils/calendar';
+
+type ClickMode = 'filter' | DayMarkKind;
+
+const CLICK_MODE_LABELS: Record<ClickMode, string> = {
+  filter: 'Фильтр по дате',
+  holiday: `Отметить: ${DAY_MARK_LABELS.holiday.toLowerCase()}`,
+  promo: `Отметить: ${DAY_MARK_LABELS.promo.toLowerCase()}`,
+};
+
+const heat = (value: number | null, max: number): string =>
+  value === null || max <= 0 ? '#F8FAFC' : `rgba(255, 92, 53, ${0.08 + value / max * 0.82})`;
+
+const segmentClass = (active: boolean) =>
+  `px-3 py-1 text-[10px] font-bold rounded-lg transition ${active ? 'bg-white text-orange-500 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`;
+
+const CalendarAnalysis = ({ calendarRows, rows, range, marks, marksMode, onMarksChange, onMarksModeChange, onSelectRange, onSelectStore }: {
+  // Календарь строится без фильтра дат, иначе клик по дню схлопнул бы его до одной клетки
+  calendarRows: NormalizedRow[],
+  rows: NormalizedRow[],
+  range: DateRange | null,
+  marks: DayMark[],
+  marksMode: DayMarksMode,
+  onMarksChange: (marks: DayMark[]) => void,
+  onMarksModeChange: (mode: DayMarksMode) => void,
+  onSelectRange: (from: string, to: string) => void,
+  onSelectStore: (store: string) => void,
+}) => {
+  const fmt = useFormatter();
+  const [calendarMetric, setCalendarMetric] = useState<CalendarMetric>('revenue');
+  const [weekdayMetric, setWeekdayMetric] = useState<WeekdayMetric>('revenue');
+  const [clickMode, setClickMode] = useState<ClickMode>('filter');
+
+  const calendar = useMemo(() => buildCalendar(calendarRows, calendarMetric), [calendarRows, calendarMetric]);
+  const matrix = useMemo(() => buildWeekdayMatrix(rows, weekdayMetric), [rows, weekdayMetric]);
+  const markByDate = useMemo(() => new Map(marks.map(m => [m.date, m])), [marks]);
+
+  const matrixMax = Math.max(0, ...Array.from(matrix.values.values()).flat().map(v => v || 0));
+  const formatCalendar = calendarMetric === 'revenue' ? fmt.currency : formatCompact;
+  const inRange = (date: string) => !!range && date >= range.from && date <= range.to;
+
+  const handleDay = (date: string) => {
+    if (clickMode === 'filter') onSelectRange(date, date);
+    else onMarksChange(toggleDayMark(marks, date, clickMode));
+  };
+
+  return (
+    <>
+      <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h3 className="text-2xl font-black tracking-tight">Календарь продаж</h3>
+            <p className="text-xs font-bold text-slate-400 mt-1">Клик по дню — фильтр на этот день, по неделе — на всю неделю, по месяцу — на месяц</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex bg-slate-50 rounded-xl p-1">
+              {(Object.keys(CALENDAR_METRIC_LABELS) as CalendarMetric[]).map(m => (
+                <button key={m} onClick={() => setCalendarMetric(m)} className={segmentClass(calendarMetric === m)}>{CALENDAR_METRIC_LABELS[m]}</button>
+              ))}
+            </div>
+            <div className="flex bg-slate-50 rounded-xl p-1">
+              {(Object.keys(CLICK_MODE_LABELS) as ClickMode[]).map(m => (
+                <button key={m} onClick={() => setClickMode(m)} className={segmentClass(clickMode === m)}>{CLICK_MODE_LABELS[m]}</button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-6">
+          {calendar.months.map(({ month, weeks }) => (
+            <div key={month} className="space-y-2">
+              <button
+                onClick={() => onSelectRange(`${month}-01`, endOfMonth(`${month}-01`))}
+                className="text-sm font-black text-slate-700 hover:text-orange-500 transition"
+              >
+                {monthLabel(month)}
+              </button>
+              <div className="grid grid-cols-[20px_repeat(7,1fr)] gap-1">
+                <span></span>
+                {WEEKDAY_NAMES.map(w => (
+                  <span key={w} className="text-[9px] font-black text-slate-300 text-center uppercase">{w}</span>
+                ))}
+                {weeks.map(week => (
+                  <React.Fragment key={week[0].date}>
+                    <button
+                      onClick={() => onSelectRange(week[0].date, week[6].date)}
+                      className="text-[9px] font-bold text-slate-300 hover:text-orange-500"
+                      title="Выбрать неделю"
+                    >
+                      ›
+                    </button>
+                    {week.map(day => {
+                      const mark = markByDate.get(day.date);
+                      return day.inMonth ? (
+                        <button
+                          key={day.date}
+                          onClick={() => handleDay(day.date)}
+                          title={`${day.date}: ${day.value === null ? 'нет данных' : formatCalendar(day.value)}${mark ? ` · ${DAY_MARK_LABELS[mark.kind]}${mark.label ? ` «${mark.label}»` : ''}` : ''}`}
+                          className={`aspect-square rounded-md text-[9px] font-bold flex items-center justify-center transition hover:scale-110 ${inRange(day.date) ? 'text-slate-900' : 'text-slate-400'}`}
+                          style={{
+                            backgroundColor: heat(day.value, calendar.max),
+                            boxShadow: mark ? `inset 0 0 0 2px ${DAY_MARK_COLORS[mark.kind]}` : undefined,
+                            opacity: mark && marksMode === 'exclude' ? 0.4 : 1,
+                          }}
+                        >
+                          {Number(day.date.slice(8, 10))}
+                        </button>
+                      ) : <span key={day.date}></span>;
+                    })}
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+        <div className="xl:col-span-2 bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h3 className="text-2xl font-black tracking-tight">Магазин × день недели</h3>
+              <p className="text-xs font-bold text-slate-400 mt-1">За выбранный период · клик по магазину — фильтр по нему</p>
+            </div>
+            <div className="flex bg-slate-50 rounded-xl p-1">
+              {(Object.keys(WEEKDAY_METRIC_LABELS) as WeekdayMetric[]).map(m => (
+                <button key={m} onClick={() => setWeekdayMetric(m)} className={segmentClass(weekdayMetric === m)}>{WEEKDAY_METRIC_LABELS[m]}</button>
+              ))}
+            </div>
+          </div>
+          <div className="overflow-x-auto -mx-8">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-slate-50">
+                  <th className="p-4 pl-8 text-left text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">Магазин</th>
+                  {WEEKDAY_NAMES.map(w => (
+                    <th key={w} className="p-4 text-center text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">{w}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {matrix.stores.map(store => (
+                  <tr key={store}>
+                    <td className="p-3 pl-8">
+                      <button onClick={() => onSelectStore(store)} className="text-sm font-bold text-slate-700 hover:text-orange-500 transition text-left">{store}</button>
+                    </td>
+                    {matrix.values.get(store)!.map((v, i) => (
+                      <td key={i} className="p-1 text-center">
+                        <span className="block px-2 py-2 rounded-lg text-xs font-bold text-slate-700" style={{ backgroundColor: heat(v, matrixMax) }}>
+                          {v === null ? '—' : fmt.currency(v)}
+                        </span>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="bg-slate-900 text-white">
+                  <td className="p-4 pl-8 text-sm font-black">Вся сеть</td>
+                  {matrix.total.map((v, i) => (
+                    <td key={i} className="p-4 text-center text-xs font-black">{v === null ? '—' : fmt.currency(v)}</td>
+                  ))}
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-black">Праздники и акции</h3>
+            <div className="flex bg-slate-50 rounded-xl p-1">
+              {(Object.keys(DAY_MARKS_MODE_LABELS) as DayMarksMode[]).map(m => (
+                <button key={m} onClick={() => onMarksModeChange(m)} className={segmentClass(marksMode === m)}>{DAY_MARKS_MODE_LABELS[m]}</button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-slate-400">
+            {marksMode === 'exclude'
+              ? 'Отмеченные дни не входят ни в KPI, ни в графики, ни в сводную.'
+              : 'Отмеченные дни показываются на графике динамики и в календаре.'}
+          </p>
+          {marks.length === 0 && (
+            <p className="text-sm text-slate-400">Выберите режим «Отметить» и кликните по дням в календаре.</p>
+          )}
+          <div className="space-y-2 max-h-[420px] overflow-y-auto">
+            {marks.map(m => (
+              <div key={m.date} className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: DAY_MARK_COLORS[m.kind] }}></span>
+                <span className="text-xs font-bold text-slate-600 w-20 shrink-0">{m.date}</span>
+                <input
+                  value={m.label}
+                  placeholder={DAY_MARK_LABELS[m.kind]}
+                  onChange={e => onMarksChange(marks.map(x => x.date === m.date ? { ...x, label: e.target.value } : x))}
+                  className="flex-1 min-w-0 bg-slate-50 border-none rounded-xl px-3 py-1.5 text-xs font-medium focus:ring-2 focus:ring-orange-500"
+                />
+                <button onClick={() => onMarksChange(marks.filter(x => x.date !== m.date))} className="text-slate-300 hover:text-rose-500">×</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CalendarAnalysis;
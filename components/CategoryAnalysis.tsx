@@ -0,0 +1,199 @@
+import React, { useMemo } from 'react';
+import {
+  XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Bar, Line, BarChart, Legend, ReferenceLine, Cell
+} from 'recharts';
+import { NormalizedRow } from '../types';
+import { COLORS, CHART_COLORS } from '../constants';
+import { useFormatter } from '../hooks/useFormatter';
+import {
+  AbcClass, XyzClass, ABC_LABELS, XYZ_LABELS, ABC_THRESHOLDS, OTHER_CATEGORY,
+  classifyCategories, categoryShareByStore, categoryMixByMonth
+} from '../utils/categories';
+import { bucketLabel } from '../utils/timeSeries';
+
+// В структуре по магазинам отдельно показываются только крупнейшие категории
+const STORE_MIX_TOP = 8;
+
+const ABC_COLORS: Record<AbcClass, string> = { A: '#10B981', B: '#F59E0B', C: '#94A3B8' };
+
+const formatShare = (v: number) => `${v.toLocaleString('ru-RU', { maximumFractionDigits: 1 })}%`;
+
+const formatShift = (v: number) =>
+  `${v > 0 ? '+' : ''}${v.toLocaleString('ru-RU', { maximumFractionDigits: 1 })} п.п.`;
+
+const cardClass = "bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm";
+
+const CategoryAnalysis = ({ rows }: { rows: NormalizedRow[] }) => {
+  const fmt = useFormatter();
+  const stats = useMemo(() => classifyCategories(rows), [rows]);
+  const topCategories = useMemo(() => stats.slice(0, STORE_MIX_TOP).map(s => s.category), [stats]);
+  const storeMix = useMemo(() => categoryShareByStore(rows, topCategories), [rows, topCategories]);
+  const mix = useMemo(() => categoryMixByMonth(rows), [rows]);
+  const hasOther = stats.length > STORE_MIX_TOP;
+
+  const matrix = useMemo(() => {
+    const cells = new Map<string, { count: number, share: number }>();
+    stats.forEach(s => {
+      const key = `${s.abc}${s.xyz}`;
+      const cell = cells.get(key) || { count: 0, share: 0 };
+      cells.set(key, { count: cell.count + 1, share: cell.share + s.share });
+    });
+    return cells;
+  }, [stats]);
+
+  if (!stats.length) {
+    return <p className="text-sm text-slate-400 px-2">Нет данных по категориям для выбранных фильтров.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Кривая Парето */}
+        <div className={`lg:col-span-2 ${cardClass}`}>
+          <h3 className="text-xl font-black mb-8">Кривая Парето</h3>
+          <div className="h-[350px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={stats}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+                <XAxis dataKey="category" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94A3B8' }} interval={0} angle={-30} textAnchor="end" height={70} />
+                <YAxis yAxisId="rev" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94A3B8' }} tickFormatter={v => `${(v / 1000).toFixed(0)}k`} />
+                <YAxis yAxisId="pct" orientation="right" domain={[0, 100]} axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94A3B8' }} tickFormatter={v => `${v}%`} />
+                <Tooltip
+                  contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 10px 30px rgba(0,0,0,0.1)' }}
+                  formatter={(v: any, name: any) => name === 'revenue' ? [fmt.currency(v), 'Выручка'] : [formatShare(v), 'Накопленная доля']}
+                />
+                <ReferenceLine yAxisId="pct" y={ABC_THRESHOLDS.A} stroke={CHART_COLORS.secondary} strokeDasharray="4 4" />
+                <Bar yAxisId="rev" dataKey="revenue" radius={[8, 8, 0, 0]}>
+                  {stats.map(s => <Cell key={s.category} fill={ABC_COLORS[s.abc]} />)}
+                </Bar>
+                <Line yAxisId="pct" type="monotone" dataKey="cumulativeShare" stroke="#FF5C35" strokeWidth={3} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {/* Матрица ABC/XYZ */}
+        <div className={cardClass}>
+          <h3 className="text-xl font-black mb-8">Матрица ABC/XYZ</h3>
+          <div className="grid grid-cols-4 gap-2 text-center">
+            <div></div>
+            {(['X', 'Y', 'Z'] as XyzClass[]).map(x => (
+              <div key={x} title={XYZ_LABELS[x]} className="text-xs font-black text-slate-400">{x}</div>
+            ))}
+            {(['A', 'B', 'C'] as AbcClass[]).map(a => (
+              <React.Fragment key={a}>
+                <div title={ABC_LABELS[a]} className="text-xs font-black self-center" style={{ color: ABC_COLORS[a] }}>{a}</div>
+                {(['X', 'Y', 'Z'] as XyzClass[]).map(x => {
+                  const cell = matrix.get(`${a}${x}`);
+                  return (
+                    <div key={x} className={`rounded-2xl py-3 ${cell ? 'bg-slate-50' : 'bg-slate-50/40'}`}>
+                      <div className="text-lg font-black text-slate-800">{cell?.count || 0}</div>
+                      <div className="text-[10px] font-bold text-slate-400">{formatShare(cell?.share || 0)}</div>
+                    </div>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="mt-6 space-y-1 text-[10px] font-bold text-slate-400">
+            {(['A', 'B', 'C'] as AbcClass[]).map(a => <div key={a}>{a} — {ABC_LABELS[a]}</div>)}
+            {(['X', 'Y', 'Z'] as XyzClass[]).map(x => <div key={x}>{x} — {XYZ_LABELS[x]}</div>)}
+          </div>
+        </div>
+      </div>
+
+      {/* Классификация */}
+      <div className={cardClass}>
+        <h3 className="text-2xl font-black tracking-tight mb-6">Классификация категорий</h3>
+        <div className="overflow-x-auto -mx-8 max-h-[480px] overflow-y-auto">
+          <table className="w-full border-collapse">
+            <thead className="sticky top-0">
+              <tr className="bg-slate-50">
+                {['Категория', 'Выручка', 'Доля', 'Накопленная', 'ABC', 'CV недель', 'XYZ'].map((h, i) => (
+                  <th key={h} className={`p-4 text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 ${i === 0 ? 'pl-8 text-left' : 'text-right'}`}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {stats.map(s => (
+                <tr key={s.category} className="hover:bg-slate-50/50 transition">
+                  <td className="p-4 pl-8 text-sm font-bold text-slate-700">{s.category}</td>
+                  <td className="p-4 text-right text-sm font-medium text-slate-600">{fmt.currency(s.revenue)}</td>
+                  <td className="p-4 text-right text-sm font-medium text-slate-600">{formatShare(s.share)}</td>
+                  <td className="p-4 text-right text-sm font-medium text-slate-400">{formatShare(s.cumulativeShare)}</td>
+                  <td className="p-4 text-right text-sm font-black" style={{ color: ABC_COLORS[s.abc] }}>{s.abc}</td>
+                  <td className="p-4 text-right text-sm font-medium text-slate-600">{s.cv === null ? '—' : formatShare(s.cv)}</td>
+                  <td className="p-4 text-right text-sm font-black text-slate-700">{s.xyz}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Доли категорий по магазинам */}
+      <div className={cardClass}>
+        <h3 className="text-xl font-black mb-8">Структура выручки магазинов</h3>
+        <div style={{ height: Math.max(200, storeMix.length * 48 + 80) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={storeMix} layout="vertical" stackOffset="expand">
+              <XAxis type="number" hide />
+              <YAxis type="category" dataKey="store" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#64748B', fontWeight: 'bold' }} width={140} />
+              <Tooltip
+                cursor={{ fill: '#F8FAFC' }}
+                contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 10px 30px rgba(0,0,0,0.1)' }}
+                formatter={(v: any, name: any) => [formatShare(v), name]}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              {[...topCategories, ...(hasOther ? [OTHER_CATEGORY] : [])].map((cat, i) => (
+                <Bar key={cat} dataKey={cat} stackId="mix" fill={cat === OTHER_CATEGORY ? '#CBD5E1' : COLORS[i % COLORS.length]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Сдвиг структуры по месяцам */}
+      <div className={cardClass}>
+        <h3 className="text-2xl font-black tracking-tight mb-2">Сдвиг структуры по месяцам</h3>
+        <p className="text-xs font-bold text-slate-400 mb-6">Доля категории в выручке месяца и изменение к предыдущему месяцу</p>
+        <div className="overflow-x-auto -mx-8">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-slate-50">
+                <th className="p-4 pl-8 text-left text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 sticky left-0 bg-slate-50">Категория</th>
+                {mix.months.map(m => (
+                  <th key={m} className="p-4 text-right text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 min-w-[110px]">{bucketLabel(m, 'month')}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {stats.map(s => {
+                const shares = mix.shares.get(s.category);
+                return (
+                  <tr key={s.category} className="hover:bg-slate-50/50 transition">
+                    <td className="p-4 pl-8 text-sm font-bold text-slate-700 sticky left-0 bg-white">{s.category}</td>
+                    {mix.months.map((m, i) => {
+                      const share = shares?.get(m) || 0;
+                      const shift = i > 0 ? share - (shares?.get(mix.months[i - 1]) || 0) : null;
+                      return (
+                        <td key={m} className="p-4 text-right text-sm font-medium text-slate-600">
+                          <div>{formatShare(share)}</div>
+                          {shift !== null && Math.abs(shift) >= 0.05 && (
+                            <div className={`text-[10px] font-bold ${shift > 0 ? 'text-emerald-500' : 'text-rose-500'}`}>{formatShift(shift)}</div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryAnalysis;
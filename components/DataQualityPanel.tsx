@@ -0,0 +1,96 @@
+import React, { useState, useMemo } from 'react';
+import { DataIssue, DataIssueType } from '../types';
+import { ISSUE_LABELS } from '../utils/normalize';
+
+const DRILLDOWN_LIMIT = 50;
+
+const DataQualityPanel = ({ issues, excludeFlagged, onToggleExclude }: {
+  issues: DataIssue[],
+  excludeFlagged: boolean,
+  onToggleExclude: (value: boolean) => void,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [selectedType, setSelectedType] = useState<DataIssueType | null>(null);
+
+  const byType = useMemo(() => {
+    const groups: Partial<Record<DataIssueType, DataIssue[]>> = {};
+    issues.forEach(i => { (groups[i.type] = groups[i.type] || []).push(i); });
+    return (Object.entries(groups) as [DataIssueType, DataIssue[]][])
+      .sort((a, b) => b[1].length - a[1].length);
+  }, [issues]);
+
+  const flaggedRows = useMemo(() => new Set(issues.map(i => i.rowId)).size, [issues]);
+
+  const selected = selectedType ? (byType.find(([t]) => t === selectedType)?.[1] || []) : [];
+
+  if (!issues.length) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-[32px] border border-amber-100 shadow-sm space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <button onClick={() => setExpanded(e => !e)} className="flex items-center gap-3 text-left">
+          <div className="w-10 h-10 rounded-2xl bg-amber-50 text-amber-500 flex items-center justify-center font-black">!</div>
+          <div>
+            <div className="text-lg font-black text-slate-900">Качество данных</div>
+            <div className="text-xs font-bold text-slate-400">
+              {issues.length} проблем в {flaggedRows} строках · {expanded ? 'свернуть' : 'подробнее'}
+            </div>
+          </div>
+        </button>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={excludeFlagged}
+            onChange={e => onToggleExclude(e.target.checked)}
+            className="w-4 h-4 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+          />
+          <span className="text-sm font-medium text-slate-600">Исключить проблемные строки из расчётов</span>
+        </label>
+      </div>
+
+      {expanded && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {byType.map(([type, list]) => (
+              <button
+                key={type}
+                onClick={() => setSelectedType(t => t === type ? null : type)}
+                className={`px-3 py-2 rounded-xl text-xs font-bold transition ${selectedType === type ? 'bg-amber-500 text-white' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'}`}
+              >
+                {ISSUE_LABELS[type]}: {list.length}
+              </button>
+            ))}
+          </div>
+
+          {selectedType && (
+            <div className="overflow-x-auto border border-slate-100 rounded-2xl max-h-96">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr>
+                    <th className="p-3 text-left font-black text-slate-400 uppercase tracking-widest">№</th>
+                    <th className="p-3 text-left font-black text-slate-400 uppercase tracking-widest">Поле</th>
+                    <th className="p-3 text-left font-black text-slate-400 uppercase tracking-widest">Значение</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {selected.slice(0, DRILLDOWN_LIMIT).map((issue, idx) => (
+                    <tr key={`${issue.rowId}-${idx}`}>
+                      <td className="p-3 text-slate-400">{issue.rowIndex + 1}</td>
+                      <td className="p-3 font-bold text-slate-600">{issue.field || '—'}</td>
+                      <td className="p-3 font-bold text-amber-600">{issue.value ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {selected.length > DRILLDOWN_LIMIT && (
+                <div className="p-3 text-xs font-bold text-slate-400">Показаны первые {DRILLDOWN_LIMIT} из {selected.length}</div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
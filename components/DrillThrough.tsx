@@ -0,0 +1,65 @@
+import React from 'react';
+import { NormalizedRow } from '../types';
+import { computeTotals } from '../utils/aggregate';
+import { formatCompact, formatWeight } from '../utils/format';
+import { useFormatter } from '../hooks/useFormatter';
+
+const DRILL_LIMIT = 500;
+
+const DrillThrough = ({ title, rows, onClose }: {
+  title: string,
+  rows: NormalizedRow[],
+  onClose: () => void,
+}) => {
+  const fmt = useFormatter();
+  const totals = computeTotals(rows);
+  const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date) || a.store_name.localeCompare(b.store_name));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col p-8 gap-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-2xl font-black tracking-tight">{title}</h3>
+            <p className="text-slate-400 text-sm font-medium mt-1">
+              {rows.length} строк · {fmt.currency(totals.revenue)} · {formatCompact(totals.checks)} чеков · ATV {fmt.currency(totals.atv)}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="overflow-auto border border-slate-100 rounded-2xl">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                {['Дата', 'Магазин', 'Категория', 'Ед.', 'Выручка', 'Чеки', 'Штуки', 'Вес', 'ATV'].map(h => (
+                  <th key={h} className="p-3 text-left font-black text-slate-400 uppercase tracking-widest">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {sorted.slice(0, DRILL_LIMIT).map(r => (
+                <tr key={r.id} className="hover:bg-slate-50/50">
+                  <td className="p-3 text-slate-600 whitespace-nowrap">{r.date}</td>
+                  <td className="p-3 text-slate-600">{r.store_name}</td>
+                  <td className="p-3 text-slate-600">{r.category_name}</td>
+                  <td className="p-3 text-slate-400">{r.unit_raw || r.unit_type}</td>
+                  <td className="p-3 font-bold text-slate-700">{fmt.currency(r.revenue_rub)}</td>
+                  <td className="p-3 text-slate-600">{formatCompact(r.checks)}</td>
+                  <td className="p-3 text-slate-600">{formatCompact(r.pieces)}</td>
+                  <td className="p-3 text-slate-600">{formatWeight(r.weight_kg)}</td>
+                  <td className="p-3 text-slate-600">{fmt.currency(r.atv)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length > DRILL_LIMIT && (
+            <div className="p-3 text-xs font-bold text-slate-400">Показаны первые {DRILL_LIMIT} из {rows.length}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DrillThrough;
@@ -0,0 +1,174 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { ICONS } from '../constants';
+import { importFile, ImportResult, ACCEPTED_EXTENSIONS } from '../services/fileImport';
+import { createFormatter } from '../utils/format';
+
+export type ImportMode = 'replace' | 'merge';
+
+const FORMAT_LABELS: Record<ImportResult['format'], string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+};
+
+const FileImport = ({ hasData, onApply, onClose }: {
+  hasData: boolean,
+  onApply: (mode: ImportMode, result: ImportResult) => void,
+  onClose: () => void,
+}) => {
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [parsing, setParsing] = useState(false);
+  const [dragOver, setDragOver] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setParsing(true);
+    setError(null);
+    setResult(null);
+    try {
+      setResult(await importFile(file));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const totalRevenue = result ? result.rows.reduce((acc, r) => acc + r.revenue_rub, 0) : 0;
+  // Суммы файла — в его собственной валюте, а не в валюте открытого набора
+  const fmt = useMemo(() => createFormatter(result?.meta?.currency), [result]);
+  const dates = result ? result.rows.map(r => r.date).filter(Boolean).sort() : [];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-8 space-y-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-black tracking-tight">Импорт файла</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div
+          onDragOver={e => { e.preventDefault(); setDragOver(true); }}
+          onDragLeave={() => setDragOver(false)}
+          onDrop={e => { e.preventDefault(); setDragOver(false); handleFile(e.dataTransfer.files[0]); }}
+          onClick={() => inputRef.current?.click()}
+          className={`border-2 border-dashed rounded-[32px] p-10 text-center cursor-pointer transition ${dragOver ? 'border-orange-500 bg-orange-50' : 'border-slate-200 hover:border-orange-300 bg-slate-50'}`}
+        >
+          <ICONS.Download className="w-10 h-10 mx-auto text-slate-300 rotate-180" />
+          <p className="mt-4 font-bold text-slate-600">
+            {parsing ? 'Чтение файла...' : 'Перетащите файл сюда или нажмите для выбора'}
+          </p>
+          <p className="text-xs text-slate-400 mt-1">CSV (разделитель «;» или «,»), XLSX или JSON в формате отчёта</p>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ACCEPTED_EXTENSIONS}
+            className="hidden"
+            onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+          />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-rose-50 border border-rose-100 rounded-2xl text-rose-500 text-sm font-medium">
+            Ошибка: {error}
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-slate-50 rounded-2xl p-4">
+                <div className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Файл</div>
+                <div className="text-sm font-black text-slate-900 truncate">{result.fileName}</div>
+              </div>
+              <div className="bg-slate-50 rounded-2xl p-4">
+                <div className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Формат</div>
+                <div className="text-sm font-black text-slate-900">{FORMAT_LABELS[result.format]}</div>
+              </div>
+              <div className="bg-slate-50 rounded-2xl p-4">
+                <div className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Строк</div>
+                <div className="text-sm font-black text-slate-900">{result.rows.length}</div>
+              </div>
+              <div className="bg-slate-50 rounded-2xl p-4">
+                <div className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Выручка</div>
+                <div className="text-sm font-black text-slate-900">{fmt.currency(totalRevenue)}</div>
+              </div>
+            </div>
+
+            {dates.length > 0 && (
+              <p className="text-xs font-bold text-slate-400">
+                Период: {dates[0]} — {dates[dates.length - 1]}
+              </p>
+            )}
+
+            {result.issues.length > 0 && (
+              <p className="text-xs font-bold text-amber-600">
+                Найдено проблем качества данных: {result.issues.length} в {new Set(result.issues.map(i => i.rowId)).size} строках. Подробности — в панели «Качество данных» после загрузки.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                Обнаруженные колонки ({result.columns.length})
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {result.columns.map(c => (
+                  <span key={c} className="px-3 py-1 bg-slate-100 text-[10px] font-bold text-slate-600 rounded-lg">{c}</span>
+                ))}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto border border-slate-100 rounded-2xl">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50">
+                  <tr>
+                    {['Дата', 'Магазин', 'Категория', 'Выручка', 'Чеки', 'Штуки', 'Вес'].map(h => (
+                      <th key={h} className="p-3 text-left font-black text-slate-400 uppercase tracking-widest">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {result.rows.slice(0, 5).map(r => (
+                    <tr key={r.id}>
+                      <td className="p-3 text-slate-600">{r.date}</td>
+                      <td className="p-3 text-slate-600">{r.store_name}</td>
+                      <td className="p-3 text-slate-600">{r.category_name}</td>
+                      <td className="p-3 text-slate-600">{fmt.currency(r.revenue_rub)}</td>
+                      <td className="p-3 text-slate-600">{r.checks}</td>
+                      <td className="p-3 text-slate-600">{r.pieces}</td>
+                      <td className="p-3 text-slate-600">{r.weight_kg}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-wrap gap-3 justify-end pt-2">
+              <button onClick={onClose} className="px-6 py-3 text-slate-400 hover:text-slate-600 text-xs font-bold uppercase tracking-widest transition">
+                Отмена
+              </button>
+              {hasData && (
+                <button
+                  onClick={() => onApply('merge', result)}
+                  className="px-6 py-3 bg-white border border-slate-100 rounded-2xl font-bold text-slate-600 shadow-sm hover:bg-slate-50 transition"
+                >
+                  Объединить с текущими
+                </button>
+              )}
+              <button
+                onClick={() => onApply('replace', result)}
+                className="px-6 py-3 bg-orange-500 text-white rounded-2xl font-bold shadow-lg shadow-orange-200 hover:bg-orange-600 transition"
+              >
+                {hasData ? 'Заменить данные' : 'Загрузить'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FileImport;
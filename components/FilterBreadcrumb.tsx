@@ -0,0 +1,59 @@
+import React from 'react';
+import { Filters } from '../types';
+import { UnitType, UNIT_TYPE_LABELS } from '../utils/units';
+import { ListFilterField, hasActiveFilters } from '../utils/crossFilter';
+import { UndoControls } from '../hooks/useUndoable';
+
+const chipClass = "flex items-center gap-1.5 pl-3 pr-2 py-1 bg-orange-50 text-orange-600 rounded-lg text-[10px] font-bold";
+const historyButtonClass = "w-8 h-8 rounded-xl bg-slate-50 hover:bg-orange-100 text-slate-500 font-black transition disabled:opacity-30 disabled:hover:bg-slate-50";
+
+const LIST_LABELS: Record<ListFilterField, string> = {
+  stores: 'Магазин',
+  categories: 'Категория',
+  unitTypes: 'Единицы',
+};
+
+const valueLabel = (field: ListFilterField, value: string) =>
+  field === 'unitTypes' ? UNIT_TYPE_LABELS[value as UnitType] || value : value;
+
+const periodLabel = (f: Filters) =>
+  f.dateFrom === f.dateTo ? f.dateFrom : `${f.dateFrom || '…'} — ${f.dateTo || '…'}`;
+
+// Строка активных фильтров над дашбордом: любой можно снять, изменения — отменить и вернуть
+const FilterBreadcrumb = ({ filters, history, onRemove, onReset }: {
+  filters: Filters,
+  history: UndoControls,
+  onRemove: (field: ListFilterField | 'dates', value?: string) => void,
+  onReset: () => void,
+}) => {
+  const active = hasActiveFilters(filters);
+  if (!active && !history.canUndo && !history.canRedo) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-white border border-slate-100 rounded-2xl shadow-sm">
+      <button onClick={history.undo} disabled={!history.canUndo} title="Отменить (Ctrl+Z)" className={historyButtonClass}>↶</button>
+      <button onClick={history.redo} disabled={!history.canRedo} title="Вернуть (Ctrl+Shift+Z)" className={historyButtonClass}>↷</button>
+      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Фильтры</span>
+      {!active && <span className="text-xs font-bold text-slate-300">не выбраны</span>}
+      {(filters.dateFrom || filters.dateTo) && (
+        <span className={chipClass}>
+          Период: {periodLabel(filters)}
+          <button onClick={() => onRemove('dates')} className="text-orange-300 hover:text-rose-500 text-sm leading-none">×</button>
+        </span>
+      )}
+      {(Object.keys(LIST_LABELS) as ListFilterField[]).flatMap(field => filters[field].map(value => (
+        <span key={`${field}:${value}`} className={chipClass}>
+          {LIST_LABELS[field]}: {valueLabel(field, value)}
+          <button onClick={() => onRemove(field, value)} className="text-orange-300 hover:text-rose-500 text-sm leading-none">×</button>
+        </span>
+      )))}
+      {active && (
+        <button onClick={onReset} className="ml-auto px-3 py-1 text-[10px] font-bold text-slate-400 hover:text-orange-500 uppercase tracking-widest transition">
+          Сбросить все
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FilterBreadcrumb;
@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { NormalizedRow } from '../types';
+import { formatPercent } from '../utils/format';
+import { useFormatter } from '../hooks/useFormatter';
+import { computeDelta } from '../utils/aggregate';
+import {
+  ForecastGranularity, ForecastMethod, FORECAST_METHOD_LABELS, forecastSeries, denseSeries, horizonSteps
+} from '../utils/forecast';
+
+type BreakdownDim = 'store_name' | 'category_name';
+
+const DIM_LABELS: Record<BreakdownDim, string> = {
+  store_name: 'Магазины',
+  category_name: 'Категории',
+};
+
+// Ошибка выше порога — прогнозу по этой строке верить не стоит
+const MAPE_WARNING = 20;
+
+const ForecastBreakdown = ({ rows, granularity, method, horizon }: {
+  rows: NormalizedRow[],
+  granularity: ForecastGranularity,
+  method: ForecastMethod,
+  horizon: number,
+}) => {
+  const fmt = useFormatter();
+  const [dim, setDim] = useState<BreakdownDim>('store_name');
+
+  const lines = useMemo(() => {
+    const groups = new Map<string, NormalizedRow[]>();
+    rows.forEach(r => {
+      if (!groups.has(r[dim])) groups.set(r[dim], []);
+      groups.get(r[dim])!.push(r);
+    });
+    const steps = horizonSteps(horizon, granularity);
+    return Array.from(groups.entries()).map(([name, list]) => {
+      const result = forecastSeries(list, granularity, method, horizon);
+      const forecast = result.points.reduce((acc, p) => acc + p.value, 0);
+      const low = result.points.reduce((acc, p) => acc + p.low, 0);
+      const high = result.points.reduce((acc, p) => acc + p.high, 0);
+      // Для сравнения берётся факт за такое же число последних периодов
+      const actual = denseSeries(list, granularity).slice(-steps).reduce((acc, p) => acc + p.value, 0);
+      return { name, forecast, low, high, actual, mape: result.mape, ok: result.points.length > 0 };
+    }).sort((a, b) => b.forecast - a.forecast);
+  }, [rows, dim, granularity, method, horizon]);
+
+  return (
+    <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-2xl font-black tracking-tight">Прогноз на {horizon} дн.</h3>
+          <p className="text-xs font-bold text-slate-400 mt-1">{FORECAST_METHOD_LABELS[method]} · сравнение с фактом за такой же срок перед прогнозом</p>
+        </div>
+        <div className="flex bg-slate-50 rounded-xl p-1">
+          {(Object.keys(DIM_LABELS) as BreakdownDim[]).map(d => (
+            <button
+              key={d}
+              onClick={() => setDim(d)}
+              className={`px-3 py-1 text-[10px] font-bold rounded-lg transition ${dim === d ? 'bg-white text-orange-500 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+            >
+              {DIM_LABELS[d]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto -mx-8 max-h-[480px] overflow-y-auto">
+        <table className="w-full border-collapse">
+          <thead className="sticky top-0">
+            <tr className="bg-slate-50">
+              {[DIM_LABELS[dim], 'Факт', 'Прогноз', 'Интервал 95%', 'Изменение', 'MAPE'].map((h, i) => (
+                <th key={h} className={`p-4 text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 ${i === 0 ? 'pl-8 text-left' : 'text-right'}`}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {lines.map(l => {
+              const change = computeDelta(l.forecast, l.actual).pct;
+              return (
+                <tr key={l.name} className="hover:bg-slate-50/50 transition">
+                  <td className="p-4 pl-8 text-sm font-bold text-slate-700">{l.name}</td>
+                  <td className="p-4 text-right text-sm font-medium text-slate-500">{fmt.currency(l.actual)}</td>
+                  {l.ok ? (
+                    <>
+                      <td className="p-4 text-right text-sm font-black text-slate-900">{fmt.currency(l.forecast)}</td>
+                      <td className="p-4 text-right text-xs font-medium text-slate-400">{fmt.currency(l.low)} — {fmt.currency(l.high)}</td>
+                      <td className={`p-4 text-right text-sm font-bold ${change === null ? 'text-slate-300' : change >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {change === null ? '—' : formatPercent(change)}
+                      </td>
+                      <td className={`p-4 text-right text-sm font-bold ${l.mape !== null && l.mape > MAPE_WARNING ? 'text-amber-500' : 'text-slate-500'}`}>
+                        {l.mape === null ? '—' : `${l.mape.toLocaleString('ru-RU', { maximumFractionDigits: 1 })}%`}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={4} className="p-4 text-right text-xs font-bold text-slate-300">Мало истории для прогноза</td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ForecastBreakdown;
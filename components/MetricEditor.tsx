@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { ICONS } from '../constants';
+import {
+  CustomMetric, MetricAcc, MetricFormat, MetricField, METRIC_FORMAT_LABELS, METRIC_FIELD_LABELS, METRIC_PRESETS,
+  createMetric, compileFormula, formulaError
+} from '../utils/metrics';
+import { Formatter } from '../utils/format';
+import { useFormatter } from '../hooks/useFormatter';
+
+const inputClass = "w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-2";
+
+const previewValue = (metric: CustomMetric, acc: MetricAcc | null, fmt: Formatter): string | null => {
+  if (!acc) return null;
+  try {
+    return fmt.metricValue(compileFormula(metric.formula)(acc, acc), metric.format);
+  } catch {
+    return null;
+  }
+};
+
+const MetricEditor = ({ metrics, preview, onSave, onClose }: {
+  metrics: CustomMetric[],
+  // Суммы текущей выборки — чтобы сразу видеть значение формулы
+  preview: MetricAcc | null,
+  onSave: (metrics: CustomMetric[]) => void,
+  onClose: () => void,
+}) => {
+  const fmt = useFormatter();
+  const [draft, setDraft] = useState<CustomMetric[]>(metrics);
+  const [editingId, setEditingId] = useState<string | null>(metrics[0]?.id || null);
+  const editing = draft.find(m => m.id === editingId);
+  const error = editing ? formulaError(editing.formula) : null;
+  const invalidCount = draft.filter(m => formulaError(m.formula)).length;
+
+  const update = (id: string, patch: Partial<CustomMetric>) =>
+    setDraft(list => list.map(m => m.id === id ? { ...m, ...patch } : m));
+
+  const addMetric = (base: Omit<CustomMetric, 'id'>) => {
+    const metric = createMetric(base);
+    setDraft(list => [...list, metric]);
+    setEditingId(metric.id);
+  };
+
+  const removeMetric = (id: string) => {
+    const next = draft.filter(m => m.id !== id);
+    setDraft(next);
+    if (editingId === id) setEditingId(next[0]?.id || null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-8 space-y-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-black tracking-tight">Вычисляемые показатели</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-6">
+          <div className="space-y-2">
+            {draft.map(m => (
+              <div
+                key={m.id}
+                onClick={() => setEditingId(m.id)}
+                className={`p-3 rounded-2xl cursor-pointer transition ${editingId === m.id ? 'bg-orange-50' : 'hover:bg-slate-50'}`}
+              >
+                <div className="text-sm font-bold text-slate-700 truncate">{m.name || 'Без названия'}</div>
+                <div className={`text-[10px] font-bold truncate font-mono ${formulaError(m.formula) ? 'text-rose-400' : 'text-slate-400'}`}>{m.formula || '—'}</div>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2 pt-2">
+              <button
+                onClick={() => addMetric({ name: 'Новый показатель', formula: 'revenue / checks', format: 'currency', showInKpi: false })}
+                className="px-3 py-1 bg-slate-100 hover:bg-orange-100 text-[10px] font-bold rounded-lg transition"
+              >
+                + Пустой
+              </button>
+              {METRIC_PRESETS.filter(p => !draft.some(m => m.formula === p.formula)).map(p => (
+                <button
+                  key={p.formula}
+                  onClick={() => addMetric(p)}
+                  className="px-3 py-1 bg-slate-100 hover:bg-orange-100 text-[10px] font-bold rounded-lg transition"
+                >
+                  + {p.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {editing ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className={labelClass}>Название</label>
+                <input value={editing.name} onChange={e => update(editing.id, { name: e.target.value })} className={inputClass} />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Формула</label>
+                <textarea
+                  rows={2}
+                  value={editing.formula}
+                  onChange={e => update(editing.id, { formula: e.target.value })}
+                  className={`${inputClass} font-mono ${error ? 'ring-2 ring-rose-300' : ''}`}
+                />
+                {error ? (
+                  <p className="text-xs font-bold text-rose-500 px-2">{error}</p>
+                ) : previewValue(editing, preview, fmt) !== null && (
+                  <p className="text-xs font-bold text-slate-500 px-2">По текущей выборке: {previewValue(editing, preview, fmt)}</p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className={labelClass}>Формат</label>
+                  <select value={editing.format} onChange={e => update(editing.id, { format: e.target.value as MetricFormat })} className={inputClass}>
+                    {(Object.keys(METRIC_FORMAT_LABELS) as MetricFormat[]).map(f => (
+                      <option key={f} value={f}>{METRIC_FORMAT_LABELS[f]}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer self-end pb-3 px-2">
+                  <input
+                    type="checkbox"
+                    checked={editing.showInKpi}
+                    onChange={e => update(editing.id, { showInKpi: e.target.checked })}
+                    className="w-4 h-4 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+                  />
+                  Карточка в KPI
+                </label>
+              </div>
+              <button
+                onClick={() => removeMetric(editing.id)}
+                className="px-4 py-2 text-rose-500 hover:bg-rose-50 rounded-2xl text-xs font-bold transition flex items-center gap-2"
+              >
+                <ICONS.Trash className="w-4 h-4" />
+                Удалить показатель
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400 px-2">Добавьте показатель — он появится в сводной, на графике динамики и, если нужно, среди карточек KPI.</p>
+          )}
+        </div>
+
+        <div className="p-6 bg-slate-50 rounded-[32px] space-y-3 text-xs text-slate-500">
+          <div className="font-black text-slate-400 uppercase tracking-widest">Как писать формулы</div>
+          <p>
+            Каждое поле — сумма по строкам ячейки, поэтому отношения считаются как отношение сумм на любом уровне итогов.
+            Доступны + − × /, скобки и числа. Деление на ноль даёт 0.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1">
+            {(Object.keys(METRIC_FIELD_LABELS) as MetricField[]).map(f => (
+              <div key={f}><span className="font-mono font-bold text-slate-700">{f}</span> — {METRIC_FIELD_LABELS[f]}</div>
+            ))}
+          </div>
+          <p>
+            <span className="font-mono font-bold text-slate-700">pieces[pcs]</span>, <span className="font-mono font-bold text-slate-700">revenue[kg]</span> — сумма только по штучному или весовому товару.{' '}
+            <span className="font-mono font-bold text-slate-700">total(revenue)</span> — сумма по всей выборке: итог сводной, весь период графика.
+          </p>
+        </div>
+
+        <div className="flex gap-3 justify-end items-center pt-2">
+          {invalidCount > 0 && (
+            <span className="text-xs font-bold text-rose-500 mr-auto px-2">Формулы с ошибкой не будут показаны: {invalidCount}</span>
+          )}
+          <button onClick={onClose} className="px-6 py-3 text-slate-400 hover:text-slate-600 text-xs font-bold uppercase tracking-widest transition">
+            Отмена
+          </button>
+          <button onClick={() => onSave(draft)} className="px-6 py-3 bg-orange-500 text-white rounded-2xl font-bold shadow-lg shadow-orange-200 hover:bg-orange-600 transition">
+            Сохранить
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MetricEditor;
@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import {
+  MONTH_NAMES, DateRange, DatePreset, relativePresets, monthPresets, weekPresets, yearRange, todayISO
+} from '../utils/dates';
+
+const chipClass = (active: boolean, enabled = true) =>
+  `px-3 py-1 text-[10px] font-bold rounded-lg transition ${active ? 'bg-orange-500 text-white' : enabled ? 'bg-slate-100 hover:bg-orange-100' : 'bg-slate-50 text-slate-300 cursor-not-allowed'}`;
+
+const PeriodPresets = ({ dates, value, onChange }: {
+  dates: string[],
+  value: DateRange,
+  onChange: (range: DateRange) => void,
+}) => {
+  const years = useMemo(() => Array.from(new Set(dates.map(d => Number(d.slice(0, 4))))).sort((a, b) => b - a), [dates]);
+  const [year, setYear] = useState<number | null>(null);
+  const selectedYear = year !== null && years.includes(year) ? year : years[0];
+
+  // Если данные отстают от календаря, «сегодня» — последний день в данных
+  const today = todayISO();
+  const dataEnd = dates[dates.length - 1];
+  const anchor = dataEnd && dataEnd < today ? dataEnd : today;
+
+  const relative = useMemo(() => relativePresets(anchor), [anchor]);
+  const months = useMemo(() => monthPresets(dates.filter(d => d.startsWith(String(selectedYear)))), [dates, selectedYear]);
+  const weeks = useMemo(() => weekPresets(dates.filter(d => d.startsWith(String(selectedYear)))), [dates, selectedYear]);
+
+  const isActive = (range: DateRange) => value.from === range.from && value.to === range.to;
+  const hasData = (range: DateRange) => dates.some(d => d >= range.from && d <= range.to);
+  const activeWeek = weeks.find(w => isActive(w.range));
+
+  if (!dates.length) return null;
+
+  return (
+    <div className="space-y-3 mt-2">
+      <div className="flex flex-wrap gap-2">
+        {relative.map((p: DatePreset) => {
+          const enabled = hasData(p.range);
+          return (
+            <button key={p.id} disabled={!enabled} onClick={() => onChange(p.range)} className={chipClass(isActive(p.range), enabled)}>
+              {p.label}
+            </button>
+          );
+        })}
+      </div>
+      {anchor !== today && (
+        <p className="text-[10px] font-bold text-slate-400 px-2">Отсчёт от последней даты в данных: {anchor}</p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedYear}
+          onChange={e => setYear(Number(e.target.value))}
+          className="bg-slate-50 border-none rounded-xl px-3 py-1.5 text-xs font-bold text-slate-700 focus:ring-2 focus:ring-orange-500"
+        >
+          {years.map(y => <option key={y} value={y}>{y}</option>)}
+        </select>
+        <button onClick={() => onChange(yearRange(selectedYear))} className={chipClass(isActive(yearRange(selectedYear)))}>
+          Весь год
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {months.map(p => (
+          <button key={p.id} onClick={() => onChange(p.range)} className={chipClass(isActive(p.range))}>
+            {MONTH_NAMES[Number(p.range.from.slice(5, 7)) - 1]}
+          </button>
+        ))}
+      </div>
+
+      {weeks.length > 0 && (
+        <select
+          value={activeWeek?.id || ''}
+          onChange={e => {
+            const week = weeks.find(w => w.id === e.target.value);
+            if (week) onChange(week.range);
+          }}
+          className="w-full bg-slate-50 border-none rounded-xl px-3 py-1.5 text-xs font-bold text-slate-700 focus:ring-2 focus:ring-orange-500"
+        >
+          <option value="">Неделя…</option>
+          {weeks.map(w => (
+            <option key={w.id} value={w.id}>{w.label}: {w.range.from} — {w.range.to}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default PeriodPresets;
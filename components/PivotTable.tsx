@@ -0,0 +1,365 @@
+import React, { useState, useMemo } from 'react';
+import { NormalizedRow, PivotValueType } from '../types';
+import {
+  PivotResult, PivotDimension, PivotViewOptions, PivotDisplayMode, PivotFormatMode,
+  PIVOT_DIMENSIONS, PIVOT_DISPLAY_LABELS, PIVOT_FORMAT_LABELS,
+  pivotValue, cellAt, visibleRows, visibleColumns, headerRows, pathKey, keyPath,
+  sortRowTree, displayValue, rowsForCell, isAdditive, formatDimValue
+} from '../utils/pivot';
+import { computeDelta } from '../utils/aggregate';
+import { Formatter, formatCompact, formatPercent } from '../utils/format';
+import { useFormatter } from '../hooks/useFormatter';
+import { CompiledMetrics, isCustomMetricKey } from '../utils/metrics';
+import { CrossFilterTarget, pivotPathTargets } from '../utils/crossFilter';
+import { ICONS } from '../constants';
+import DrillThrough from './DrillThrough';
+
+export const formatPivotValue = (val: number, type: PivotValueType, metrics: CompiledMetrics, fmt: Formatter): string => {
+  if (isCustomMetricKey(type)) return fmt.metric(type, val, metrics);
+  if (type === 'sum_revenue' || type === 'calc_atv' || type === 'plan_revenue') return fmt.currency(val);
+  if (type === 'plan_completion') return `${val.toLocaleString('ru-RU', { maximumFractionDigits: 1 })}%`;
+  if (type === 'calc_upt') return val.toFixed(2);
+  return formatCompact(val);
+};
+
+// Выбор уровней измерения: порядок чипов задаёт вложенность
+export const DimensionLevels = ({ label, value, exclude, min, onChange }: {
+  label: string,
+  value: PivotDimension[],
+  exclude: PivotDimension[],
+  min: number,
+  onChange: (dims: PivotDimension[]) => void,
+}) => {
+  const available = (Object.keys(PIVOT_DIMENSIONS) as PivotDimension[])
+    .filter(d => !value.includes(d) && !exclude.includes(d));
+  return (
+    <div className="space-y-1">
+      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-2">{label}</label>
+      <div className="flex flex-wrap items-center gap-1 bg-slate-50 rounded-2xl px-2 py-1.5 min-h-[40px]">
+        {value.map((d, i) => (
+          <span key={d} className="flex items-center gap-1 px-2 py-1 bg-white rounded-xl text-xs font-bold text-slate-700 shadow-sm">
+            {i > 0 && <span className="text-slate-300">→</span>}
+            {PIVOT_DIMENSIONS[d]}
+            {value.length > min && (
+              <button onClick={() => onChange(value.filter(x => x !== d))} className="text-slate-300 hover:text-rose-500">×</button>
+            )}
+          </span>
+        ))}
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={e => e.target.value && onChange([...value, e.target.value as PivotDimension])}
+            className="bg-transparent border-none text-xs font-bold text-slate-400 focus:ring-0 py-0"
+          >
+            <option value="">+ уровень</option>
+            {available.map(d => <option key={d} value={d}>{PIVOT_DIMENSIONS[d]}</option>)}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const toggle = (set: Set<string>, key: string): Set<string> => {
+  const next = new Set(set);
+  if (next.has(key)) next.delete(key); else next.add(key);
+  return next;
+};
+
+const selectClass = "bg-slate-50 border-none rounded-xl px-3 py-1.5 text-xs font-bold text-slate-700 focus:ring-2 focus:ring-orange-500";
+
+export const SortMark = ({ active, dir }: { active: boolean, dir: 'asc' | 'desc' }) => (
+  <span className={`ml-1 ${active ? 'text-orange-500' : 'text-slate-200'}`}>{active && dir === 'asc' ? '↑' : '↓'}</span>
+);
+
+// Воронка у заголовка: фильтрует весь дашборд по этой строке или колонке, с Shift — добавляет к выбранному
+const FilterButton = ({ targets, onSelect }: {
+  targets: CrossFilterTarget[],
+  onSelect: (targets: CrossFilterTarget[], multi: boolean) => void,
+}) => targets.length > 0 ? (
+  <button
+    onClick={e => { e.stopPropagation(); onSelect(targets, e.shiftKey); }}
+    title="Фильтровать дашборд (Shift — добавить к выбранным)"
+    className="opacity-0 group-hover/header:opacity-100 text-slate-300 hover:text-orange-500 transition shrink-0"
+  >
+    <ICONS.Filter className="w-3 h-3" />
+  </button>
+) : null;
+
+const PivotTable = ({ pivot, basePivot, pivotVal, customMetrics, rows: sourceRows, options, onOptionsChange, onCrossFilter }: {
+  pivot: PivotResult,
+  basePivot: PivotResult | null,
+  pivotVal: PivotValueType,
+  customMetrics: CompiledMetrics,
+  rows: NormalizedRow[],
+  options: PivotViewOptions,
+  onOptionsChange: (patch: Partial<PivotViewOptions>) => void,
+  onCrossFilter: (targets: CrossFilterTarget[], multi: boolean) => void,
+}) => {
+  const fmt = useFormatter();
+  const [collapsedRows, setCollapsedRows] = useState<Set<string>>(new Set());
+  const [collapsedCols, setCollapsedCols] = useState<Set<string>>(new Set());
+  const [drill, setDrill] = useState<{ title: string, rows: NormalizedRow[] } | null>(null);
+
+  const { sortKey, sortDir, format: formatMode, formatScope } = options;
+  const display = isAdditive(pivotVal) ? options.display : 'value';
+
+  const rowTree = useMemo(() => sortRowTree(pivot, pivotVal, customMetrics, sortKey, sortDir), [pivot, pivotVal, customMetrics, sortKey, sortDir]);
+  const rows = useMemo(() => visibleRows(rowTree, collapsedRows), [rowTree, collapsedRows]);
+  const columns = useMemo(() => visibleColumns(pivot.colTree, collapsedCols), [pivot, collapsedCols]);
+  const depth = Math.max(pivot.colDims.length, 1);
+  const headers = useMemo(() => headerRows(columns, pivot.colTree, pivot.colDims.length), [columns, pivot]);
+
+  const groupKeys = useMemo(() => {
+    const keys: string[] = [];
+    const walk = (nodes: typeof pivot.rowTree) => nodes.forEach(n => {
+      if (n.children.length) { keys.push(n.key); walk(n.children); }
+    });
+    walk(pivot.rowTree);
+    return keys;
+  }, [pivot]);
+
+  const grandKey = pathKey([]);
+  const valueAt = (rowKey: string, colKey: string) => displayValue(pivot, rowKey, colKey, pivotVal, customMetrics, display);
+
+  // Диапазоны для условного форматирования: только листовые строки, без подытогов
+  const ranges = useMemo(() => {
+    if (formatMode === 'none') return null;
+    const leaves = rows.filter(n => !n.children.length);
+    const leafCols = columns.filter(c => !c.isSubtotal);
+    const byColumn: Record<string, { min: number, max: number }> = {};
+    let table = { min: Infinity, max: -Infinity };
+    [...leafCols.map(c => c.key), grandKey].forEach(colKey => {
+      const values = leaves.filter(n => cellAt(pivot, n.key, colKey)).map(n => valueAt(n.key, colKey));
+      if (!values.length) return;
+      byColumn[colKey] = { min: Math.min(...values), max: Math.max(...values) };
+      if (colKey !== grandKey) table = { min: Math.min(table.min, ...values), max: Math.max(table.max, ...values) };
+    });
+    return { byColumn, table };
+  }, [formatMode, rows, columns, pivot, pivotVal, display, customMetrics]);
+
+  const intensity = (colKey: string, value: number): number | null => {
+    if (!ranges) return null;
+    const range = formatScope === 'table' && colKey !== grandKey ? ranges.table : ranges.byColumn[colKey];
+    if (!range || !isFinite(range.min)) return null;
+    return range.max > range.min ? (value - range.min) / (range.max - range.min) : 1;
+  };
+
+  const formatValue = (val: number) => display === 'value'
+    ? formatPivotValue(val, pivotVal, customMetrics, fmt)
+    : val.toLocaleString('ru-RU', { maximumFractionDigits: 1 }) + '%';
+
+  const renderValue = (rowKey: string, colKey: string, highlight: boolean) => {
+    if (!cellAt(pivot, rowKey, colKey)) return '—';
+    const value = valueAt(rowKey, colKey);
+    const level = highlight ? intensity(colKey, value) : null;
+    if (level === null) return formatValue(value);
+    if (formatMode === 'heatmap') {
+      return (
+        <span className="inline-block px-2 py-1 rounded-lg" style={{ backgroundColor: `rgba(255, 92, 53, ${0.08 + level * 0.5})` }}>
+          {formatValue(value)}
+        </span>
+      );
+    }
+    return (
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 rounded-md bg-orange-100" style={{ width: `${Math.max(level * 100, 2)}%` }} />
+        <span className="relative">{formatValue(value)}</span>
+      </div>
+    );
+  };
+
+  const openDrill = (rowKey: string, colKey: string, rowLabel: string, colLabel: string) => {
+    const matched = rowsForCell(sourceRows, pivot, keyPath(rowKey), keyPath(colKey));
+    if (!matched.length) return;
+    setDrill({ title: [rowLabel, colLabel].filter(Boolean).join(' · '), rows: matched });
+  };
+
+  const colLabel = (colKey: string) => keyPath(colKey)
+    .map((v, i) => formatDimValue(pivot.colDims[i], v))
+    .join(' → ');
+
+  const sortBy = (key: string | null) => {
+    if (sortKey === key) onOptionsChange({ sortDir: sortDir === 'asc' ? 'desc' : 'asc' });
+    else onOptionsChange({ sortKey: key, sortDir: key === null ? 'asc' : 'desc' });
+  };
+
+  const renderDelta = (rowKey: string) => {
+    if (!basePivot) return null;
+    const base = cellAt(basePivot, rowKey, '');
+    const delta = base
+      ? computeDelta(
+        pivotValue(cellAt(pivot, rowKey, ''), pivotVal, customMetrics, cellAt(pivot, '', '')),
+        pivotValue(base, pivotVal, customMetrics, cellAt(basePivot, '', ''))
+      )
+      : null;
+    return (
+      <td className={`p-6 text-right text-sm font-bold ${!delta ? 'text-slate-300' : delta.abs >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>
+        {delta?.pct != null ? formatPercent(delta.pct) : '—'}
+      </td>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {groupKeys.length > 0 && (
+          <>
+            <button onClick={() => setCollapsedRows(new Set())} className="px-3 py-1 bg-slate-100 hover:bg-orange-100 text-[10px] font-bold rounded-lg transition">
+              Развернуть все
+            </button>
+            <button onClick={() => setCollapsedRows(new Set(groupKeys))} className="px-3 py-1 bg-slate-100 hover:bg-orange-100 text-[10px] font-bold rounded-lg transition">
+              Свернуть все
+            </button>
+          </>
+        )}
+        <div className="flex flex-wrap gap-2 ml-auto">
+          <select
+            value={display}
+            disabled={!isAdditive(pivotVal)}
+            onChange={e => onOptionsChange({ display: e.target.value as PivotDisplayMode })}
+            className={selectClass}
+          >
+            {(Object.keys(PIVOT_DISPLAY_LABELS) as PivotDisplayMode[]).map(m => (
+              <option key={m} value={m}>{PIVOT_DISPLAY_LABELS[m]}</option>
+            ))}
+          </select>
+          <select value={formatMode} onChange={e => onOptionsChange({ format: e.target.value as PivotFormatMode })} className={selectClass}>
+            {(Object.keys(PIVOT_FORMAT_LABELS) as PivotFormatMode[]).map(m => (
+              <option key={m} value={m}>{PIVOT_FORMAT_LABELS[m]}</option>
+            ))}
+          </select>
+          {formatMode !== 'none' && (
+            <select value={formatScope} onChange={e => onOptionsChange({ formatScope: e.target.value as PivotViewOptions['formatScope'] })} className={selectClass}>
+              <option value="column">По колонкам</option>
+              <option value="table">По всей таблице</option>
+            </select>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto -mx-8">
+        <table className="w-full border-collapse">
+          <thead>
+            {Array.from({ length: depth }).map((_, level) => (
+              <tr key={level} className="bg-slate-50">
+                {level === 0 && (
+                  <th
+                    rowSpan={depth}
+                    onClick={() => sortBy(null)}
+                    className="p-6 text-left text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 min-w-[200px] sticky left-0 bg-slate-50 z-10 cursor-pointer hover:text-orange-500"
+                  >
+                    {pivot.rowDims.map(d => PIVOT_DIMENSIONS[d]).join(' → ')}
+                    <SortMark active={sortKey === null} dir={sortDir} />
+                  </th>
+                )}
+                {(headers[level] || []).map(h => {
+                  // Ячейка шапки над одной колонкой сортирует, над группой — сворачивает
+                  const sortable = !h.collapsible || h.isSubtotal;
+                  return (
+                    <th
+                      key={h.key}
+                      colSpan={h.colSpan}
+                      rowSpan={h.rowSpan}
+                      onClick={() => sortable ? sortBy(h.groupKey) : setCollapsedCols(c => toggle(c, h.groupKey))}
+                      className={`group/header p-4 text-center text-xs font-black uppercase tracking-widest border-b border-slate-100 min-w-[120px] cursor-pointer hover:text-orange-500 ${h.isSubtotal ? 'text-slate-600 bg-slate-100/60' : 'text-slate-400'}`}
+                    >
+                      {h.collapsible && (
+                        <span
+                          className="mr-1"
+                          onClick={e => { e.stopPropagation(); setCollapsedCols(c => toggle(c, h.groupKey)); }}
+                        >
+                          {collapsedCols.has(h.groupKey) ? '▸' : '▾'}
+                        </span>
+                      )}
+                      {h.label}
+                      {sortable && <SortMark active={sortKey === h.groupKey} dir={sortDir} />}
+                      <span className="ml-1 inline-block align-middle">
+                        <FilterButton targets={pivotPathTargets(pivot.colDims, keyPath(h.groupKey))} onSelect={onCrossFilter} />
+                      </span>
+                    </th>
+                  );
+                })}
+                {level === 0 && (
+                  <th
+                    rowSpan={depth}
+                    onClick={() => sortBy(grandKey)}
+                    className="p-6 text-right text-xs font-black text-orange-500 uppercase tracking-widest border-b border-slate-100 bg-orange-50/50 min-w-[140px] cursor-pointer"
+                  >
+                    Итого
+                    <SortMark active={sortKey === grandKey} dir={sortDir} />
+                  </th>
+                )}
+                {level === 0 && basePivot && (
+                  <th rowSpan={depth} className="p-6 text-right text-xs font-black text-sky-500 uppercase tracking-widest border-b border-slate-100 min-w-[120px]">Δ к базе</th>
+                )}
+              </tr>
+            ))}
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {rows.map(node => {
+              const isGroup = node.children.length > 0;
+              const rowLabel = node.path.map((v, i) => formatDimValue(pivot.rowDims[i], v)).join(' → ');
+              return (
+                <tr key={node.key} className={`hover:bg-slate-50/50 transition group ${isGroup ? 'bg-slate-50/40' : ''}`}>
+                  <td
+                    className={`group/header p-6 text-sm sticky left-0 bg-white group-hover:bg-slate-50 z-10 border-r border-slate-50 ${isGroup ? 'font-black text-slate-900' : 'font-bold text-slate-700'}`}
+                    style={{ paddingLeft: 24 + node.level * 20 }}
+                  >
+                    <div className="flex items-center gap-2">
+                      {isGroup ? (
+                        <button onClick={() => setCollapsedRows(c => toggle(c, node.key))} className="flex items-center gap-2 hover:text-orange-500">
+                          <span className="text-slate-400">{collapsedRows.has(node.key) ? '▸' : '▾'}</span>
+                          {node.label}
+                        </button>
+                      ) : node.label}
+                      <FilterButton targets={pivotPathTargets(pivot.rowDims, node.path)} onSelect={onCrossFilter} />
+                    </div>
+                  </td>
+                  {columns.map(col => (
+                    <td
+                      key={col.key}
+                      onClick={() => openDrill(node.key, col.key, rowLabel, colLabel(col.key))}
+                      className={`p-6 text-center text-sm cursor-pointer hover:text-orange-500 ${col.isSubtotal ? 'font-bold text-slate-700 bg-slate-50/60' : isGroup ? 'font-bold text-slate-600' : 'font-medium text-slate-500'}`}
+                    >
+                      {renderValue(node.key, col.key, !isGroup && !col.isSubtotal)}
+                    </td>
+                  ))}
+                  <td
+                    onClick={() => openDrill(node.key, grandKey, rowLabel, '')}
+                    className="p-6 text-right text-sm font-black text-slate-900 bg-orange-50/20 cursor-pointer hover:text-orange-500"
+                  >
+                    {renderValue(node.key, grandKey, !isGroup)}
+                  </td>
+                  {renderDelta(node.key)}
+                </tr>
+              );
+            })}
+            <tr className="bg-orange-50/40 border-t-2 border-orange-100">
+              <td className="p-6 text-sm font-black text-orange-500 uppercase tracking-widest sticky left-0 bg-orange-50 z-10 border-r border-slate-50">
+                Итого
+              </td>
+              {columns.map(col => (
+                <td
+                  key={col.key}
+                  onClick={() => openDrill(grandKey, col.key, 'Итого', colLabel(col.key))}
+                  className="p-6 text-center text-sm font-black text-slate-900 cursor-pointer hover:text-orange-500"
+                >
+                  {renderValue(grandKey, col.key, false)}
+                </td>
+              ))}
+              <td className="p-6 text-right text-sm font-black text-orange-600 bg-orange-50/60">
+                {renderValue(grandKey, grandKey, false)}
+              </td>
+              {renderDelta(grandKey)}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {drill && <DrillThrough title={drill.title} rows={drill.rows} onClose={() => setDrill(null)} />}
+    </div>
+  );
+};
+
+export default PivotTable;
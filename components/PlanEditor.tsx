@@ -0,0 +1,137 @@
+import React, { useState, useRef } from 'react';
+import { ICONS } from '../constants';
+import { PlanEntry, PlanMetric, PLAN_METRIC_LABELS, mergePlans, monthLabel } from '../utils/plan';
+import { importPlanFile, exportPlansCSV } from '../services/plans';
+
+const inputClass = "w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-2";
+
+const PlanEditor = ({ plans, stores, months, initialMonth, onSave, onClose }: {
+  plans: PlanEntry[],
+  stores: string[],
+  months: string[],
+  initialMonth: string,
+  onSave: (plans: PlanEntry[]) => void,
+  onClose: () => void,
+}) => {
+  const [draft, setDraft] = useState<PlanEntry[]>(plans);
+  const [month, setMonth] = useState(initialMonth);
+  const [metric, setMetric] = useState<PlanMetric>('revenue');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // Магазины из плана остаются в списке, даже если в загруженных данных их нет
+  const rowStores = Array.from(new Set([...stores, ...draft.filter(p => p.month === month).map(p => p.store)])).sort();
+  const valueOf = (store: string) => draft.find(p => p.store === store && p.month === month && p.metric === metric)?.value;
+  const total = rowStores.reduce((acc, s) => acc + (valueOf(s) || 0), 0);
+
+  const setValue = (store: string, value: number) =>
+    setDraft(list => mergePlans(list, [{ store, month, metric, value }]));
+
+  const handleFile = async (file: File) => {
+    try {
+      const { entries, skipped } = await importPlanFile(file);
+      setDraft(list => mergePlans(list, entries));
+      setMessage(`Загружено записей: ${entries.length}${skipped.length ? `, пропущены строки: ${skipped.slice(0, 10).join(', ')}${skipped.length > 10 ? '…' : ''}` : ''}`);
+    } catch (e: any) {
+      setMessage(`Ошибка: ${e.message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-8 space-y-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-black tracking-tight">План продаж</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>Месяц</label>
+            <select value={month} onChange={e => setMonth(e.target.value)} className={inputClass}>
+              {months.map(m => <option key={m} value={m}>{monthLabel(m)}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Показатель</label>
+            <select value={metric} onChange={e => setMetric(e.target.value as PlanMetric)} className={inputClass}>
+              {(Object.keys(PLAN_METRIC_LABELS) as PlanMetric[]).map(m => (
+                <option key={m} value={m}>{PLAN_METRIC_LABELS[m]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {rowStores.map(store => (
+            <div key={store} className="flex items-center gap-4">
+              <span className="flex-1 text-sm font-bold text-slate-700 truncate px-2">{store}</span>
+              <input
+                type="number"
+                min={0}
+                value={valueOf(store) ?? ''}
+                placeholder="—"
+                onChange={e => setValue(store, Math.max(0, Number(e.target.value)))}
+                className="w-48 bg-slate-50 border-none rounded-2xl px-4 py-2 text-sm font-medium text-right focus:ring-2 focus:ring-orange-500"
+              />
+            </div>
+          ))}
+          {rowStores.length === 0 && (
+            <p className="text-sm text-slate-400 px-2">Магазинов пока нет — загрузите данные или импортируйте план из файла.</p>
+          )}
+          <div className="flex items-center gap-4 pt-2 border-t border-slate-100">
+            <span className="flex-1 text-xs font-black text-slate-400 uppercase tracking-widest px-2">Итого по сети</span>
+            <span className="w-48 text-right text-sm font-black text-slate-900 px-4">{total.toLocaleString('ru-RU')}</span>
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-50 rounded-2xl space-y-3">
+          <p className="text-xs text-slate-500">
+            Импорт из CSV или JSON: колонки «Магазин», «Месяц» (2025-03 или 03.2025), «Показатель» (revenue, checks, pieces, weight) и «План».
+            Записи с теми же магазином, месяцем и показателем перезаписываются.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => fileRef.current?.click()}
+              className="px-4 py-2 bg-white border border-slate-100 rounded-xl text-xs font-bold text-slate-600 hover:bg-slate-100 transition"
+            >
+              Импорт CSV / JSON
+            </button>
+            <button
+              onClick={() => exportPlansCSV(draft)}
+              disabled={!draft.length}
+              className="px-4 py-2 bg-white border border-slate-100 rounded-xl text-xs font-bold text-slate-600 hover:bg-slate-100 transition flex items-center gap-2 disabled:opacity-40"
+            >
+              <ICONS.Download className="w-4 h-4" />
+              Скачать CSV
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv,.txt,.json"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {message && <p className="text-xs font-bold text-slate-500">{message}</p>}
+        </div>
+
+        <div className="flex gap-3 justify-end pt-2">
+          <button onClick={onClose} className="px-6 py-3 text-slate-400 hover:text-slate-600 text-xs font-bold uppercase tracking-widest transition">
+            Отмена
+          </button>
+          <button onClick={() => onSave(draft)} className="px-6 py-3 bg-orange-500 text-white rounded-2xl font-bold shadow-lg shadow-orange-200 hover:bg-orange-600 transition">
+            Сохранить
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanEditor;
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { NormalizedRow } from '../types';
+import { ICONS } from '../constants';
+import { Formatter, formatCompact, formatWeight } from '../utils/format';
+import { useFormatter } from '../hooks/useFormatter';
+import {
+  PlanEntry, PlanMetric, PLAN_METRIC_LABELS, planProgress, planProgressByStore, monthOf, monthLabel
+} from '../utils/plan';
+
+const formatPlanValue = (metric: PlanMetric, val: number, fmt: Formatter): string => {
+  if (metric === 'revenue') return fmt.currency(val);
+  if (metric === 'weight') return formatWeight(val);
+  return formatCompact(val);
+};
+
+const formatShare = (val: number | null): string =>
+  val === null ? '—' : `${val.toLocaleString('ru-RU', { maximumFractionDigits: 1 })}%`;
+
+// Цвет по доле плана: выполнен, близко, отстаёт
+const shareColor = (val: number | null): string =>
+  val === null ? 'text-slate-300' : val >= 100 ? 'text-emerald-600' : val >= 90 ? 'text-amber-500' : 'text-rose-600';
+
+const PlanCard = ({ title, value, hint, hintClass = 'text-slate-400', children }: {
+  title: string, value: string, hint?: string, hintClass?: string, children?: React.ReactNode
+}) => (
+  <div className="p-5 bg-slate-50 rounded-3xl space-y-1">
+    <div className="text-slate-400 text-[10px] font-black uppercase tracking-widest">{title}</div>
+    <div className="text-xl font-black text-slate-900 tracking-tight">{value}</div>
+    {hint && <div className={`text-xs font-bold ${hintClass}`}>{hint}</div>}
+    {children}
+  </div>
+);
+
+const PlanTracking = ({ rows, plans, months, anchorDate, lastDate, stores, partialFilters, onEdit }: {
+  rows: NormalizedRow[],
+  plans: PlanEntry[],
+  months: string[],
+  anchorDate: string,
+  lastDate: string,
+  stores: string[],
+  partialFilters: boolean,
+  onEdit: () => void,
+}) => {
+  const fmt = useFormatter();
+  // Без явного выбора показывается месяц, в котором заканчивается выбранный период
+  const [picked, setPicked] = useState<string | null>(null);
+  const [metric, setMetric] = useState<PlanMetric>('revenue');
+  const month = picked ?? monthOf(anchorDate);
+
+  const total = useMemo(() => planProgress(rows, plans, metric, month, lastDate, stores), [rows, plans, metric, month, lastDate, stores]);
+  const byStore = useMemo(() => planProgressByStore(rows, plans, metric, month, lastDate, stores), [rows, plans, metric, month, lastDate, stores]);
+
+  const projectionShare = total.plan > 0 ? total.projection / total.plan * 100 : null;
+
+  return (
+    <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-2xl font-black tracking-tight">План / факт</h3>
+          <p className="text-xs font-bold text-slate-400 mt-1">
+            {monthLabel(month)} · прошло {total.daysElapsed} из {total.daysInMonth} дн.
+            {partialFilters && ' · план задан на магазин целиком, фильтры категорий и единиц не применяются'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={month}
+            onChange={e => setPicked(e.target.value)}
+            className="bg-slate-50 border-none rounded-xl px-3 py-1.5 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-orange-500"
+          >
+            {months.map(m => <option key={m} value={m}>{monthLabel(m)}</option>)}
+          </select>
+          <select
+            value={metric}
+            onChange={e => setMetric(e.target.value as PlanMetric)}
+            className="bg-slate-50 border-none rounded-xl px-3 py-1.5 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-orange-500"
+          >
+            {(Object.keys(PLAN_METRIC_LABELS) as PlanMetric[]).map(m => (
+              <option key={m} value={m}>{PLAN_METRIC_LABELS[m]}</option>
+            ))}
+          </select>
+          <button onClick={onEdit} className="px-4 py-1.5 bg-orange-50 text-orange-600 rounded-xl text-xs font-bold hover:bg-orange-100 transition flex items-center gap-2">
+            <ICONS.Cog className="w-4 h-4" />
+            Планы
+          </button>
+        </div>
+      </div>
+
+      {total.plan === 0 ? (
+        <p className="text-sm text-slate-400">
+          На {monthLabel(month)} план по показателю «{PLAN_METRIC_LABELS[metric]}» не задан. Введите его вручную или импортируйте из CSV / JSON.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+            <PlanCard title="План" value={formatPlanValue(metric, total.plan, fmt)} hint={`${byStore.length} маг.`} />
+            <PlanCard
+              title="Факт"
+              value={formatPlanValue(metric, total.fact, fmt)}
+              hint={`Выполнено ${formatShare(total.completion)}`}
+              hintClass={shareColor(total.completion)}
+            >
+              <div className="h-1.5 bg-white rounded-full overflow-hidden mt-2">
+                <div className="h-full bg-orange-500 rounded-full" style={{ width: `${Math.min(100, total.completion || 0)}%` }}></div>
+              </div>
+            </PlanCard>
+            <PlanCard
+              title="Прогноз на конец месяца"
+              value={total.daysElapsed > 0 ? formatPlanValue(metric, total.projection, fmt) : '—'}
+              hint={total.daysElapsed > 0 ? `${formatShare(projectionShare)} плана при текущем темпе` : 'Месяц ещё не начался'}
+              hintClass={total.daysElapsed > 0 ? shareColor(projectionShare) : 'text-slate-400'}
+            />
+            <PlanCard
+              title="Нужно в день"
+              value={total.requiredDaily === null ? '—' : formatPlanValue(metric, total.requiredDaily, fmt)}
+              hint={total.requiredDaily === null ? 'Месяц закрыт' : `Осталось ${total.daysInMonth - total.daysElapsed} дн.`}
+            />
+          </div>
+
+          <div className="overflow-x-auto -mx-8 max-h-[360px] overflow-y-auto">
+            <table className="w-full border-collapse">
+              <thead className="sticky top-0">
+                <tr className="bg-slate-50">
+                  {['Магазин', 'План', 'Факт', 'Выполнение', 'Прогноз', 'Нужно в день'].map((h, i) => (
+                    <th key={h} className={`p-4 text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 ${i === 0 ? 'pl-8 text-left' : 'text-right'}`}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {byStore.map(({ store, progress: p }) => (
+                  <tr key={store} className="hover:bg-slate-50/50 transition">
+                    <td className="p-4 pl-8 text-sm font-bold text-slate-700">{store}</td>
+                    <td className="p-4 text-right text-sm font-medium text-slate-500">{formatPlanValue(metric, p.plan, fmt)}</td>
+                    <td className="p-4 text-right text-sm font-black text-slate-900">{formatPlanValue(metric, p.fact, fmt)}</td>
+                    <td className={`p-4 text-right text-sm font-bold ${shareColor(p.completion)}`}>{formatShare(p.completion)}</td>
+                    <td className="p-4 text-right text-sm font-medium text-slate-500">{p.daysElapsed > 0 ? formatPlanValue(metric, p.projection, fmt) : '—'}</td>
+                    <td className="p-4 text-right text-sm font-medium text-slate-500">{p.requiredDaily === null ? '—' : formatPlanValue(metric, p.requiredDaily, fmt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PlanTracking;
@@ -0,0 +1,262 @@
+import React, { useEffect, useMemo } from 'react';
+import { XAxis, YAxis, CartesianGrid, AreaChart, Area, BarChart, Bar, Cell } from 'recharts';
+import { Filters, NormalizedRow, PivotValueType, ReportMeta } from '../types';
+import { COLORS, CHART_COLORS, ICONS } from '../constants';
+import { formatCompact, formatPercent } from '../utils/format';
+import { useFormatter } from '../hooks/useFormatter';
+import { DateRange } from '../utils/dates';
+import { ChartMetric, SeriesPoint, chartMetricLabel } from '../utils/timeSeries';
+import { PivotResult, PivotViewOptions, PIVOT_DISPLAY_LABELS, flattenPivot, pivotValueLabel } from '../utils/pivot';
+import { buildStoreReport } from '../utils/stores';
+import {
+  ReportOptions, ReportKpi, REPORT_PAGE_WIDTH, PIVOT_COLUMNS_PER_PAGE, describeFilters, paginatePivot, chunk
+} from '../utils/report';
+import { CompiledMetrics } from '../utils/metrics';
+import { formatPivotValue } from './PivotTable';
+
+const sectionTitleClass = "text-lg font-black text-slate-900 mb-4";
+const cellClass = "px-2 py-1.5 border-b border-slate-100";
+
+const formatStamp = (iso: string) =>
+  new Date(iso).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const periodLabel = (range: DateRange | null) => range ? `${range.from} — ${range.to}` : 'все даты';
+
+const DeltaLine = ({ kpi }: { kpi: ReportKpi }) => kpi.delta ? (
+  <div className={`text-[10px] font-bold ${kpi.delta.abs >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+    {kpi.delta.pct !== null ? formatPercent(kpi.delta.pct) : '—'}
+    <span className="text-slate-400 font-medium ml-1">
+      ({kpi.delta.abs > 0 ? '+' : ''}{kpi.formatDelta ? kpi.formatDelta(kpi.delta.abs) : formatCompact(kpi.delta.abs)})
+    </span>
+  </div>
+) : null;
+
+// Лист A4 на экране; при печати поля задаёт @page, а каждый следующий лист начинается с новой страницы
+const Sheet = ({ width, first, children }: { width: number, first?: boolean, children: React.ReactNode }) => (
+  <div
+    className={`bg-white shadow-xl mx-auto p-10 space-y-8 print:shadow-none print:p-0 print:!w-auto ${first ? '' : 'break-before-page'}`}
+    style={{ width: width + 80 }}
+  >
+    {children}
+  </div>
+);
+
+// Отчёт к печати: листы A4 с графиками фиксированной ширины, сводная разбита на листы с повтором шапки.
+// В PDF сохраняется через печать браузера — всё считается и рисуется на клиенте
+const PrintReport = ({
+  options, title, meta, sourceName, range, comparison, filters, kpis, trend, categories, rows, pivot, customMetrics, onClose,
+}: {
+  options: ReportOptions,
+  title: string,
+  meta: ReportMeta | null,
+  sourceName: string,
+  range: DateRange | null,
+  comparison: { label: string, range: DateRange } | null,
+  filters: Filters,
+  kpis: ReportKpi[],
+  trend: { points: SeriesPoint[], metric: ChartMetric },
+  categories: { name: string, value: number }[],
+  rows: NormalizedRow[],
+  pivot: { table: PivotResult, base: PivotResult | null, value: PivotValueType, view: PivotViewOptions } | null,
+  customMetrics: CompiledMetrics,
+  onClose: () => void,
+}) => {
+  const fmt = useFormatter();
+  const { sections, orientation } = options;
+  const pageWidth = REPORT_PAGE_WIDTH[orientation];
+  const has = (s: ReportOptions['sections'][number]) => sections.includes(s);
+
+  const stores = useMemo(
+    () => has('stores') ? [...buildStoreReport(rows).stores].sort((a, b) => b.totals.revenue - a.totals.revenue) : [],
+    [rows, sections]
+  );
+  const flat = useMemo(
+    () => pivot && has('pivot') ? flattenPivot(pivot.table, pivot.value, customMetrics, pivot.view, pivot.base) : null,
+    [pivot, customMetrics, sections]
+  );
+  const pivotPages = useMemo(
+    () => flat ? paginatePivot(flat, options.pivotRowsPerPage, PIVOT_COLUMNS_PER_PAGE[orientation]) : [],
+    [flat, options.pivotRowsPerPage, orientation]
+  );
+  const storePages = chunk(stores, options.pivotRowsPerPage);
+  const trendPoints = trend.points.filter(p => p.value !== undefined);
+  const hasCompare = !!comparison && trendPoints.some(p => p.compare !== undefined);
+
+  // Имя PDF по умолчанию берётся из заголовка документа
+  useEffect(() => {
+    const previous = document.title;
+    document.title = `${title} ${periodLabel(range)}`;
+    return () => { document.title = previous; };
+  }, [title, range]);
+
+  const formatPivotCell = (v: number | null) => {
+    if (v === null || !pivot || !flat) return '';
+    return flat.display === 'value' ? formatPivotValue(v, pivot.value, customMetrics, fmt) : `${v.toLocaleString('ru-RU', { maximumFractionDigits: 1 })}%`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-200 overflow-y-auto print:static print:overflow-visible print:bg-white">
+      <style>{`
+        @page { size: A4 ${orientation}; margin: 12mm; }
+        @media print { * { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+      `}</style>
+
+      <div className="sticky top-0 z-10 bg-white/90 backdrop-blur border-b border-slate-100 px-6 py-3 flex items-center gap-3 print:hidden">
+        <span className="text-sm font-black text-slate-700">Предпросмотр отчёта</span>
+        <span className="text-xs font-bold text-slate-400">В окне печати выберите «Сохранить как PDF», чтобы получить файл</span>
+        <button
+          onClick={() => window.print()}
+          className="ml-auto px-6 py-2 bg-orange-500 text-white rounded-2xl font-bold shadow-lg shadow-orange-200 hover:bg-orange-600 transition flex items-center gap-2"
+        >
+          <ICONS.Printer className="w-4 h-4" />
+          Печать / PDF
+        </button>
+        <button onClick={onClose} className="px-4 py-2 text-slate-400 hover:text-slate-600 text-xs font-bold uppercase tracking-widest transition">
+          Закрыть
+        </button>
+      </div>
+
+      <div className="py-8 space-y-8 print:p-0 print:space-y-0">
+        <Sheet width={pageWidth} first>
+          <div className="border-b-2 border-orange-500 pb-4">
+            <h1 className="text-3xl font-black tracking-tight text-slate-900">{title}</h1>
+            <div className="mt-2 grid grid-cols-2 gap-x-6 gap-y-1 text-xs text-slate-600">
+              <div><span className="font-bold text-slate-400">Период:</span> {periodLabel(range)}</div>
+              {comparison && <div><span className="font-bold text-slate-400">{comparison.label}:</span> {periodLabel(comparison.range)}</div>}
+              <div><span className="font-bold text-slate-400">Источник:</span> {meta?.source || sourceName}</div>
+              {meta?.generated_at && <div><span className="font-bold text-slate-400">Данные сформированы:</span> {formatStamp(meta.generated_at)}</div>}
+              {describeFilters(filters).map(([label, value]) => (
+                <div key={label} className="col-span-2"><span className="font-bold text-slate-400">{label}:</span> {value}</div>
+              ))}
+              <div><span className="font-bold text-slate-400">Отчёт построен:</span> {formatStamp(new Date().toISOString())}</div>
+            </div>
+          </div>
+
+          {has('kpi') && (
+            <section className="break-inside-avoid">
+              <h2 className={sectionTitleClass}>Ключевые показатели</h2>
+              <div className="grid grid-cols-3 gap-3">
+                {kpis.map(k => (
+                  <div key={k.title} className="border border-slate-200 rounded-xl p-3">
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{k.title}</div>
+                    <div className="text-xl font-black text-slate-900">{k.value}</div>
+                    <DeltaLine kpi={k} />
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {has('trend') && trendPoints.length > 0 && (
+            <section className="break-inside-avoid">
+              <h2 className={sectionTitleClass}>Динамика: {chartMetricLabel(trend.metric, customMetrics)}</h2>
+              <AreaChart width={pageWidth} height={260} data={trendPoints}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E2E8F0" />
+                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 9, fill: '#64748B' }} />
+                <YAxis axisLine={false} tickLine={false} width={80} tick={{ fontSize: 9, fill: '#64748B' }} tickFormatter={v => fmt.metric(trend.metric, v, customMetrics)} />
+                <Area type="monotone" dataKey="value" stroke="#FF5C35" strokeWidth={2} fill="#FF5C35" fillOpacity={0.08} isAnimationActive={false} />
+                {hasCompare && (
+                  <Area type="monotone" dataKey="compare" stroke={CHART_COLORS.secondary} strokeWidth={1.5} strokeDasharray="6 4" fill="none" connectNulls isAnimationActive={false} />
+                )}
+              </AreaChart>
+              {hasCompare && <p className="text-[10px] font-bold text-slate-400">Пунктир — {comparison!.label.toLowerCase()}</p>}
+            </section>
+          )}
+
+          {has('categories') && categories.length > 0 && (
+            <section className="break-inside-avoid">
+              <h2 className={sectionTitleClass}>Топ категорий по выручке</h2>
+              <BarChart width={pageWidth} height={Math.max(120, categories.length * 24)} data={categories} layout="vertical">
+                <XAxis type="number" hide />
+                <YAxis type="category" dataKey="name" axisLine={false} tickLine={false} width={160} tick={{ fontSize: 10, fill: '#334155', fontWeight: 'bold' }} />
+                <Bar
+                  dataKey="value"
+                  radius={[0, 6, 6, 0]}
+                  isAnimationActive={false}
+                  label={{ position: 'right', fontSize: 9, fill: '#64748B', formatter: (v: any) => fmt.currency(Number(v)) }}
+                >
+                  {categories.map((c, i) => <Cell key={c.name} fill={COLORS[i % COLORS.length]} />)}
+                </Bar>
+              </BarChart>
+            </section>
+          )}
+        </Sheet>
+
+        {has('stores') && stores.length > 0 && storePages.map((page, p) => (
+          <Sheet key={`stores-${p}`} width={pageWidth}>
+            <section>
+              <h2 className={sectionTitleClass}>
+                Магазины{storePages.length > 1 && <span className="text-slate-400 font-bold text-sm ml-2">лист {p + 1} из {storePages.length}</span>}
+              </h2>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-400 uppercase tracking-widest text-[10px]">
+                    <th className={`${cellClass} text-left`}>Магазин</th>
+                    <th className={`${cellClass} text-right`}>Выручка</th>
+                    <th className={`${cellClass} text-right`}>Доля</th>
+                    <th className={`${cellClass} text-right`}>Чеки</th>
+                    <th className={`${cellClass} text-right`}>Ср. чек</th>
+                    <th className={`${cellClass} text-right`}>UPT</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {page.map(s => (
+                    <tr key={s.store} className="break-inside-avoid">
+                      <td className={`${cellClass} font-bold text-slate-700`}>{s.store}</td>
+                      <td className={`${cellClass} text-right`}>{fmt.currency(s.totals.revenue)}</td>
+                      <td className={`${cellClass} text-right`}>{s.share.toLocaleString('ru-RU', { maximumFractionDigits: 1 })}%</td>
+                      <td className={`${cellClass} text-right`}>{formatCompact(s.totals.checks)}</td>
+                      <td className={`${cellClass} text-right`}>{fmt.currency(s.totals.atv)}</td>
+                      <td className={`${cellClass} text-right`}>{s.totals.upt.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </Sheet>
+        ))}
+
+        {flat && pivot && pivotPages.map((page, p) => (
+          <Sheet key={`pivot-${p}`} width={pageWidth}>
+            <section>
+              <h2 className={sectionTitleClass}>
+                Сводная: {pivotValueLabel(pivot.value, customMetrics)}
+                <span className="text-slate-400 font-bold text-sm ml-2">
+                  {PIVOT_DISPLAY_LABELS[flat.display]}{pivotPages.length > 1 && ` · лист ${p + 1} из ${pivotPages.length}`}
+                </span>
+              </h2>
+              <table className="w-full text-[10px]">
+                <thead>
+                  <tr className="text-slate-400 uppercase tracking-widest">
+                    <th className={`${cellClass} text-left`}>{flat.rowHeader}</th>
+                    {page.columns.map(c => (
+                      <th key={c} className={`${cellClass} text-right ${c === flat.columns.length - 1 ? 'text-orange-500' : ''}`}>{flat.columns[c]}</th>
+                    ))}
+                    {page.withDelta && <th className={`${cellClass} text-right text-sky-500`}>Δ к базе</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...page.lines, ...(page.withTotal ? [flat.total] : [])].map(line => (
+                    <tr key={line.key || 'total'} className={`break-inside-avoid ${line.key === '' ? 'font-black bg-orange-50' : line.isGroup ? 'font-bold bg-slate-50' : ''}`}>
+                      <td className={`${cellClass} text-slate-700`} style={{ paddingLeft: 8 + line.level * 12 }}>{line.label}</td>
+                      {page.columns.map(c => (
+                        <td key={c} className={`${cellClass} text-right`}>{formatPivotCell(line.values[c])}</td>
+                      ))}
+                      {page.withDelta && (
+                        <td className={`${cellClass} text-right ${line.delta === null ? 'text-slate-300' : line.delta >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                          {line.delta !== null ? formatPercent(line.delta) : '—'}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </Sheet>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PrintReport;
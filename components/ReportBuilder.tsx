@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import {
+  ReportOptions, ReportSection, ReportOrientation, REPORT_SECTION_LABELS, REPORT_ORIENTATION_LABELS, PIVOT_ROWS_PER_PAGE_OPTIONS
+} from '../utils/report';
+
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-2";
+
+// Настройка отчёта к печати: какие разделы включить и как разложить по листам
+const ReportBuilder = ({ options, hasPivot, onGenerate, onClose }: {
+  options: ReportOptions,
+  // Без данных в сводной раздел с ней не предлагается
+  hasPivot: boolean,
+  onGenerate: (options: ReportOptions) => void,
+  onClose: () => void,
+}) => {
+  const [draft, setDraft] = useState<ReportOptions>(options);
+
+  const toggleSection = (section: ReportSection) => setDraft(d => ({
+    ...d,
+    sections: d.sections.includes(section) ? d.sections.filter(s => s !== section) : [...d.sections, section],
+  }));
+
+  const sections = (Object.keys(REPORT_SECTION_LABELS) as ReportSection[]).filter(s => s !== 'pivot' || hasPivot);
+  const selected = sections.filter(s => draft.sections.includes(s));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-xl max-h-[90vh] overflow-y-auto p-8 space-y-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-2xl font-black tracking-tight">Сформировать отчёт</h3>
+            <p className="text-xs font-bold text-slate-400 mt-1">Отчёт по текущим фильтрам — для печати или сохранения в PDF</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Разделы</label>
+          <div className="space-y-1">
+            {sections.map(s => (
+              <label key={s} className="flex items-center gap-2 p-2 hover:bg-slate-50 rounded-xl cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.sections.includes(s)}
+                  onChange={() => toggleSection(s)}
+                  className="w-4 h-4 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+                />
+                <span className="text-sm font-medium text-slate-600">{REPORT_SECTION_LABELS[s]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>Ориентация</label>
+            <div className="flex bg-slate-50 rounded-xl p-1">
+              {(Object.keys(REPORT_ORIENTATION_LABELS) as ReportOrientation[]).map(o => (
+                <button
+                  key={o}
+                  onClick={() => setDraft(d => ({ ...d, orientation: o }))}
+                  className={`flex-1 px-3 py-1.5 text-xs font-bold rounded-lg transition ${draft.orientation === o ? 'bg-white text-orange-500 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                >
+                  {REPORT_ORIENTATION_LABELS[o]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {draft.sections.includes('pivot') && hasPivot && (
+            <div className="space-y-2">
+              <label className={labelClass}>Строк сводной на листе</label>
+              <select
+                value={draft.pivotRowsPerPage}
+                onChange={e => setDraft(d => ({ ...d, pivotRowsPerPage: Number(e.target.value) }))}
+                className="w-full bg-slate-50 border-none rounded-xl px-3 py-2 text-sm font-bold text-slate-700 focus:ring-2 focus:ring-orange-500"
+              >
+                {PIVOT_ROWS_PER_PAGE_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 justify-end items-center pt-2">
+          {!selected.length && <span className="text-xs font-bold text-rose-500 mr-auto px-2">Выберите хотя бы один раздел</span>}
+          <button onClick={onClose} className="px-6 py-3 text-slate-400 hover:text-slate-600 text-xs font-bold uppercase tracking-widest transition">
+            Отмена
+          </button>
+          <button
+            onClick={() => onGenerate(draft)}
+            disabled={!selected.length}
+            className="px-6 py-3 bg-orange-500 text-white rounded-2xl font-bold shadow-lg shadow-orange-200 hover:bg-orange-600 disabled:bg-slate-300 disabled:shadow-none transition"
+          >
+            Предпросмотр
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportBuilder;
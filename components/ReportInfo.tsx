@@ -0,0 +1,59 @@
+import React from 'react';
+import { ReportMeta } from '../types';
+import { ICONS } from '../constants';
+import { Freshness, formatAge } from '../utils/freshness';
+import { normalizeCurrency } from '../utils/format';
+
+const formatStamp = (iso: string) =>
+  new Date(iso).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Строка под заголовком: имя отчёта, источник, время формирования и возраст данных
+const ReportInfo = ({ meta, freshness, lastCheckedAt, autoRefreshMinutes }: {
+  meta: ReportMeta | null,
+  freshness: Freshness | null,
+  lastCheckedAt: string | null,
+  autoRefreshMinutes: number,
+}) => (
+  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs font-bold text-slate-400">
+    {meta?.report_name && <span className="text-slate-600">{meta.report_name}</span>}
+    {meta?.source && <span>Источник отчёта: {meta.source}</span>}
+    {freshness && (
+      <span
+        title={formatStamp(freshness.since)}
+        className={`px-2 py-0.5 rounded-lg ${freshness.stale ? 'bg-amber-50 text-amber-600' : 'bg-emerald-50 text-emerald-600'}`}
+      >
+        {freshness.fromMeta ? 'Сформирован' : 'Загружен'} {formatAge(freshness.ageHours)} назад
+      </span>
+    )}
+    <span>Валюта: {normalizeCurrency(meta?.currency)}</span>
+    {autoRefreshMinutes > 0 && (
+      <span className="flex items-center gap-1">
+        <ICONS.ArrowPath className="w-3 h-3" />
+        автообновление{lastCheckedAt && `, проверено в ${new Date(lastCheckedAt).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}`}
+      </span>
+    )}
+  </div>
+);
+
+export const StaleDataWarning = ({ freshness, staleAfterHours, loading, onRefresh }: {
+  freshness: Freshness,
+  staleAfterHours: number,
+  loading: boolean,
+  onRefresh: () => void,
+}) => (
+  <div className="p-4 bg-amber-50 border border-amber-100 rounded-2xl text-amber-700 text-sm font-medium flex flex-wrap justify-between items-center gap-3">
+    <span>
+      Данные устарели: {freshness.fromMeta ? 'отчёт сформирован' : 'набор загружен'} {formatStamp(freshness.since)}, {formatAge(freshness.ageHours)} назад
+      (порог — {staleAfterHours} ч).
+    </span>
+    <button
+      onClick={onRefresh}
+      disabled={loading}
+      className="px-4 py-2 bg-white border border-amber-200 rounded-xl text-xs font-bold hover:bg-amber-100 disabled:opacity-50 transition"
+    >
+      {loading ? 'Загрузка...' : 'Обновить сейчас'}
+    </button>
+  </div>
+);
+
+export default ReportInfo;
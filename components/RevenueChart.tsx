@@ -0,0 +1,239 @@
+import React from 'react';
+import {
+  XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, ReferenceLine
+} from 'recharts';
+import { COLORS, CHART_COLORS } from '../constants';
+import {
+  Granularity, SeriesMetric, ChartMetric, SeriesPoint, GRANULARITY_LABELS, SERIES_METRIC_LABELS, storeSeriesKey,
+  chartMetricLabel, canStackMetric
+} from '../utils/timeSeries';
+import { CompiledMetrics, isCustomMetricKey } from '../utils/metrics';
+import { useFormatter } from '../hooks/useFormatter';
+import { ForecastMethod, FORECAST_METHOD_LABELS, FORECAST_HORIZONS } from '../utils/forecast';
+import { ChartMarker, ChartMarkerKind, DAY_MARK_COLORS } from '../utils/calendar';
+
+const formatAxis = (metric: ChartMetric, v: number): string => {
+  if (metric === 'upt' || (isCustomMetricKey(metric) && Math.abs(v) < 10)) return v.toFixed(1);
+  return Math.abs(v) >= 1000 ? `${(v / 1000).toFixed(0)}k` : v.toFixed(0);
+};
+
+const MARKER_STYLES: Record<ChartMarkerKind, { color: string, label: string }> = {
+  warning: { color: '#F59E0B', label: '!' },
+  critical: { color: '#F43F5E', label: '!' },
+  holiday: { color: DAY_MARK_COLORS.holiday, label: '★' },
+  promo: { color: DAY_MARK_COLORS.promo, label: '%' },
+};
+
+const selectClass = "bg-slate-50 border-none rounded-xl px-3 py-1.5 text-xs font-bold text-slate-700 focus:ring-2 focus:ring-orange-500";
+
+export interface RevenueChartSettings {
+  granularity: Granularity;
+  metric: ChartMetric;
+  showMA: boolean;
+  stackByStore: boolean;
+  forecast: boolean;
+  forecastMethod: ForecastMethod;
+  // Горизонт прогноза в днях; для недельного ряда округляется до целых недель
+  forecastHorizon: number;
+}
+
+// Прогноз строится только для выручки по дням или неделям
+export const canForecast = (settings: RevenueChartSettings): boolean =>
+  settings.metric === 'revenue' && (settings.granularity === 'day' || settings.granularity === 'week');
+
+const RevenueChart = ({ points, stores, settings, onChange, comparisonLabel, forecastMape, markers, customMetrics, onSelectPoint }: {
+  points: SeriesPoint[],
+  stores: string[],
+  settings: RevenueChartSettings,
+  onChange: (patch: Partial<RevenueChartSettings>) => void,
+  comparisonLabel: string | null,
+  forecastMape: number | null,
+  markers: ChartMarker[],
+  customMetrics: CompiledMetrics,
+  // Клик по точке фильтрует дашборд по её периоду; multi — клик с Shift
+  onSelectPoint: (key: string, multi: boolean) => void,
+}) => {
+  const fmt = useFormatter();
+  const { granularity, metric, showMA, stackByStore } = settings;
+  const forecastAvailable = canForecast(settings);
+  const showForecast = settings.forecast && forecastAvailable;
+  const stacked = stackByStore && stores.length > 0;
+  const canStack = canStackMetric(metric);
+
+  const seriesName = (key: string) => {
+    if (key === 'compare') return 'База';
+    if (key === 'ma') return 'Скользящее среднее';
+    if (key === 'forecast') return 'Прогноз';
+    if (key.startsWith('store:')) return key.slice(6);
+    return chartMetricLabel(metric, customMetrics);
+  };
+
+  return (
+    <div className="lg:col-span-2 bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <h3 className="text-xl font-black">
+          {metric === 'revenue' ? 'Динамика выручки' : `Динамика: ${chartMetricLabel(metric, customMetrics)}`}
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex bg-slate-50 rounded-xl p-1">
+            {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(g => (
+              <button
+                key={g}
+                onClick={() => onChange({ granularity: g })}
+                className={`px-3 py-1 text-[10px] font-bold rounded-lg transition ${granularity === g ? 'bg-white text-orange-500 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                {GRANULARITY_LABELS[g]}
+              </button>
+            ))}
+          </div>
+          <select
+            value={metric}
+            onChange={e => {
+              const next = e.target.value as ChartMetric;
+              onChange({ metric: next, ...(canStackMetric(next) ? {} : { stackByStore: false }) });
+            }}
+            className={selectClass}
+          >
+            {(Object.keys(SERIES_METRIC_LABELS) as SeriesMetric[]).map(m => (
+              <option key={m} value={m}>{SERIES_METRIC_LABELS[m]}</option>
+            ))}
+            {customMetrics.size > 0 && (
+              <optgroup label="Мои показатели">
+                {Array.from(customMetrics, ([key, { metric: m }]) => (
+                  <option key={key} value={key}>{m.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showMA}
+              onChange={e => onChange({ showMA: e.target.checked })}
+              className="w-3.5 h-3.5 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+            />
+            Скользящее среднее
+          </label>
+          <label className={`flex items-center gap-1.5 text-[10px] font-bold cursor-pointer ${canStack ? 'text-slate-500' : 'text-slate-300'}`}>
+            <input
+              type="checkbox"
+              checked={stackByStore && canStack}
+              disabled={!canStack}
+              onChange={e => onChange({ stackByStore: e.target.checked })}
+              className="w-3.5 h-3.5 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+            />
+            По магазинам
+          </label>
+          <label className={`flex items-center gap-1.5 text-[10px] font-bold cursor-pointer ${forecastAvailable ? 'text-slate-500' : 'text-slate-300'}`}>
+            <input
+              type="checkbox"
+              checked={showForecast}
+              disabled={!forecastAvailable}
+              onChange={e => onChange({ forecast: e.target.checked })}
+              className="w-3.5 h-3.5 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+            />
+            Прогноз
+          </label>
+          {showForecast && (
+            <>
+              <select value={settings.forecastMethod} onChange={e => onChange({ forecastMethod: e.target.value as ForecastMethod })} className={selectClass}>
+                {(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map(m => (
+                  <option key={m} value={m}>{FORECAST_METHOD_LABELS[m]}</option>
+                ))}
+              </select>
+              <select value={settings.forecastHorizon} onChange={e => onChange({ forecastHorizon: Number(e.target.value) })} className={selectClass}>
+                {FORECAST_HORIZONS.map(h => <option key={h} value={h}>{h} дн.</option>)}
+              </select>
+            </>
+          )}
+        </div>
+      </div>
+
+      {showForecast && (
+        <div className="flex items-center gap-2 text-xs font-bold text-slate-400 -mt-4 mb-4">
+          <div className="w-3 h-0.5 border-t-2 border-dashed border-orange-400"></div>
+          Прогноз с 95% интервалом
+          <span className="mx-1 text-slate-200">•</span>
+          {forecastMape === null
+            ? 'точность не оценена: мало истории'
+            : `ошибка на истории (MAPE): ${forecastMape.toLocaleString('ru-RU', { maximumFractionDigits: 1 })}%`}
+        </div>
+      )}
+
+      {comparisonLabel && (
+        <div className="flex items-center gap-2 text-xs font-bold text-slate-400 -mt-4 mb-4">
+          <div className="w-3 h-0.5 bg-sky-400"></div>
+          {comparisonLabel}
+        </div>
+      )}
+
+      <div className="h-[350px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart
+            data={points}
+            className="cursor-pointer"
+            onClick={(state, e) => {
+              const point = points[Number(state.activeIndex)];
+              // Точки прогноза лежат в будущем — фильтровать по ним нечего
+              if (point && point.value !== undefined) onSelectPoint(point.key, (e as React.MouseEvent).shiftKey);
+            }}
+          >
+            <defs>
+              <linearGradient id="colorRev" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#FF5C35" stopOpacity={0.1}/>
+                <stop offset="95%" stopColor="#FF5C35" stopOpacity={0}/>
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+            <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94A3B8' }} dy={10} />
+            <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94A3B8' }} tickFormatter={(v) => formatAxis(metric, v)} />
+            <Tooltip
+              contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 10px 30px rgba(0,0,0,0.1)' }}
+              formatter={(v: any, name: any) => [fmt.metric(metric, v, customMetrics), seriesName(String(name))]}
+            />
+            {stacked ? (
+              stores.map((s, i) => (
+                <Area
+                  key={s}
+                  type="monotone"
+                  dataKey={storeSeriesKey(s)}
+                  stackId="stores"
+                  stroke={COLORS[i % COLORS.length]}
+                  fill={COLORS[i % COLORS.length]}
+                  fillOpacity={0.15}
+                  strokeWidth={2}
+                />
+              ))
+            ) : (
+              <Area type="monotone" dataKey="value" stroke="#FF5C35" strokeWidth={4} fillOpacity={1} fill="url(#colorRev)" />
+            )}
+            {comparisonLabel && (
+              <Area type="monotone" dataKey="compare" stroke={CHART_COLORS.secondary} strokeWidth={2} strokeDasharray="6 4" fill="none" connectNulls />
+            )}
+            {markers.map(m => (
+              <ReferenceLine
+                key={m.name}
+                x={m.name}
+                stroke={MARKER_STYLES[m.kind].color}
+                strokeDasharray="3 3"
+                label={{ value: MARKER_STYLES[m.kind].label, position: 'top', fill: MARKER_STYLES[m.kind].color, fontSize: 12, fontWeight: 900 }}
+              />
+            ))}
+            {showForecast && (
+              <>
+                <Area type="monotone" dataKey="forecastLow" stackId="forecast" stroke="none" fill="none" tooltipType="none" />
+                <Area type="monotone" dataKey="forecastBand" stackId="forecast" stroke="none" fill="#FF5C35" fillOpacity={0.1} tooltipType="none" />
+                <Area type="monotone" dataKey="forecast" stroke="#FF5C35" strokeWidth={2} strokeDasharray="6 4" fill="none" dot={false} />
+              </>
+            )}
+            {showMA && (
+              <Area type="monotone" dataKey="ma" stroke={CHART_COLORS.tertiary} strokeWidth={2} fill="none" dot={false} connectNulls />
+            )}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default RevenueChart;
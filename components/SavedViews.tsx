@@ -0,0 +1,156 @@
+import React, { useRef, useState } from 'react';
+import { ICONS } from '../constants';
+import {
+  DashboardState, SavedView, createView, shareUrl, viewsToJSON, parseViewsJSON, mergeViews
+} from '../services/viewState';
+import { download } from '../services/export';
+
+const inputClass = "w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500";
+const linkButtonClass = "px-3 py-1 text-[10px] font-bold rounded-lg transition";
+
+const SavedViews = ({ views, defaultId, current, onChange, onApply, onClose }: {
+  views: SavedView[],
+  defaultId: string | null,
+  current: DashboardState,
+  onChange: (views: SavedView[], defaultId: string | null) => void,
+  onApply: (view: SavedView) => void,
+  onClose: () => void,
+}) => {
+  const [name, setName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const saveCurrent = () => {
+    const view = createView(name.trim() || `Вид от ${new Date().toLocaleDateString('ru-RU')}`, current);
+    onChange([...views, view], defaultId);
+    setName('');
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameText.trim()) {
+      onChange(views.map(v => v.id === renamingId ? { ...v, name: renameText.trim() } : v), defaultId);
+    }
+    setRenamingId(null);
+  };
+
+  const removeView = (id: string) =>
+    onChange(views.filter(v => v.id !== id), defaultId === id ? null : defaultId);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(current));
+      setMessage('Ссылка на текущий вид скопирована');
+    } catch {
+      setMessage('Не удалось скопировать ссылку — скопируйте её из адресной строки');
+    }
+  };
+
+  const exportViews = () =>
+    download(new Blob([viewsToJSON(views)], { type: 'application/json' }), 'dashboard_views.json');
+
+  const importViews = async (file: File) => {
+    try {
+      const incoming = parseViewsJSON(await file.text());
+      onChange(mergeViews(views, incoming), defaultId);
+      setMessage(`Импортировано видов: ${incoming.length}`);
+    } catch (err: any) {
+      setMessage(`Ошибка импорта: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-8 space-y-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-black tracking-tight">Сохранённые виды</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="flex gap-3">
+          <input
+            value={name}
+            placeholder="Название вида"
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && saveCurrent()}
+            className={inputClass}
+          />
+          <button onClick={saveCurrent} className="px-6 py-3 bg-orange-500 text-white rounded-2xl font-bold shadow-lg shadow-orange-200 hover:bg-orange-600 transition whitespace-nowrap">
+            Сохранить текущий
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {views.length === 0 && (
+            <p className="text-sm text-slate-400 px-2">Пока нет сохранённых видов. Настройте фильтры и сводную таблицу, затем сохраните вид.</p>
+          )}
+          {views.map(v => (
+            <div key={v.id} className="p-3 rounded-2xl hover:bg-slate-50 flex items-center gap-3 transition">
+              <button
+                onClick={() => onChange(views, defaultId === v.id ? null : v.id)}
+                title={defaultId === v.id ? 'Открывается по умолчанию' : 'Сделать видом по умолчанию'}
+                className={`text-lg leading-none ${defaultId === v.id ? 'text-orange-500' : 'text-slate-200 hover:text-orange-300'}`}
+              >
+                ★
+              </button>
+              <div className="min-w-0 flex-1">
+                {renamingId === v.id ? (
+                  <input
+                    autoFocus
+                    value={renameText}
+                    onChange={e => setRenameText(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={e => e.key === 'Enter' && commitRename()}
+                    className="w-full bg-white border border-slate-200 rounded-xl px-3 py-1 text-sm font-bold focus:ring-2 focus:ring-orange-500"
+                  />
+                ) : (
+                  <div className="text-sm font-bold text-slate-700 truncate">{v.name}</div>
+                )}
+                <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  {new Date(v.createdAt).toLocaleDateString('ru-RU')}
+                </div>
+              </div>
+              <button onClick={() => onApply(v)} className={`${linkButtonClass} bg-orange-50 text-orange-600 hover:bg-orange-100`}>
+                Открыть
+              </button>
+              <button onClick={() => { setRenamingId(v.id); setRenameText(v.name); }} className={`${linkButtonClass} bg-slate-100 hover:bg-slate-200`}>
+                Переименовать
+              </button>
+              <button onClick={() => removeView(v.id)} className="text-slate-300 hover:text-rose-500">
+                <ICONS.Trash className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {message && <p className="text-xs font-bold text-slate-500 px-2">{message}</p>}
+
+        <div className="flex flex-wrap gap-3 justify-end pt-2">
+          <button onClick={copyLink} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 rounded-2xl text-xs font-bold transition">
+            Копировать ссылку
+          </button>
+          <button onClick={exportViews} disabled={!views.length} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 rounded-2xl text-xs font-bold transition disabled:opacity-50">
+            Экспорт JSON
+          </button>
+          <button onClick={() => fileInput.current?.click()} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 rounded-2xl text-xs font-bold transition">
+            Импорт JSON
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importViews(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SavedViews;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { NormalizedRow } from '../types';
+import { ICONS } from '../constants';
+import { Formatter, formatCompact, formatPercent } from '../utils/format';
+import { useFormatter } from '../hooks/useFormatter';
+import { computeDelta } from '../utils/aggregate';
+import { DatasetDiff, diffDatasets } from '../utils/datasetDiff';
+import { SnapshotInfo, SNAPSHOT_KIND_LABELS, loadSnapshot } from '../services/datasetStore';
+
+const linkButtonClass = "px-3 py-1 text-[10px] font-bold rounded-lg transition";
+
+const formatStamp = (iso: string) =>
+  new Date(iso).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const DeltaText = ({ before, after, format }: { before: number, after: number, format: (v: number) => string }) => {
+  const delta = computeDelta(after, before);
+  if (delta.abs === 0) return <span className="text-slate-300">без изменений</span>;
+  return (
+    <span className={delta.abs > 0 ? 'text-emerald-500' : 'text-rose-500'}>
+      {delta.abs > 0 ? '+' : ''}{format(delta.abs)}{delta.pct !== null && ` (${formatPercent(delta.pct)})`}
+    </span>
+  );
+};
+
+const DiffView = ({ snapshot, diff, fmt }: { snapshot: SnapshotInfo, diff: DatasetDiff, fmt: Formatter }) => (
+  <div className="p-6 bg-slate-50 rounded-[32px] space-y-4">
+    <div className="text-xs font-bold text-slate-500">
+      Текущие данные относительно снимка от {formatStamp(snapshot.createdAt)}
+    </div>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {([
+        ['Добавлено', diff.added, 'text-emerald-500'],
+        ['Удалено', diff.removed, 'text-rose-500'],
+        ['Изменено', diff.changed, 'text-amber-500'],
+        ['Без изменений', diff.unchanged, 'text-slate-400'],
+      ] as const).map(([label, value, color]) => (
+        <div key={label} className="bg-white rounded-2xl p-3">
+          <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</div>
+          <div className={`text-lg font-black ${color}`}>{formatCompact(value)}</div>
+        </div>
+      ))}
+    </div>
+    <div className="text-sm font-bold text-slate-700 space-y-1">
+      <div>Выручка: <DeltaText before={diff.before.revenue} after={diff.after.revenue} format={fmt.currency} /></div>
+      <div>Чеки: <DeltaText before={diff.before.checks} after={diff.after.checks} format={formatCompact} /></div>
+    </div>
+    {diff.changedDates.length > 0 && (
+      <div className="text-xs text-slate-500">
+        Затронуто дней: {diff.changedDates.length} · с {diff.changedDates[0]} по {diff.changedDates[diff.changedDates.length - 1]}
+      </div>
+    )}
+    {diff.stores.some(s => s.after !== s.before) && (
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-400 uppercase tracking-widest">
+            <th className="text-left font-black py-1">Магазин</th>
+            <th className="text-right font-black py-1">В снимке</th>
+            <th className="text-right font-black py-1">Сейчас</th>
+            <th className="text-right font-black py-1">Разница</th>
+          </tr>
+        </thead>
+        <tbody>
+          {diff.stores.filter(s => s.after !== s.before).map(s => (
+            <tr key={s.store} className="border-t border-slate-100">
+              <td className="py-1.5 font-bold text-slate-700">{s.store}</td>
+              <td className="py-1.5 text-right text-slate-500">{fmt.currency(s.before)}</td>
+              <td className="py-1.5 text-right text-slate-700">{fmt.currency(s.after)}</td>
+              <td className="py-1.5 text-right font-bold"><DeltaText before={s.before} after={s.after} format={fmt.currency} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const SnapshotHistory = ({ snapshots, currentRows, onRollback, onDelete, onClose }: {
+  snapshots: SnapshotInfo[],
+  currentRows: NormalizedRow[],
+  onRollback: (id: string) => void,
+  onDelete: (id: string) => void,
+  onClose: () => void,
+}) => {
+  const fmt = useFormatter();
+  const [compared, setCompared] = useState<{ snapshot: SnapshotInfo, diff: DatasetDiff } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const compare = async (snapshot: SnapshotInfo) => {
+    setBusyId(snapshot.id);
+    setMessage(null);
+    try {
+      const { rows } = await loadSnapshot(snapshot.id);
+      setCompared({ snapshot, diff: diffDatasets(rows, currentRows) });
+    } catch (err: any) {
+      setMessage(`Не удалось открыть снимок: ${err.message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-8 space-y-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-2xl font-black tracking-tight">История загрузок</h3>
+            <p className="text-xs font-bold text-slate-400 mt-1">Каждая загрузка сохраняет снимок набора в браузере — к нему можно откатиться или сравнить с текущими данными</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="space-y-2">
+          {snapshots.length === 0 && (
+            <p className="text-sm text-slate-400 px-2">Снимков пока нет — они появятся после следующей загрузки или импорта.</p>
+          )}
+          {snapshots.map((s, i) => (
+            <div key={s.id} className={`p-3 rounded-2xl flex items-center gap-3 transition ${compared?.snapshot.id === s.id ? 'bg-orange-50' : 'hover:bg-slate-50'}`}>
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-bold text-slate-700 truncate">
+                  {formatStamp(s.createdAt)} · {SNAPSHOT_KIND_LABELS[s.kind]}
+                  {i === 0 && <span className="ml-2 text-[10px] font-black text-orange-500 uppercase tracking-widest">последний</span>}
+                </div>
+                <div className="text-[10px] font-bold text-slate-400">
+                  {s.meta?.source || s.sourceName}
+                  {s.meta?.generated_at && ` · отчёт сформирован ${formatStamp(s.meta.generated_at)}`}
+                  {' · '}строк: {formatCompact(s.rowCount)}
+                  {s.kind !== 'full' && s.kind !== 'rollback' && `, новых или изменённых: ${formatCompact(s.changedCount)}`}
+                  {s.dateFrom && ` · ${s.dateFrom} — ${s.dateTo}`}
+                </div>
+              </div>
+              <button
+                onClick={() => compare(s)}
+                disabled={busyId !== null}
+                className={`${linkButtonClass} bg-slate-100 hover:bg-slate-200 disabled:opacity-50`}
+              >
+                {busyId === s.id ? 'Сравнение…' : 'Сравнить'}
+              </button>
+              <button onClick={() => onRollback(s.id)} className={`${linkButtonClass} bg-orange-50 text-orange-600 hover:bg-orange-100`}>
+                Откатить
+              </button>
+              <button
+                onClick={() => {
+                  if (compared?.snapshot.id === s.id) setCompared(null);
+                  onDelete(s.id);
+                }}
+                className="text-slate-300 hover:text-rose-500"
+              >
+                <ICONS.Trash className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {message && <p className="text-xs font-bold text-rose-500 px-2">{message}</p>}
+        {compared && <DiffView snapshot={compared.snapshot} diff={compared.diff} fmt={fmt} />}
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotHistory;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { DataSourceConfig, DataSourceKind } from '../types';
+import { ICONS } from '../constants';
+import {
+  SOURCE_KIND_LABELS, AUTO_REFRESH_OPTIONS, RefreshSettings, createSource, headersToText, textToHeaders
+} from '../services/dataSources';
+
+const inputClass = "w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-2";
+
+const SourceSettings = ({ sources, activeId, refresh, onSave, onClose }: {
+  sources: DataSourceConfig[],
+  activeId: string,
+  refresh: RefreshSettings,
+  onSave: (sources: DataSourceConfig[], activeId: string, refresh: RefreshSettings) => void,
+  onClose: () => void,
+}) => {
+  const [draft, setDraft] = useState<DataSourceConfig[]>(sources);
+  const [active, setActive] = useState(activeId);
+  const [editingId, setEditingId] = useState<string>(activeId);
+  const [refreshDraft, setRefreshDraft] = useState<RefreshSettings>(refresh);
+  // Текст заголовков храним отдельно, чтобы не терять строки в процессе ввода
+  const [headersText, setHeadersText] = useState<Record<string, string>>(
+    Object.fromEntries(sources.map(s => [s.id, headersToText(s.headers)]))
+  );
+
+  const editing = draft.find(s => s.id === editingId);
+
+  const update = (id: string, patch: Partial<DataSourceConfig>) =>
+    setDraft(list => list.map(s => s.id === id ? { ...s, ...patch } : s));
+
+  const addSource = (kind: DataSourceKind) => {
+    const source = createSource(kind);
+    setDraft(list => [...list, source]);
+    setHeadersText(h => ({ ...h, [source.id]: '' }));
+    setEditingId(source.id);
+  };
+
+  const removeSource = (id: string) => {
+    const next = draft.filter(s => s.id !== id);
+    setDraft(next);
+    if (active === id) setActive(next[0].id);
+    if (editingId === id) setEditingId(next[0].id);
+  };
+
+  const handleSave = () => {
+    onSave(draft.map(s => ({ ...s, headers: textToHeaders(headersText[s.id] || '') })), active, refreshDraft);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-8 space-y-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-black tracking-tight">Источники данных</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-6">
+          <div className="space-y-2">
+            {draft.map(s => (
+              <div
+                key={s.id}
+                onClick={() => setEditingId(s.id)}
+                className={`p-3 rounded-2xl cursor-pointer flex items-center gap-3 transition ${editingId === s.id ? 'bg-orange-50' : 'hover:bg-slate-50'}`}
+              >
+                <input
+                  type="radio"
+                  checked={active === s.id}
+                  onChange={() => setActive(s.id)}
+                  onClick={e => e.stopPropagation()}
+                  className="w-4 h-4 text-orange-500 border-slate-300 focus:ring-orange-500"
+                />
+                <div className="min-w-0">
+                  <div className="text-sm font-bold text-slate-700 truncate">{s.name}</div>
+                  <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{SOURCE_KIND_LABELS[s.kind]}</div>
+                </div>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2 pt-2">
+              {(Object.keys(SOURCE_KIND_LABELS) as DataSourceKind[]).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => addSource(kind)}
+                  className="px-3 py-1 bg-slate-100 hover:bg-orange-100 text-[10px] font-bold rounded-lg transition"
+                >
+                  + {SOURCE_KIND_LABELS[kind]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {editing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className={labelClass}>Название</label>
+                <input value={editing.name} onChange={e => update(editing.id, { name: e.target.value })} className={inputClass} />
+              </div>
+
+              {editing.kind !== 'file' ? (
+                <>
+                  <div className="space-y-2">
+                    <label className={labelClass}>Адрес</label>
+                    <input
+                      value={editing.url}
+                      placeholder="https://..."
+                      onChange={e => update(editing.id, { url: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  {editing.kind === 'webhook' && (
+                    <>
+                      <div className="space-y-2">
+                        <label className={labelClass}>Метод</label>
+                        <select
+                          value={editing.method}
+                          onChange={e => update(editing.id, { method: e.target.value as DataSourceConfig['method'] })}
+                          className={inputClass}
+                        >
+                          <option value="GET">GET</option>
+                          <option value="POST">POST</option>
+                        </select>
+                      </div>
+                      <div className="space-y-2">
+                        <label className={labelClass}>Токен (Bearer)</label>
+                        <input
+                          type="password"
+                          value={editing.authToken}
+                          onChange={e => update(editing.id, { authToken: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className={labelClass}>Заголовки</label>
+                        <textarea
+                          rows={3}
+                          value={headersText[editing.id] || ''}
+                          placeholder="X-Api-Key: ..."
+                          onChange={e => setHeadersText(h => ({ ...h, [editing.id]: e.target.value }))}
+                          className={`${inputClass} font-mono`}
+                        />
+                      </div>
+                    </>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-slate-400 px-2">
+                  Данные загружаются из CSV, XLSX или JSON через окно импорта. Кнопка «Обновить данные» откроет выбор файла.
+                </p>
+              )}
+
+              {draft.length > 1 && (
+                <button
+                  onClick={() => removeSource(editing.id)}
+                  className="px-4 py-2 text-rose-500 hover:bg-rose-50 rounded-2xl text-xs font-bold transition flex items-center gap-2"
+                >
+                  <ICONS.Trash className="w-4 h-4" />
+                  Удалить источник
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-6 border-t border-slate-100">
+          <div className="space-y-2">
+            <label className={labelClass}>Предупреждать, если данным больше, часов</label>
+            <input
+              type="number"
+              min={1}
+              value={refreshDraft.staleAfterHours}
+              onChange={e => setRefreshDraft(r => ({ ...r, staleAfterHours: Math.max(1, Number(e.target.value) || 1) }))}
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Фоновая догрузка новых дней</label>
+            <select
+              value={refreshDraft.autoRefreshMinutes}
+              onChange={e => setRefreshDraft(r => ({ ...r, autoRefreshMinutes: Number(e.target.value) }))}
+              className={inputClass}
+            >
+              {AUTO_REFRESH_OPTIONS.map(o => (
+                <option key={o.minutes} value={o.minutes}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex gap-3 justify-end pt-2">
+          <button onClick={onClose} className="px-6 py-3 text-slate-400 hover:text-slate-600 text-xs font-bold uppercase tracking-widest transition">
+            Отмена
+          </button>
+          <button onClick={handleSave} className="px-6 py-3 bg-orange-500 text-white rounded-2xl font-bold shadow-lg shadow-orange-200 hover:bg-orange-600 transition">
+            Сохранить
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceSettings;
@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, Tooltip } from 'recharts';
+import { NormalizedRow } from '../types';
+import { Formatter, formatCompact, formatWeight, formatPercent } from '../utils/format';
+import { useFormatter } from '../hooks/useFormatter';
+import {
+  StoreMetric, StoreStats, STORE_METRIC_LABELS, buildStoreReport, sortStores, storeMetricValue
+} from '../utils/stores';
+import { bucketLabel } from '../utils/timeSeries';
+import { SortMark } from './PivotTable';
+
+// Отклонение в пределах порога считается нормой и не подсвечивается
+const DEVIATION_THRESHOLD = 5;
+
+const formatStoreMetric = (metric: StoreMetric, val: number, fmt: Formatter): string => {
+  switch (metric) {
+    case 'revenue':
+    case 'atv': return fmt.currency(val);
+    case 'weight': return formatWeight(val);
+    case 'upt': return val.toFixed(2);
+    case 'share': return `${val.toLocaleString('ru-RU', { maximumFractionDigits: 1 })}%`;
+    default: return formatCompact(val);
+  }
+};
+
+const deviationClass = (dev: number | null): string => {
+  if (dev === null || Math.abs(dev) < DEVIATION_THRESHOLD) return 'text-slate-400';
+  return dev > 0 ? 'text-emerald-600 bg-emerald-50' : 'text-rose-600 bg-rose-50';
+};
+
+const Deviation = ({ value }: { value: number | null }) => (
+  <span className={`px-1.5 py-0.5 rounded-md text-[10px] font-bold ${deviationClass(value)}`}>
+    {value === null ? '—' : formatPercent(value)}
+  </span>
+);
+
+const Sparkline = ({ points, fmt }: { points: { key: string, value: number }[], fmt: Formatter }) => (
+  <div className="h-12">
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={points.map(p => ({ ...p, name: bucketLabel(p.key, 'week') }))}>
+        <Tooltip
+          contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 30px rgba(0,0,0,0.1)', fontSize: 11 }}
+          labelFormatter={(_, payload: any) => payload?.[0]?.payload?.name || ''}
+          formatter={(v: any) => [fmt.currency(v), 'Выручка']}
+        />
+        <Line type="monotone" dataKey="value" stroke="#FF5C35" strokeWidth={2} dot={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+const SCORECARD_METRICS: Exclude<StoreMetric, 'share' | 'revenue'>[] = ['checks', 'atv', 'upt', 'weight'];
+const RANKING_METRICS: StoreMetric[] = ['revenue', 'share', 'checks', 'atv', 'upt', 'weight'];
+
+const StoreScorecard = ({ stats, rank, fmt }: { stats: StoreStats, rank: number, fmt: Formatter }) => (
+  <div className="bg-white p-6 rounded-[32px] border border-slate-100 shadow-sm space-y-4">
+    <div className="flex items-start justify-between gap-3">
+      <div className="min-w-0">
+        <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">#{rank}</div>
+        <h4 className="text-lg font-black text-slate-900 truncate" title={stats.store}>{stats.store}</h4>
+      </div>
+      <Deviation value={stats.deviation.revenue} />
+    </div>
+    <div>
+      <div className="text-2xl font-black text-slate-900">{fmt.currency(stats.totals.revenue)}</div>
+      <div className="flex items-center gap-2 mt-2">
+        <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-orange-400 rounded-full" style={{ width: `${Math.min(stats.share, 100)}%` }}></div>
+        </div>
+        <span className="text-[10px] font-bold text-slate-400">{formatStoreMetric('share', stats.share, fmt)} сети</span>
+      </div>
+    </div>
+    <Sparkline points={stats.trend} fmt={fmt} />
+    <div className="grid grid-cols-2 gap-3">
+      {SCORECARD_METRICS.map(m => (
+        <div key={m} className="bg-slate-50 rounded-2xl px-3 py-2">
+          <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{STORE_METRIC_LABELS[m]}</div>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-bold text-slate-700">{formatStoreMetric(m, stats.totals[m], fmt)}</span>
+            <Deviation value={stats.deviation[m]} />
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const StorePerformance = ({ rows }: { rows: NormalizedRow[] }) => {
+  const fmt = useFormatter();
+  const [sortKey, setSortKey] = useState<StoreMetric | 'store'>('revenue');
+  const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
+
+  const report = useMemo(() => buildStoreReport(rows), [rows]);
+  // Место магазина — всегда по выручке, независимо от сортировки таблицы
+  const byRevenue = useMemo(() => sortStores(report.stores, 'revenue', 'desc'), [report]);
+  const ranked = useMemo(() => sortStores(report.stores, sortKey, sortDir), [report, sortKey, sortDir]);
+  const rankOf = (store: string) => byRevenue.findIndex(s => s.store === store) + 1;
+
+  const sortBy = (key: StoreMetric | 'store') => {
+    if (key === sortKey) setSortDir(d => d === 'asc' ? 'desc' : 'asc');
+    else { setSortKey(key); setSortDir(key === 'store' ? 'asc' : 'desc'); }
+  };
+
+  if (!report.stores.length) {
+    return <p className="text-sm text-slate-400 px-2">Нет данных по магазинам для выбранных фильтров.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        {byRevenue.map((s, i) => <StoreScorecard key={s.store} stats={s} rank={i + 1} fmt={fmt} />)}
+      </div>
+
+      <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <h3 className="text-2xl font-black tracking-tight">Рейтинг магазинов</h3>
+          <p className="text-xs font-bold text-slate-400">
+            Отклонение от среднего магазина сети; подсветка — при расхождении больше {DEVIATION_THRESHOLD}%
+          </p>
+        </div>
+        <div className="overflow-x-auto -mx-8">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-slate-50">
+                <th className="p-4 pl-8 text-left text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">#</th>
+                <th
+                  onClick={() => sortBy('store')}
+                  className="p-4 text-left text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 cursor-pointer hover:text-orange-500"
+                >
+                  Магазин
+                  <SortMark active={sortKey === 'store'} dir={sortDir} />
+                </th>
+                {RANKING_METRICS.map(m => (
+                  <th
+                    key={m}
+                    onClick={() => sortBy(m)}
+                    className="p-4 text-right text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 cursor-pointer hover:text-orange-500 min-w-[130px]"
+                  >
+                    {STORE_METRIC_LABELS[m]}
+                    <SortMark active={sortKey === m} dir={sortDir} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {ranked.map(s => (
+                <tr key={s.store} className="hover:bg-slate-50/50 transition">
+                  <td className="p-4 pl-8 text-sm font-bold text-slate-300">{rankOf(s.store)}</td>
+                  <td className="p-4 text-sm font-bold text-slate-700">{s.store}</td>
+                  {RANKING_METRICS.map(m => (
+                    <td key={m} className="p-4 text-right text-sm font-medium text-slate-600">
+                      <div>{formatStoreMetric(m, storeMetricValue(s, m), fmt)}</div>
+                      {m !== 'share' && <Deviation value={s.deviation[m]} />}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="bg-orange-50/40">
+                <td className="p-4 pl-8"></td>
+                <td className="p-4 text-sm font-black text-slate-900">Средний магазин</td>
+                {RANKING_METRICS.map(m => (
+                  <td key={m} className="p-4 text-right text-sm font-black text-slate-900">
+                    {m === 'share'
+                      ? formatStoreMetric('share', 100 / report.stores.length, fmt)
+                      : formatStoreMetric(m, report.average[m], fmt)}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorePerformance;
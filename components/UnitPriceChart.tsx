@@ -0,0 +1,73 @@
+import React, { useMemo, useState } from 'react';
+import {
+  XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, Legend
+} from 'recharts';
+import { NormalizedRow } from '../types';
+import { COLORS } from '../constants';
+import { useFormatter } from '../hooks/useFormatter';
+import { Granularity, GRANULARITY_LABELS } from '../utils/timeSeries';
+import { UnitType, UNIT_TYPE_LABELS, buildPriceTrend } from '../utils/units';
+
+// Больше линий на одном графике уже не читается
+const MAX_CATEGORIES = 6;
+
+const selectClass = "bg-slate-50 border-none rounded-xl px-3 py-1.5 text-xs font-bold text-slate-700 focus:ring-2 focus:ring-orange-500";
+
+const UnitPriceChart = ({ rows }: { rows: NormalizedRow[] }) => {
+  const fmt = useFormatter();
+  const [unit, setUnit] = useState<UnitType>('kg');
+  const [granularity, setGranularity] = useState<Granularity>('week');
+  const trend = useMemo(() => buildPriceTrend(rows, unit, granularity, MAX_CATEGORIES), [rows, unit, granularity]);
+
+  return (
+    <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <h3 className="text-xl font-black">
+          {unit === 'kg' ? 'Цена за кг по категориям' : 'Цена за штуку по категориям'}
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex bg-slate-50 rounded-xl p-1">
+            {(Object.keys(UNIT_TYPE_LABELS) as UnitType[]).map(u => (
+              <button
+                key={u}
+                onClick={() => setUnit(u)}
+                className={`px-3 py-1 text-[10px] font-bold rounded-lg transition ${unit === u ? 'bg-white text-orange-500 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                {UNIT_TYPE_LABELS[u]}
+              </button>
+            ))}
+          </div>
+          <select value={granularity} onChange={e => setGranularity(e.target.value as Granularity)} className={selectClass}>
+            {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(g => (
+              <option key={g} value={g}>{GRANULARITY_LABELS[g]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {trend.categories.length === 0 ? (
+        <p className="text-sm text-slate-400 px-2">Нет продаж этого типа единиц в выбранном периоде.</p>
+      ) : (
+        <div className="h-[350px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={trend.points}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94A3B8' }} dy={10} />
+              <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94A3B8' }} tickFormatter={v => v.toFixed(0)} />
+              <Tooltip
+                contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 10px 30px rgba(0,0,0,0.1)' }}
+                formatter={(v: any, name: any) => [`${fmt.currency(v)} / ${unit === 'kg' ? 'кг' : 'шт'}`, name]}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              {trend.categories.map((cat, i) => (
+                <Line key={cat} type="monotone" dataKey={cat} stroke={COLORS[i % COLORS.length]} strokeWidth={2} dot={false} connectNulls />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UnitPriceChart;
@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react';
+import { AnalyticsRequest, AnalyticsResults } from '../utils/analyticsEngine';
+import { runAnalytics, subscribePending } from '../services/analytics';
+
+const failureListeners = new Set<(message: string) => void>();
+
+// Результат запроса к воркеру; пока считается новый, остаётся предыдущий, чтобы экран не мигал.
+// Если новый не посчитался, прежний сбрасывается — устаревшие цифры не выдаются за актуальные
+export const useAnalytics = <R extends AnalyticsRequest, T = AnalyticsResults[R['type']]>(
+  request: R | null,
+  deps: unknown[],
+  select: (result: AnalyticsResults[R['type']]) => T = r => r as unknown as T
+): T | null => {
+  const [value, setValue] = useState<T | null>(null);
+  const latest = useRef(0);
+
+  useEffect(() => {
+    const seq = ++latest.current;
+    if (!request) {
+      setValue(null);
+      return;
+    }
+    runAnalytics(request)
+      // Ответ на устаревший запрос отбрасывается: фильтры успели поменяться
+      .then(result => { if (seq === latest.current) setValue(select(result)); })
+      .catch((err: Error) => {
+        if (seq !== latest.current) return;
+        setValue(null);
+        failureListeners.forEach(l => l(err.message));
+      });
+  }, deps);
+
+  return value;
+};
+
+export const useAnalyticsPending = (): boolean => {
+  const [count, setCount] = useState(0);
+  useEffect(() => subscribePending(setCount), []);
+  return count > 0;
+};
+
+// Ошибки расчётов всех useAnalytics экрана; обработчик может меняться между отрисовками
+export const useAnalyticsErrors = (onError: (message: string) => void) => {
+  const handler = useRef(onError);
+  useEffect(() => { handler.current = onError; });
+  useEffect(() => {
+    const listener = (message: string) => handler.current(message);
+    failureListeners.add(listener);
+    return () => { failureListeners.delete(listener); };
+  }, []);
+};
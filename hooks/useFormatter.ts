@@ -0,0 +1,7 @@
+import { createContext, useContext } from 'react';
+import { Formatter, createFormatter } from '../utils/format';
+
+// Форматтер валюты загруженного набора; дашборд строит его из ReportMeta. Без провайдера — рубли
+export const FormatterContext = createContext<Formatter>(createFormatter());
+
+export const useFormatter = (): Formatter => useContext(FormatterContext);
@@ -0,0 +1,47 @@
+import { useCallback, useState } from 'react';
+
+const HISTORY_LIMIT = 50;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface UndoControls {
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+// Состояние с историей изменений: каждое изменение можно отменить и вернуть.
+// Совпадающие по same значения в историю не пишутся — повторный выбор того же фильтра не плодит шагов
+export const useUndoable = <T>(
+  initial: T | (() => T),
+  same: (a: T, b: T) => boolean = Object.is
+): [T, (next: T | ((prev: T) => T)) => void, UndoControls] => {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+  }));
+
+  const set = useCallback((next: T | ((prev: T) => T)) => setHistory(h => {
+    const value = typeof next === 'function' ? (next as (prev: T) => T)(h.present) : next;
+    if (same(value, h.present)) return h;
+    return { past: [...h.past, h.present].slice(-HISTORY_LIMIT), present: value, future: [] };
+  }), [same]);
+
+  const undo = useCallback(() => setHistory(h => h.past.length
+    ? { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] }
+    : h
+  ), []);
+
+  const redo = useCallback(() => setHistory(h => h.future.length
+    ? { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) }
+    : h
+  ), []);
+
+  return [history.present, set, { undo, redo, canUndo: history.past.length > 0, canRedo: history.future.length > 0 }];
+};
@@ -1,94 +1,85 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
 import {
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
-  AreaChart, Area, BarChart, Bar, Cell, Legend
+  BarChart, Bar, Cell, Legend
 } from 'recharts';
 import {
-  NormalizedRow, Filters, PivotValueType, ReportMeta
+  NormalizedRow, Filters, PivotValueType, ReportMeta, DataSourceConfig, DataIssue
 } from './types';
-import { COLORS, CHART_COLORS, MONTH_NAMES, ICONS } from './constants';
-
-// --- УТИЛИТЫ ОЧИСТКИ ---
-
-const cleanString = (val: any): string => {
-  if (val === null || val === undefined) return '';
-  return String(val).replace(/[\n\r]/g, '').trim();
-};
-
-const parseNum = (val: any): number => {
-  if (typeof val === 'number') return val;
-  if (!val) return 0;
-  // Удаляем переносы строк, пробелы, меняем запятые на точки
-  const cleaned = String(val)
-    .replace(/[\n\r]/g, '')
-    .replace(/\s/g, '')
-    .replace(',', '.')
-    .replace(/[^0-9.-]/g, '');
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? 0 : parsed;
-};
-
-const formatCurrency = (val: number) => 
-  new Intl.NumberFormat('ru-RU', { style: 'currency', currency: 'RUB', maximumFractionDigits: 0 }).format(val);
-
-const formatCompact = (val: number) => 
-  val.toLocaleString('ru-RU', { maximumFractionDigits: 0 });
-
-const formatWeight = (val: number) => 
-  val.toLocaleString('ru-RU', { maximumFractionDigits: 2 }) + ' кг';
-
-// --- НОРМАЛИЗАЦИЯ ДАННЫХ ---
-
-const normalizeData = (raw: any[]): NormalizedRow[] => {
-  return raw.map((item, idx) => {
-    // n8n может возвращать массив объектов напрямую или в поле json
-    const row = item.json ? item.json : item;
-    
-    // Основные числовые поля
-    const revenue = parseNum(row.revenue_rub || row["Выручка, ₽"] || row.revenue_rub_raw);
-    const checks = parseNum(row.checks || row["Чеки, шт."]);
-    const pieces = parseNum(row.pieces || row["Штуки"] || row.peaces); // peaces - возможная опечатка в n8n
-    const weight = parseNum(row.weight_kg || row["Вес, кг"]);
-    
-    // Текстовые поля с очисткой от \n
-    const dateStr = cleanString(row.date || row["Дата"]);
-    const store = cleanString(row.store_name || row["Магазин"] || "Неизвестно");
-    const category = cleanString(row.category_name || row["Категория товара"] || "Прочее");
-    
-    // Определение типа единицы
-    const rawUnit = cleanString(row.unit_raw || row["Шт. в кг"]);
-    const unitTypeClean = cleanString(row.unit_type).toLowerCase();
-    const unitType: 'kg' | 'pcs' = (unitTypeClean.includes('kg') || unitTypeClean.includes('кг') || rawUnit.toLowerCase().includes('кг')) ? 'kg' : 'pcs';
-
-    return {
-      id: cleanString(row.id) || `row-${idx}`,
-      date: dateStr,
-      store_name: store,
-      category_name: category,
-      unit_raw: rawUnit,
-      unit_type: unitType,
-      pieces_per_kg: parseNum(row.pieces_per_kg),
-      weight_kg: weight,
-      revenue_rub: revenue,
-      checks: checks,
-      pieces: pieces,
-      week: parseNum(row.week),
-      month: parseNum(row.month),
-      quarter: parseNum(row.quarter),
-      year: parseNum(row.year) || 2025,
-      atv: checks > 0 ? revenue / checks : 0,
-      upt: checks > 0 ? pieces / checks : 0,
-      avg_price_per_kg: weight > 0 ? revenue / weight : 0,
-      avg_price_per_piece: pieces > 0 ? revenue / pieces : 0,
-    };
-  });
-};
+import { COLORS, CHART_COLORS, ICONS } from './constants';
+import { mergeDatasetsWithDelta } from './utils/normalize';
+import { formatCompact, formatWeight, formatPercent, createFormatter } from './utils/format';
+import { dataFreshness } from './utils/freshness';
+import { computeTotals, computeDelta, compareTotals, Delta } from './utils/aggregate';
+import {
+  DateRange, ComparisonMode, COMPARISON_LABELS, dataDateRange, comparisonRange, todayISO, addDays, isValidISODate
+} from './utils/dates';
+import {
+  loadSources, saveSources, loadActiveSourceId, saveActiveSourceId, fetchFromSource, SOURCE_KIND_LABELS,
+  RefreshSettings, loadRefreshSettings, saveRefreshSettings
+} from './services/dataSources';
+import { ImportResult } from './services/fileImport';
+import FileImport, { ImportMode } from './components/FileImport';
+import DataQualityPanel from './components/DataQualityPanel';
+import RevenueChart, { RevenueChartSettings, canForecast } from './components/RevenueChart';
+import { DEFAULT_MA_WINDOW } from './utils/timeSeries';
+import { buildPivot, PivotDimension, PivotViewOptions, PIVOT_VALUES, isPlanValue, supportsPlan } from './utils/pivot';
+import PivotTable, { DimensionLevels } from './components/PivotTable';
+import SourceSettings from './components/SourceSettings';
+import { exportCSV, exportWorkbook } from './services/export';
+import {
+  DashboardState, DashboardPage, PAGE_LABELS, SavedView, initialDashboardState, writeStateToUrl, loadViews, saveViews, loadDefaultViewId, saveDefaultViewId
+} from './services/viewState';
+import SavedViews from './components/SavedViews';
+import PeriodPresets from './components/PeriodPresets';
+import StorePerformance from './components/StorePerformance';
+import CategoryAnalysis from './components/CategoryAnalysis';
+import { OTHER_CATEGORY, topCategories } from './utils/categories';
+import { UnitType, UNIT_TYPE_LABELS, VolumeMode, VOLUME_MODE_LABELS, convertUnits, unconvertedCount } from './utils/units';
+import UnitPriceChart from './components/UnitPriceChart';
+import { ForecastGranularity, forecastSeries, withForecast } from './utils/forecast';
+import ForecastBreakdown from './components/ForecastBreakdown';
+import { AlertRule, collectAlerts, alertsForFilters } from './utils/alerts';
+import { loadAlertRules, saveAlertRules, loadSeenAlerts, saveSeenAlerts } from './services/alertRules';
+import AlertsPanel from './components/AlertsPanel';
+import AlertRulesEditor from './components/AlertRulesEditor';
+import { PlanEntry, monthOf, planMonths } from './utils/plan';
+import { loadPlans, savePlans } from './services/plans';
+import PlanTracking from './components/PlanTracking';
+import PlanEditor from './components/PlanEditor';
+import { DayMark, DayMarksMode, chartMarkers } from './utils/calendar';
+import { loadDayMarks, saveDayMarks } from './services/dayMarks';
+import CalendarAnalysis from './components/CalendarAnalysis';
+import { RowQuery } from './utils/analyticsEngine';
+import { runAnalytics } from './services/analytics';
+import { useAnalytics, useAnalyticsPending, useAnalyticsErrors } from './hooks/useAnalytics';
+import {
+  StoredDataset, RowDelta, SnapshotKind, SnapshotInfo, loadDataset, replaceDataset, upsertDataset, clearDataset,
+  listSnapshots, saveSnapshot, loadSnapshot, deleteSnapshot
+} from './services/datasetStore';
+import SnapshotHistory from './components/SnapshotHistory';
+import { CustomMetric, customMetricKey, isCustomMetricKey, compileMetrics } from './utils/metrics';
+import { loadCustomMetrics, saveCustomMetrics } from './services/customMetrics';
+import MetricEditor from './components/MetricEditor';
+import ReportInfo, { StaleDataWarning } from './components/ReportInfo';
+import { CrossFilterTarget, ListFilterField, EMPTY_FILTERS, applyCrossFilter, removeFilterValue, sameFilters, bucketRange } from './utils/crossFilter';
+import { useUndoable } from './hooks/useUndoable';
+import { FormatterContext } from './hooks/useFormatter';
+import FilterBreadcrumb from './components/FilterBreadcrumb';
+import { ReportOptions, ReportKpi, reportTitle } from './utils/report';
+import { loadReportOptions, saveReportOptions } from './services/reportOptions';
+import ReportBuilder from './components/ReportBuilder';
+import PrintReport from './components/PrintReport';
+import AskDataPanel from './components/AskDataPanel';
 
 // --- КОМПОНЕНТЫ ---
 
-const KPICard = ({ title, value, icon: Icon, color }: { title: string, value: string, icon: any, color: string }) => (
+const KPICard = ({ title, value, icon: Icon, color, delta, formatDelta }: {
+  title: string, value: string, icon: any, color: string,
+  delta?: Delta | null, formatDelta?: (v: number) => string
+}) => (
   <div className="bg-white p-6 rounded-[32px] border border-slate-100 shadow-[0_4px_20px_-4px_rgba(0,0,0,0.05)] transition-all hover:shadow-xl">
     <div className="flex justify-between items-start mb-4">
       <div className="w-12 h-12 rounded-2xl flex items-center justify-center" style={{ backgroundColor: `${color}15`, color: color }}>
@@ -98,497 +89,1180 @@ const KPICard = ({ title, value, icon: Icon, color }: { title: string, value: st
     <div className="space-y-1">
       <div className="text-slate-400 text-[10px] font-black uppercase tracking-widest">{title}</div>
       <div className="text-2xl font-black text-slate-900 tracking-tight">{value}</div>
+      {delta && (
+        <div className={`text-xs font-bold ${delta.abs >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>
+          {delta.pct !== null ? formatPercent(delta.pct) : '—'}
+          <span className="text-slate-400 font-medium ml-1">
+            ({delta.abs > 0 ? '+' : ''}{formatDelta ? formatDelta(delta.abs) : formatCompact(delta.abs)})
+          </span>
+        </div>
+      )}
     </div>
   </div>
 );
 
 const App = () => {
+  const [initialView] = useState<DashboardState>(initialDashboardState);
+  const [page, setPage] = useState<DashboardPage>(initialView.page);
   const [data, setData] = useState<NormalizedRow[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState<Filters>({
-    dateFrom: '',
-    dateTo: '',
-    stores: [],
-    categories: [],
-    unitTypes: [],
-  });
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [issues, setIssues] = useState<DataIssue[]>([]);
+  const [reportMeta, setReportMeta] = useState<ReportMeta | null>(null);
+  // Валюта отчёта меняется только со сменой набора; компоненты получают форматтер через контекст
+  const fmt = useMemo(() => createFormatter(reportMeta?.currency), [reportMeta?.currency]);
+
+  // Вычисляемые показатели: формулы компилируются при смене списка и передаются карточкам, графику, сводной и выгрузке
+  const [customMetrics, setCustomMetrics] = useState<CustomMetric[]>(loadCustomMetrics);
+  const [metricsOpen, setMetricsOpen] = useState(false);
+  const compiledMetrics = useMemo(() => compileMetrics(customMetrics), [customMetrics]);
+  const [excludeFlagged, setExcludeFlagged] = useState(initialView.excludeFlagged);
+  const [volumeMode, setVolumeMode] = useState<VolumeMode>(initialView.volumeMode);
+  // Фильтры с историей: клики по графикам и сводной можно отменить и вернуть
+  const [filters, setFilters, filterHistory] = useUndoable<Filters>(initialView.filters, sameFilters);
 
   // Настройки сводной таблицы
-  const [pivotRow, setPivotRow] = useState<keyof NormalizedRow>('category_name');
-  const [pivotCol, setPivotCol] = useState<keyof NormalizedRow>('month');
-  const [pivotVal, setPivotVal] = useState<PivotValueType>('sum_revenue');
+  const [pivotRows, setPivotRows] = useState<PivotDimension[]>(initialView.pivotRows);
+  const [pivotCols, setPivotCols] = useState<PivotDimension[]>(initialView.pivotCols);
+  const [pivotVal, setPivotVal] = useState<PivotValueType>(initialView.pivotVal);
+  const [showPivotDelta, setShowPivotDelta] = useState(initialView.showPivotDelta);
+  const [pivotView, setPivotView] = useState<PivotViewOptions>(initialView.pivotView);
+
+  // Настройки графика динамики
+  const [chartSettings, setChartSettings] = useState<RevenueChartSettings>(initialView.chartSettings);
+
+  // Сравнение с базовым периодом
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>(initialView.comparisonMode);
+  const [compareCustom, setCompareCustom] = useState<DateRange>(initialView.compareCustom);
+
+  // Оповещения
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [seenAlerts, setSeenAlerts] = useState<Set<string>>(loadSeenAlerts);
+  const [rulesOpen, setRulesOpen] = useState(false);
+
+  // Праздники и акции
+  const [dayMarks, setDayMarks] = useState<DayMark[]>(loadDayMarks);
+  const [dayMarksMode, setDayMarksMode] = useState<DayMarksMode>(initialView.dayMarksMode);
+
+  // План продаж
+  const [plans, setPlans] = useState<PlanEntry[]>(loadPlans);
+  const [plansOpen, setPlansOpen] = useState(false);
+
+  // Сохранённые виды
+  const [views, setViews] = useState<SavedView[]>(loadViews);
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(loadDefaultViewId);
+  const [viewsOpen, setViewsOpen] = useState(false);
 
-  const WEBHOOK_URL = 'https://tunasruso.ru/webhook/f9ec92c8-b03f-4a23-be47-10c42f095dc3';
+  // Источники данных
+  const [sources, setSources] = useState<DataSourceConfig[]>(loadSources);
+  const [activeSourceId, setActiveSourceId] = useState<string>(() => loadActiveSourceId(sources));
+  const [sourcesOpen, setSourcesOpen] = useState(false);
+
+  // История загрузок
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  // Отчёт к печати: настройка разделов и открытый предпросмотр
+  const [reportOptions, setReportOptions] = useState<ReportOptions>(loadReportOptions);
+  const [reportBuilderOpen, setReportBuilderOpen] = useState(false);
+  const [printing, setPrinting] = useState(false);
+
+  // Вопросы к данным и недельная сводка
+  const [askOpen, setAskOpen] = useState(false);
+
+  // Свежесть данных и фоновое обновление
+  const [refreshSettings, setRefreshSettings] = useState<RefreshSettings>(loadRefreshSettings);
+  const [lastCheckedAt, setLastCheckedAt] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const activeSource = sources.find(s => s.id === activeSourceId) || sources[0];
 
   const loadData = async () => {
+    if (activeSource.kind === 'file') {
+      setImportOpen(true);
+      return;
+    }
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(WEBHOOK_URL);
-      if (!response.ok) throw new Error(`Ошибка: ${response.status}`);
-      const result = await response.json();
-      
-      const rawRows = Array.isArray(result) ? result : (result.rows || []);
-      if (!rawRows.length) throw new Error("Нет данных от вебхука");
-      
-      const normalized = normalizeData(rawRows);
-      setData(normalized);
-      localStorage.setItem('cached_report_rows', JSON.stringify(normalized));
+      const { rows: rawRows, meta } = await fetchFromSource(activeSource);
+      setLastCheckedAt(new Date().toISOString());
+      const { rows: normalized, issues: found } = await runAnalytics({ type: 'normalize', raw: rawRows });
+      storeDataset({ rows: normalized, issues: found, meta: meta || null }, 'full');
     } catch (err: any) {
       setError(err.message);
-      const cached = localStorage.getItem('cached_report_rows');
-      if (cached) setData(JSON.parse(cached));
+      if (!data.length) restoreStored();
     } finally {
       setLoading(false);
     }
   };
 
-  useEffect(() => {
-    const cached = localStorage.getItem('cached_report_rows');
-    if (cached) {
-      setData(JSON.parse(cached));
+  // Догрузка: источник просят отдать только дни после последнего загруженного, они сливаются с набором.
+  // quiet — фоновый запуск: отсутствие новых дней не считается ошибкой
+  const syncData = async (quiet = false) => {
+    const lastDate = dataDateRange(data.map(r => r.date))?.to;
+    if (activeSource.kind === 'file' || !lastDate) return loadData();
+    setLoading(true);
+    setError(null);
+    try {
+      const since = addDays(lastDate, 1);
+      const { rows: rawRows, meta } = await fetchFromSource(activeSource, since);
+      setLastCheckedAt(new Date().toISOString());
+      const normalized = await runAnalytics({ type: 'normalize', raw: rawRows, idPrefix: `sync-${Date.now().toString(36)}` });
+      // Источник может не поддерживать параметр даты — старые дни отбрасываются и здесь
+      const fresh = normalized.rows.filter(r => r.date >= since);
+      if (!fresh.length) {
+        // Новых дней нет, но источник мог переформировать отчёт — обновляем только meta, без снимка
+        if (meta && meta.generated_at !== reportMeta?.generated_at) {
+          setReportMeta(meta);
+          upsertDataset({ rows: data, issues, meta }, { put: [], removeIds: [] }).catch(err => setError(err.message));
+        }
+        if (!quiet) setError(`Новых данных после ${lastDate} нет`);
+        return;
+      }
+      const freshIds = new Set(fresh.map(r => r.id));
+      const merged = mergeDatasetsWithDelta(
+        { rows: data, issues },
+        { rows: fresh, issues: normalized.issues.filter(i => freshIds.has(i.rowId)) }
+      );
+      storeDataset(
+        { rows: merged.rows, issues: merged.issues, meta: meta || reportMeta },
+        'sync',
+        { put: merged.put, removeIds: merged.removedIds }
+      );
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Без delta набор в базе переписывается целиком; каждая загрузка сохраняется снимком
+  const storeDataset = (next: StoredDataset, kind: SnapshotKind, delta?: RowDelta) => {
+    setData(next.rows);
+    setIssues(next.issues);
+    setReportMeta(next.meta);
+    (delta ? upsertDataset(next, delta) : replaceDataset(next))
+      .then(() => saveSnapshot(next, kind, activeSource.name, delta ? delta.put.length : next.rows.length))
+      .then(setSnapshots)
+      .catch(err => setError(`Не удалось сохранить данные в браузере: ${err?.message || err}`));
+  };
+
+  const restoreStored = async (): Promise<boolean> => {
+    try {
+      const stored = await loadDataset();
+      if (!stored) return false;
+      setData(stored.rows);
+      setIssues(stored.issues);
+      setReportMeta(stored.meta);
+      return true;
+    } catch (err: any) {
+      setError(`Не удалось прочитать сохранённые данные: ${err?.message || err}`);
+      return false;
+    }
+  };
+
+  const applyImport = (mode: ImportMode, result: ImportResult) => {
+    if (mode === 'merge') {
+      const merged = mergeDatasetsWithDelta({ rows: data, issues }, result);
+      storeDataset(
+        { rows: merged.rows, issues: merged.issues, meta: result.meta || reportMeta },
+        'import',
+        { put: merged.put, removeIds: merged.removedIds }
+      );
     } else {
-      loadData();
+      storeDataset({ rows: result.rows, issues: result.issues, meta: result.meta || null }, 'import');
+    }
+    setError(null);
+    setImportOpen(false);
+  };
+
+  const rollbackTo = async (id: string) => {
+    try {
+      storeDataset(await loadSnapshot(id), 'rollback');
+      setHistoryOpen(false);
+    } catch (err: any) {
+      setError(err.message);
     }
+  };
+
+  const removeSnapshot = (id: string) =>
+    deleteSnapshot(id).then(setSnapshots).catch(err => setError(err.message));
+
+  const saveSourceSettings = (next: DataSourceConfig[], nextActiveId: string, nextRefresh: RefreshSettings) => {
+    setSources(next);
+    setActiveSourceId(nextActiveId);
+    saveSources(next);
+    saveActiveSourceId(nextActiveId);
+    setRefreshSettings(nextRefresh);
+    saveRefreshSettings(nextRefresh);
+    setSourcesOpen(false);
+  };
+
+  // Таймер читает свежую версию syncData через ref, иначе замкнул бы набор на момент запуска
+  const autoRefresh = useRef(() => {});
+  autoRefresh.current = () => {
+    if (!loading && !document.hidden) syncData(true);
+  };
+
+  useEffect(() => {
+    if (!refreshSettings.autoRefreshMinutes || activeSource.kind === 'file') return;
+    const timer = setInterval(() => autoRefresh.current(), refreshSettings.autoRefreshMinutes * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [refreshSettings.autoRefreshMinutes, activeSource.id, activeSource.kind]);
+
+  // Возраст данных пересчитывается раз в минуту
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
   }, []);
 
-  // Фильтрация
-  const filteredData = useMemo(() => {
-    return data.filter(d => {
-      if (filters.dateFrom && d.date < filters.dateFrom) return false;
-      if (filters.dateTo && d.date > filters.dateTo) return false;
-      if (filters.stores.length && !filters.stores.includes(d.store_name)) return false;
-      if (filters.categories.length && !filters.categories.includes(d.category_name)) return false;
-      if (filters.unitTypes.length && !filters.unitTypes.includes(d.unit_type)) return false;
-      return true;
-    });
-  }, [data, filters]);
+  const freshness = useMemo(
+    () => data.length ? dataFreshness(reportMeta, snapshots[0]?.createdAt ?? null, now, refreshSettings.staleAfterHours) : null,
+    [data.length, reportMeta, snapshots, now, refreshSettings.staleAfterHours]
+  );
+
+  useEffect(() => {
+    restoreStored().then(found => { if (!found) loadData(); });
+    listSnapshots().then(setSnapshots).catch(() => {});
+  }, []);
+
+  // Текущее состояние всегда отражено в адресе — ссылку можно просто скопировать
+  const dashboardState = useMemo<DashboardState>(() => ({
+    page, filters, excludeFlagged, volumeMode, dayMarksMode, pivotRows, pivotCols, pivotVal, pivotView, showPivotDelta,
+    chartSettings, comparisonMode, compareCustom,
+  }), [page, filters, excludeFlagged, volumeMode, dayMarksMode, pivotRows, pivotCols, pivotVal, pivotView, showPivotDelta, chartSettings, comparisonMode, compareCustom]);
+
+  useEffect(() => {
+    writeStateToUrl(dashboardState);
+  }, [dashboardState]);
+
+  const applyView = (state: DashboardState) => {
+    setPage(state.page);
+    setFilters(state.filters);
+    setExcludeFlagged(state.excludeFlagged);
+    setVolumeMode(state.volumeMode);
+    setDayMarksMode(state.dayMarksMode);
+    setPivotRows(state.pivotRows);
+    setPivotCols(state.pivotCols);
+    setPivotVal(state.pivotVal);
+    setPivotView(state.pivotView);
+    setShowPivotDelta(state.showPivotDelta);
+    setChartSettings(state.chartSettings);
+    setComparisonMode(state.comparisonMode);
+    setCompareCustom(state.compareCustom);
+  };
+
+  const saveViewSettings = (next: SavedView[], nextDefaultId: string | null) => {
+    setViews(next);
+    setDefaultViewId(nextDefaultId);
+    saveViews(next);
+    saveDefaultViewId(nextDefaultId);
+  };
+
+  const flaggedIds = useMemo(() => new Set(issues.map(i => i.rowId)), [issues]);
+
+  // Праздники и акции в режиме исключения убираются из всех показателей, включая базовый период
+  const excludeDates = useMemo(
+    () => dayMarksMode === 'exclude' ? dayMarks.map(m => m.date) : [],
+    [dayMarks, dayMarksMode]
+  );
+  const excludeIds = useMemo(() => excludeFlagged ? Array.from(flaggedIds) : [], [excludeFlagged, flaggedIds]);
+
+  // Период сравнения и быстрые периоды
+  const dataDates = useMemo(() => Array.from(new Set(data.map(d => d.date).filter(isValidISODate))).sort(), [data]);
+  const dataRange = useMemo(() => dataDateRange(dataDates), [dataDates]);
+  const currentRange = useMemo<DateRange | null>(() => {
+    if (!dataRange) return null;
+    return { from: filters.dateFrom || dataRange.from, to: filters.dateTo || dataRange.to };
+  }, [dataRange, filters.dateFrom, filters.dateTo]);
+  const baseRange = useMemo(() => {
+    if (!currentRange) return null;
+    return comparisonRange(comparisonMode, currentRange, compareCustom);
+  }, [comparisonMode, currentRange, compareCustom]);
+
+  const computing = useAnalyticsPending();
+  useAnalyticsErrors(message => setError(`Не удалось пересчитать показатели: ${message}`));
+
+  // Фильтрация и агрегаты считаются в воркере по индексам; сюда приходят номера строк и итоги
+  useEffect(() => {
+    runAnalytics({ type: 'setRows', rows: data })
+      .catch(err => setError(`Не удалось пересчитать показатели: ${err.message}`));
+  }, [data]);
+
+  const rowQuery = useMemo<RowQuery>(
+    () => ({ filters, excludeIds, excludeDates, volumeMode }),
+    [filters, excludeIds, excludeDates, volumeMode]
+  );
+  const baseQuery = useMemo<RowQuery | null>(
+    () => baseRange ? { ...rowQuery, filters: { ...filters, dateFrom: baseRange.from, dateTo: baseRange.to } } : null,
+    [rowQuery, filters, baseRange]
+  );
+  // Календарь показывает все даты: выбранный период в нём только подсвечивается
+  const calendarQuery = useMemo<RowQuery>(
+    () => ({ filters: { ...filters, dateFrom: '', dateTo: '' }, excludeIds, excludeDates: [], volumeMode: 'native' }),
+    [filters, excludeIds]
+  );
+  // Топ категорий не сужается собственным фильтром: выбранные подсвечиваются, к ним можно добавить другие
+  const categoryQuery = useMemo<RowQuery>(
+    () => ({ ...rowQuery, filters: { ...filters, categories: [] } }),
+    [rowQuery, filters]
+  );
+
+  // Номера строк относятся к набору, по которому считался запрос, — со старым набором они не сопоставляются
+  const current = useAnalytics({ type: 'query', query: rowQuery }, [data, rowQuery], r => ({ ...r, data }));
+  const base = useAnalytics(baseQuery && { type: 'query', query: baseQuery }, [data, baseQuery], r => ({ ...r, data }));
+  const calendar = useAnalytics({ type: 'query', query: calendarQuery }, [data, calendarQuery], r => ({ ...r, data }));
+
+  const rowsOf = (result: { indices: Int32Array, data: NormalizedRow[] } | null): NormalizedRow[] =>
+    result && result.data === data ? Array.from(result.indices, i => data[i]) : [];
+
+  const selectedData = useMemo(() => rowsOf(current), [current, data]);
+  const calendarRows = useMemo(() => rowsOf(calendar), [calendar, data]);
+
+  const saveDayMarkList = (next: DayMark[]) => {
+    setDayMarks(next);
+    saveDayMarks(next);
+  };
+
+  // Пересчёт единиц делает объёмы весового и штучного товара сопоставимыми во всех показателях
+  const filteredData = useMemo(() => convertUnits(selectedData, volumeMode), [selectedData, volumeMode]);
+  const unconverted = useMemo(() => unconvertedCount(selectedData, volumeMode), [selectedData, volumeMode]);
+  const hasComparison = !!baseQuery;
 
   // Расчет KPI
   const stats = useMemo(() => {
-    const total = filteredData.reduce((acc, curr) => ({
-      rev: acc.rev + curr.revenue_rub,
-      chk: acc.chk + curr.checks,
-      pcs: acc.pcs + curr.pieces,
-      wgt: acc.wgt + curr.weight_kg,
-    }), { rev: 0, chk: 0, pcs: 0, wgt: 0 });
+    const total = current?.totals || computeTotals([]);
+    const baseTotals = baseQuery && base ? base.totals : null;
 
     return {
-      revenue: formatCurrency(total.rev),
-      checks: formatCompact(total.chk),
-      pieces: formatCompact(total.pcs),
-      weight: formatWeight(total.wgt),
-      atv: formatCurrency(total.chk > 0 ? total.rev / total.chk : 0),
-      upt: (total.chk > 0 ? total.pcs / total.chk : 0).toFixed(2),
+      revenue: fmt.currency(total.revenue),
+      checks: formatCompact(total.checks),
+      pieces: formatCompact(total.pieces),
+      weight: formatWeight(total.weight),
+      atv: fmt.currency(total.atv),
+      upt: total.upt.toFixed(2),
+      totals: total,
+      baseTotals,
+      deltas: compareTotals(total, baseTotals),
     };
-  }, [filteredData]);
+  }, [current, base, baseQuery, fmt]);
 
-  // Логика сводной таблицы
-  const pivotTable = useMemo(() => {
-    const rowKeys = Array.from(new Set(filteredData.map(d => String(d[pivotRow])))).sort();
-    const colKeys = Array.from(new Set(filteredData.map(d => String(d[pivotCol])))).sort((a, b) => {
-      if (!isNaN(Number(a)) && !isNaN(Number(b))) return Number(a) - Number(b);
-      return a.localeCompare(b);
-    });
-    
-    const matrix: Record<string, Record<string, number>> = {};
-    rowKeys.forEach(r => {
-      matrix[r] = {};
-      colKeys.forEach(c => matrix[r][c] = 0);
+  // Карточки вычисляемых показателей: формула по суммам выборки и базового периода
+  const customKpis = useMemo(() => {
+    const acc = current?.metrics;
+    const baseAcc = baseQuery && base ? base.metrics : null;
+    return Array.from(compiledMetrics.values()).filter(c => c.metric.showInKpi).map(({ metric, evaluate }) => {
+      const value = acc ? evaluate(acc, acc) : 0;
+      return { metric, value, delta: baseAcc ? computeDelta(value, evaluate(baseAcc, baseAcc)) : null };
     });
+  }, [current, base, baseQuery, compiledMetrics]);
 
-    // Для расчета ATV/UPT в итогах нужно хранить промежуточные суммы
-    const matrixAux: Record<string, Record<string, { rev: number, chk: number, pcs: number }>> = {};
-    rowKeys.forEach(r => {
-      matrixAux[r] = {};
-      colKeys.forEach(c => matrixAux[r][c] = { rev: 0, chk: 0, pcs: 0 });
-    });
+  // Одни и те же карточки показываются на дашборде и попадают в печатный отчёт
+  const kpiCards = useMemo<(ReportKpi & { icon: any, color: string })[]>(() => [
+    { title: 'Выручка', value: stats.revenue, icon: ICONS.CurrencyDollar, color: '#FF5C35', delta: stats.deltas.revenue, formatDelta: fmt.currency },
+    { title: 'Чеки', value: stats.checks, icon: ICONS.Tag, color: '#3BA3F8', delta: stats.deltas.checks },
+    { title: 'Ср. чек (ATV)', value: stats.atv, icon: ICONS.TrendingUp, color: '#10B981', delta: stats.deltas.atv, formatDelta: fmt.currency },
+    { title: volumeMode === 'pieces' ? 'Штуки (с пересчётом)' : 'Штуки', value: stats.pieces, icon: ICONS.Package, color: '#F59E0B', delta: stats.deltas.pieces },
+    { title: 'UPT', value: stats.upt, icon: ICONS.TrendingUp, color: '#8B5CF6', delta: stats.deltas.upt, formatDelta: v => v.toFixed(2) },
+    { title: volumeMode === 'kg' ? 'Вес (с пересчётом)' : 'Вес', value: stats.weight, icon: ICONS.Package, color: '#EC4899', delta: stats.deltas.weight, formatDelta: formatWeight },
+    ...customKpis.map(({ metric, value, delta }, i) => ({
+      title: metric.name,
+      value: fmt.metricValue(value, metric.format),
+      icon: ICONS.TrendingUp,
+      color: COLORS[i % COLORS.length],
+      delta,
+      formatDelta: (v: number) => fmt.metricValue(v, metric.format),
+    })),
+  ], [stats, customKpis, volumeMode, fmt]);
 
-    filteredData.forEach(d => {
-      const r = String(d[pivotRow]);
-      const c = String(d[pivotCol]);
-      
-      matrixAux[r][c].rev += d.revenue_rub;
-      matrixAux[r][c].chk += d.checks;
-      matrixAux[r][c].pcs += d.pieces;
-
-      switch(pivotVal) {
-        case 'sum_revenue': matrix[r][c] += d.revenue_rub; break;
-        case 'sum_checks': matrix[r][c] += d.checks; break;
-        case 'sum_pieces': matrix[r][c] += d.pieces; break;
-        case 'sum_weight': matrix[r][c] += d.weight_kg; break;
-        case 'calc_atv': matrix[r][c] = matrixAux[r][c].chk > 0 ? matrixAux[r][c].rev / matrixAux[r][c].chk : 0; break;
-        case 'calc_upt': matrix[r][c] = matrixAux[r][c].chk > 0 ? matrixAux[r][c].pcs / matrixAux[r][c].chk : 0; break;
-      }
-    });
+  // Удалённый показатель не должен остаться выбранным в сводной или на графике
+  const saveMetricSettings = (next: CustomMetric[]) => {
+    setCustomMetrics(next);
+    saveCustomMetrics(next);
+    const exists = (key: string) => next.some(m => customMetricKey(m.id) === key);
+    if (isCustomMetricKey(pivotVal) && !exists(pivotVal)) setPivotVal('sum_revenue');
+    if (isCustomMetricKey(chartSettings.metric) && !exists(chartSettings.metric)) setChartSettings(cs => ({ ...cs, metric: 'revenue' }));
+    setMetricsOpen(false);
+  };
+
+  // Строки без фильтров: оповещения и план считаются по магазинам целиком
+  const cleanData = useMemo(
+    () => excludeFlagged ? data.filter(d => !flaggedIds.has(d.id)) : data,
+    [data, excludeFlagged, flaggedIds]
+  );
+
+  // Планы попадают в сводную, только когда выбран плановый показатель: месяцы периода и выбранные магазины
+  const plansFor = (range: DateRange | null): PlanEntry[] => {
+    if (!isPlanValue(pivotVal) || !range) return [];
+    const from = monthOf(range.from);
+    const to = monthOf(range.to);
+    return plans.filter(p => p.month >= from && p.month <= to && (!filters.stores.length || filters.stores.includes(p.store)));
+  };
+
+  // Логика сводной таблицы: пока воркер считает новый разрез, показывается пустая сводная нужной формы
+  const pivotResult = useAnalytics(
+    { type: 'pivot', query: rowQuery, rowDims: pivotRows, colDims: pivotCols, plans: plansFor(currentRange), detailed: isCustomMetricKey(pivotVal) },
+    [data, rowQuery, pivotRows, pivotCols, pivotVal, plans, currentRange]
+  );
+  const pivotTable = useMemo(() => {
+    const sameShape = pivotResult && pivotResult.rowDims.join() === pivotRows.join() && pivotResult.colDims.join() === pivotCols.join();
+    return sameShape ? pivotResult : buildPivot([], pivotRows, pivotCols);
+  }, [pivotResult, pivotRows, pivotCols]);
+
+  // Итоги того же разреза за базовый период для колонки изменения
+  const basePivot = useAnalytics(
+    showPivotDelta && baseQuery ? { type: 'pivot', query: baseQuery, rowDims: pivotRows, colDims: pivotCols, plans: plansFor(baseRange), detailed: isCustomMetricKey(pivotVal) } : null,
+    [data, showPivotDelta, baseQuery, pivotRows, pivotCols, pivotVal, plans, baseRange]
+  );
+
+  const savePlanSettings = (next: PlanEntry[]) => {
+    setPlans(next);
+    savePlans(next);
+    setPlansOpen(false);
+  };
+
+  // Правила и поиск аномалий пересчитываются при каждой загрузке данных; фильтры на них не влияют
+  const alerts = useMemo(() => collectAlerts(cleanData, alertRules, fmt), [cleanData, alertRules, fmt]);
+
+  const markAlertsSeen = (ids: string[]) => {
+    const next = new Set(seenAlerts);
+    ids.forEach(id => next.add(id));
+    setSeenAlerts(next);
+    saveSeenAlerts(next);
+  };
 
-    return { rowKeys, colKeys, matrix, matrixAux };
-  }, [filteredData, pivotRow, pivotCol, pivotVal]);
+  const saveRules = (next: AlertRule[]) => {
+    setAlertRules(next);
+    saveAlertRules(next);
+    setRulesOpen(false);
+  };
+
+  // Прогноз выручки продолжает график динамики
+  const forecast = useMemo(() => {
+    if (!chartSettings.forecast || !canForecast(chartSettings)) return null;
+    return forecastSeries(filteredData, chartSettings.granularity as ForecastGranularity, chartSettings.forecastMethod, chartSettings.forecastHorizon);
+  }, [filteredData, chartSettings]);
 
   // Данные для графиков
-  const chartData = useMemo(() => {
-    const timeMap: Record<string, number> = {};
-    const catMap: Record<string, number> = {};
+  // Ряд динамики и топ категорий тоже считает воркер; базовый период накладывается на текущий по соответствующим дням
+  const series = useAnalytics(
+    {
+      type: 'series',
+      query: rowQuery,
+      options: {
+        granularity: chartSettings.granularity,
+        metric: chartSettings.metric,
+        customMetric: isCustomMetricKey(chartSettings.metric) ? compiledMetrics.get(chartSettings.metric)?.metric || null : null,
+        maWindow: chartSettings.showMA ? DEFAULT_MA_WINDOW[chartSettings.granularity] : 0,
+        stackByStore: chartSettings.stackByStore,
+        compare: baseQuery && currentRange && baseRange
+          ? { query: baseQuery, mode: comparisonMode, current: currentRange, base: baseRange }
+          : null,
+      },
+    },
+    [data, rowQuery, baseQuery, chartSettings.granularity, chartSettings.metric, chartSettings.showMA, chartSettings.stackByStore, comparisonMode, currentRange, baseRange, compiledMetrics]
+  );
+  const categoryPivot = useAnalytics(
+    { type: 'pivot', query: categoryQuery, rowDims: ['category_name'], colDims: [], plans: [], detailed: false },
+    [data, categoryQuery]
+  );
 
-    filteredData.forEach(d => {
-      timeMap[d.date] = (timeMap[d.date] || 0) + d.revenue_rub;
-      catMap[d.category_name] = (catMap[d.category_name] || 0) + d.revenue_rub;
-    });
+  const chartData = useMemo(() => {
+    const time = {
+      stores: series?.stores || [],
+      points: forecast && series
+        ? withForecast(series.points, forecast, chartSettings.granularity as ForecastGranularity)
+        : series?.points || [],
+    };
 
-    const time = Object.entries(timeMap)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => a.name.localeCompare(b.name));
+    const markers = chartMarkers(
+      time.points,
+      chartSettings.granularity,
+      dayMarksMode === 'highlight' ? dayMarks : [],
+      alertsForFilters(alerts, filters.stores, filters.categories)
+    );
 
-    const categories = Object.entries(catMap)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value)
-      .slice(0, 10);
+    return { time, categories: topCategories(categoryPivot), markers };
+  }, [series, categoryPivot, chartSettings.granularity, forecast, alerts, filters.stores, filters.categories, dayMarks, dayMarksMode]);
 
-    return { time, categories };
-  }, [filteredData]);
+  // На дашборде топ категорий подсвечивает выбор, а в печатном отчёте остаются только выбранные
+  const reportCategories = filters.categories.length
+    ? chartData.categories.filter(c => filters.categories.includes(c.name))
+    : chartData.categories;
 
   const uniqueStores = useMemo(() => Array.from(new Set(data.map(d => d.store_name))).sort(), [data]);
   const uniqueCats = useMemo(() => Array.from(new Set(data.map(d => d.category_name))).sort(), [data]);
 
-  const exportCSV = () => {
+  // --- ПЕРЕКРЁСТНЫЕ ФИЛЬТРЫ ---
+
+  const crossFilter = (targets: CrossFilterTarget[], multi: boolean) =>
+    setFilters(f => applyCrossFilter(f, targets, multi));
+
+  const removeFilter = (field: ListFilterField | 'dates', value?: string) =>
+    setFilters(f => removeFilterValue(f, field, value));
+
+  // Ctrl+Z / Ctrl+Shift+Z (или Ctrl+Y) отменяют и возвращают изменения фильтров, кроме ввода в полях
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      // Физическая клавиша, а не символ: в русской раскладке e.key — «я» и «н»
+      if (e.code === 'KeyZ' && !e.shiftKey) filterHistory.undo();
+      else if ((e.code === 'KeyZ' && e.shiftKey) || e.code === 'KeyY') filterHistory.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [filterHistory.undo, filterHistory.redo]);
+
+  const handleExport = (format: 'xlsx' | 'csv') => {
+    setExportOpen(false);
     if (!filteredData.length) return;
-    const headers = ["Дата", "Магазин", "Категория", "Выручка", "Чеки", "Штуки", "Вес"].join(',');
-    const rows = filteredData.map(r => [
-      r.date, r.store_name, r.category_name, r.revenue_rub, r.checks, r.pieces, r.weight_kg
-    ].join(',')).join('\n');
-    const blob = new Blob(["\uFEFF" + headers + '\n' + rows], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = 'sales_report.csv';
-    link.click();
+    if (format === 'csv') {
+      exportCSV(filteredData);
+      return;
+    }
+    exportWorkbook({
+      rows: filteredData,
+      totals: stats.totals,
+      baseTotals: stats.baseTotals,
+      filters,
+      sourceName: activeSource.name,
+      excludeFlagged,
+      volumeMode,
+      pivot: pivotTable,
+      basePivot,
+      pivotVal,
+      pivotView,
+      customMetrics: compiledMetrics,
+      fmt,
+    });
   };
 
   const handleClear = () => {
     setData([]);
-    localStorage.removeItem('cached_report_rows');
+    setIssues([]);
+    setReportMeta(null);
+    // Снимки остаются: очищенный набор можно вернуть из истории
+    clearDataset().catch(err => setError(err.message));
   };
 
   return (
-    <div className="min-h-screen flex flex-col xl:flex-row bg-[#F8FAFC]">
-      {/* Боковая панель */}
-      <aside className="w-full xl:w-80 bg-white border-b xl:border-r border-slate-100 p-8 flex flex-col gap-8 shrink-0 overflow-y-auto max-h-screen">
-        <div className="flex items-center gap-3">
-          <div className="w-10 h-10 bg-[#FF5C35] rounded-xl flex items-center justify-center shadow-lg shadow-orange-200">
-            <ICONS.TrendingUp className="text-white w-6 h-6" />
+    <FormatterContext value={fmt}>
+      <div className="min-h-screen flex flex-col xl:flex-row bg-[#F8FAFC]">
+        {/* Боковая панель */}
+        <aside className="w-full xl:w-80 bg-white border-b xl:border-r border-slate-100 p-8 flex flex-col gap-8 shrink-0 overflow-y-auto max-h-screen print:hidden">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-[#FF5C35] rounded-xl flex items-center justify-center shadow-lg shadow-orange-200">
+              <ICONS.TrendingUp className="text-white w-6 h-6" />
+            </div>
+            <span className="text-2xl font-black tracking-tight">TunasReport</span>
           </div>
-          <span className="text-2xl font-black tracking-tight">TunasReport</span>
-        </div>
 
-        <div className="space-y-6">
-          <div className="space-y-2">
-            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Период</label>
+          <div className="space-y-6">
             <div className="space-y-2">
-              <input 
-                type="date" 
-                value={filters.dateFrom} 
-                onChange={e => setFilters(f => ({ ...f, dateFrom: e.target.value }))}
-                className="w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500"
-              />
-              <input 
-                type="date" 
-                value={filters.dateTo} 
-                onChange={e => setFilters(f => ({ ...f, dateTo: e.target.value }))}
-                className="w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500"
-              />
-            </div>
-            <div className="flex flex-wrap gap-2 mt-2">
-              {[7, 8, 9, 10, 11, 12].map(m => (
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Источник</label>
+              <div className="flex gap-2">
+                <select 
+                  value={activeSource.id}
+                  onChange={e => { setActiveSourceId(e.target.value); saveActiveSourceId(e.target.value); }}
+                  className="flex-1 min-w-0 bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500"
+                >
+                  {sources.map(s => (
+                    <option key={s.id} value={s.id}>{s.name}</option>
+                  ))}
+                </select>
                 <button 
-                  key={m}
-                  onClick={() => setFilters(f => ({ ...f, dateFrom: `2025-${String(m).padStart(2, '0')}-01`, dateTo: `2025-${String(m).padStart(2, '0')}-31` }))}
-                  className="px-3 py-1 bg-slate-100 hover:bg-orange-100 text-[10px] font-bold rounded-lg transition"
+                  onClick={() => setSourcesOpen(true)}
+                  title="Настроить источники"
+                  className="w-12 shrink-0 bg-slate-50 hover:bg-orange-100 rounded-2xl flex items-center justify-center text-slate-500 transition"
                 >
-                  {MONTH_NAMES[m-1]}
+                  <ICONS.Cog className="w-4 h-4" />
                 </button>
-              ))}
+              </div>
             </div>
-          </div>
 
-          <div className="space-y-2">
-            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Магазин</label>
-            <div className="max-h-40 overflow-y-auto space-y-1 pr-2">
-              {uniqueStores.map(s => (
-                <label key={s} className="flex items-center gap-2 p-2 hover:bg-slate-50 rounded-xl cursor-pointer">
-                  <input 
-                    type="checkbox" 
-                    checked={filters.stores.includes(s)}
-                    onChange={e => {
-                      const next = e.target.checked ? [...filters.stores, s] : filters.stores.filter(x => x !== s);
-                      setFilters(f => ({ ...f, stores: next }));
-                    }}
-                    className="w-4 h-4 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
-                  />
-                  <span className="text-sm font-medium text-slate-600 truncate">{s}</span>
-                </label>
-              ))}
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Период</label>
+              <div className="space-y-2">
+                <input 
+                  type="date" 
+                  value={filters.dateFrom} 
+                  onChange={e => setFilters(f => ({ ...f, dateFrom: e.target.value }))}
+                  className="w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500"
+                />
+                <input 
+                  type="date" 
+                  value={filters.dateTo} 
+                  onChange={e => setFilters(f => ({ ...f, dateTo: e.target.value }))}
+                  className="w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500"
+                />
+              </div>
+              <PeriodPresets
+                dates={dataDates}
+                value={{ from: filters.dateFrom, to: filters.dateTo }}
+                onChange={range => setFilters(f => ({ ...f, dateFrom: range.from, dateTo: range.to }))}
+              />
             </div>
-          </div>
 
-          <div className="space-y-2">
-            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Категория</label>
-            <div className="max-h-40 overflow-y-auto space-y-1 pr-2">
-              {uniqueCats.map(c => (
-                <label key={c} className="flex items-center gap-2 p-2 hover:bg-slate-50 rounded-xl cursor-pointer">
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Сравнение</label>
+              <select 
+                value={comparisonMode}
+                onChange={e => setComparisonMode(e.target.value as ComparisonMode)}
+                className="w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500"
+              >
+                {(Object.keys(COMPARISON_LABELS) as ComparisonMode[]).map(m => (
+                  <option key={m} value={m}>{COMPARISON_LABELS[m]}</option>
+                ))}
+              </select>
+              {comparisonMode === 'custom' && (
+                <div className="space-y-2">
+                  <input 
+                    type="date" 
+                    value={compareCustom.from} 
+                    onChange={e => setCompareCustom(r => ({ ...r, from: e.target.value }))}
+                    className="w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500"
+                  />
                   <input 
-                    type="checkbox" 
-                    checked={filters.categories.includes(c)}
-                    onChange={e => {
-                      const next = e.target.checked ? [...filters.categories, c] : filters.categories.filter(x => x !== c);
-                      setFilters(f => ({ ...f, categories: next }));
-                    }}
-                    className="w-4 h-4 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+                    type="date" 
+                    value={compareCustom.to} 
+                    onChange={e => setCompareCustom(r => ({ ...r, to: e.target.value }))}
+                    className="w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500"
                   />
-                  <span className="text-sm font-medium text-slate-600 truncate">{c}</span>
-                </label>
-              ))}
+                </div>
+              )}
+              {baseRange && (
+                <p className="text-[10px] font-bold text-slate-400 px-2">
+                  База: {baseRange.from} — {baseRange.to}
+                </p>
+              )}
             </div>
-          </div>
 
-          <div className="pt-4 space-y-3">
-            <button 
-              onClick={() => setFilters({ dateFrom: '', dateTo: '', stores: [], categories: [], unitTypes: [] })}
-              className="w-full py-3 text-slate-400 hover:text-orange-500 text-xs font-bold uppercase tracking-widest transition"
-            >
-              Сбросить фильтры
-            </button>
-            <button 
-              onClick={loadData}
-              disabled={loading}
-              className="w-full py-4 bg-orange-500 text-white rounded-[20px] font-black text-xs uppercase tracking-[2px] shadow-lg shadow-orange-200 hover:bg-orange-600 disabled:bg-slate-300 transition-all flex items-center justify-center gap-2"
-            >
-              <ICONS.ArrowPath className={`w-4 h-4 ${loading && 'animate-spin'}`} />
-              {loading ? 'Загрузка...' : 'Обновить данные'}
-            </button>
-          </div>
-        </div>
-      </aside>
-
-      {/* Основной контент */}
-      <main className="flex-1 p-6 xl:p-10 space-y-10 overflow-y-auto h-screen">
-        {error && (
-          <div className="p-4 bg-rose-50 border border-rose-100 rounded-2xl text-rose-500 text-sm font-medium flex justify-between items-center">
-            <span>Ошибка: {error}</span>
-            <button onClick={() => setError(null)} className="text-rose-400 hover:text-rose-600">×</button>
-          </div>
-        )}
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Магазин</label>
+              <div className="max-h-40 overflow-y-auto space-y-1 pr-2">
+                {uniqueStores.map(s => (
+                  <label key={s} className="flex items-center gap-2 p-2 hover:bg-slate-50 rounded-xl cursor-pointer">
+                    <input 
+                      type="checkbox" 
+                      checked={filters.stores.includes(s)}
+                      onChange={e => {
+                        const next = e.target.checked ? [...filters.stores, s] : filters.stores.filter(x => x !== s);
+                        setFilters(f => ({ ...f, stores: next }));
+                      }}
+                      className="w-4 h-4 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+                    />
+                    <span className="text-sm font-medium text-slate-600 truncate">{s}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
 
-        {!data.length && !loading ? (
-          <div className="h-full flex flex-col items-center justify-center space-y-6 text-center">
-            <div className="w-24 h-24 bg-slate-100 rounded-full flex items-center justify-center">
-              <ICONS.Package className="w-12 h-12 text-slate-300" />
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Категория</label>
+              <div className="max-h-40 overflow-y-auto space-y-1 pr-2">
+                {uniqueCats.map(c => (
+                  <label key={c} className="flex items-center gap-2 p-2 hover:bg-slate-50 rounded-xl cursor-pointer">
+                    <input 
+                      type="checkbox" 
+                      checked={filters.categories.includes(c)}
+                      onChange={e => {
+                        const next = e.target.checked ? [...filters.categories, c] : filters.categories.filter(x => x !== c);
+                        setFilters(f => ({ ...f, categories: next }));
+                      }}
+                      className="w-4 h-4 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+                    />
+                    <span className="text-sm font-medium text-slate-600 truncate">{c}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Единицы</label>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(UNIT_TYPE_LABELS) as UnitType[]).map(u => {
+                  const active = filters.unitTypes.includes(u);
+                  return (
+                    <button
+                      key={u}
+                      onClick={() => setFilters(f => ({ ...f, unitTypes: active ? f.unitTypes.filter(x => x !== u) : [...f.unitTypes, u] }))}
+                      className={`px-3 py-1 text-[10px] font-bold rounded-lg transition ${active ? 'bg-orange-500 text-white' : 'bg-slate-100 hover:bg-orange-100'}`}
+                    >
+                      {UNIT_TYPE_LABELS[u]}
+                    </button>
+                  );
+                })}
+              </div>
+              <select
+                value={volumeMode}
+                onChange={e => setVolumeMode(e.target.value as VolumeMode)}
+                className="w-full bg-slate-50 border-none rounded-2xl px-4 py-3 text-sm font-medium focus:ring-2 focus:ring-orange-500"
+              >
+                {(Object.keys(VOLUME_MODE_LABELS) as VolumeMode[]).map(m => (
+                  <option key={m} value={m}>{VOLUME_MODE_LABELS[m]}</option>
+                ))}
+              </select>
+              {unconverted > 0 && (
+                <p className="text-[10px] font-bold text-amber-500 px-2">
+                  Без коэффициента «Шт. в кг» — строк не пересчитано: {unconverted}
+                </p>
+              )}
             </div>
-            <div>
-              <h2 className="text-2xl font-black text-slate-900">Данные не загружены</h2>
-              <p className="text-slate-400 mt-2 max-w-sm">Нажмите кнопку обновления или отправьте данные через вебхук n8n.</p>
+
+            <div className="pt-4 space-y-3">
+              <button 
+                onClick={() => setFilters(EMPTY_FILTERS)}
+                className="w-full py-3 text-slate-400 hover:text-orange-500 text-xs font-bold uppercase tracking-widest transition"
+              >
+                Сбросить фильтры
+              </button>
+              <button 
+                onClick={loadData}
+                disabled={loading}
+                className="w-full py-4 bg-orange-500 text-white rounded-[20px] font-black text-xs uppercase tracking-[2px] shadow-lg shadow-orange-200 hover:bg-orange-600 disabled:bg-slate-300 transition-all flex items-center justify-center gap-2"
+              >
+                <ICONS.ArrowPath className={`w-4 h-4 ${loading && 'animate-spin'}`} />
+                {loading ? 'Загрузка...' : 'Обновить данные'}
+              </button>
+              {data.length > 0 && activeSource.kind !== 'file' && (
+                <button
+                  onClick={() => syncData()}
+                  disabled={loading}
+                  title="Запросить у источника только дни после последнего загруженного"
+                  className="w-full py-3 bg-white border border-slate-100 rounded-[20px] font-black text-xs text-slate-600 uppercase tracking-[2px] hover:bg-slate-50 disabled:opacity-50 transition-all flex items-center justify-center gap-2"
+                >
+                  <ICONS.ArrowPath className="w-4 h-4" />
+                  Догрузить новые дни
+                </button>
+              )}
+              <button 
+                onClick={() => setImportOpen(true)}
+                className="w-full py-3 bg-white border border-slate-100 rounded-[20px] font-black text-xs text-slate-600 uppercase tracking-[2px] hover:bg-slate-50 transition-all flex items-center justify-center gap-2"
+              >
+                <ICONS.Download className="w-4 h-4 rotate-180" />
+                Импорт файла
+              </button>
             </div>
-            <button onClick={loadData} className="px-8 py-4 bg-orange-500 text-white rounded-2xl font-bold shadow-lg hover:bg-orange-600 transition">
-              Загрузить данные
-            </button>
           </div>
-        ) : (
-          <>
-            <header className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        </aside>
+
+        {/* Основной контент */}
+        <main className="flex-1 p-6 xl:p-10 space-y-10 overflow-y-auto h-screen print:hidden">
+          {error && (
+            <div className="p-4 bg-rose-50 border border-rose-100 rounded-2xl text-rose-500 text-sm font-medium flex justify-between items-center">
+              <span>Ошибка: {error}</span>
+              <button onClick={() => setError(null)} className="text-rose-400 hover:text-rose-600">×</button>
+            </div>
+          )}
+
+          {!data.length && !loading ? (
+            <div className="h-full flex flex-col items-center justify-center space-y-6 text-center">
+              <div className="w-24 h-24 bg-slate-100 rounded-full flex items-center justify-center">
+                <ICONS.Package className="w-12 h-12 text-slate-300" />
+              </div>
               <div>
-                <h1 className="text-4xl font-black tracking-tight text-slate-900">Дашборд продаж</h1>
-                <p className="text-slate-400 font-medium mt-1">
-                  Анализ {filteredData.length} строк из {data.length}
-                </p>
+                <h2 className="text-2xl font-black text-slate-900">Данные не загружены</h2>
+                <p className="text-slate-400 mt-2 max-w-sm">Нажмите кнопку обновления, отправьте данные через вебхук n8n или импортируйте файл CSV, XLSX или JSON.</p>
               </div>
               <div className="flex gap-3">
-                <button onClick={exportCSV} className="px-6 py-3 bg-white border border-slate-100 rounded-2xl font-bold text-slate-600 shadow-sm hover:bg-slate-50 transition flex items-center gap-2">
-                  <ICONS.Download className="w-4 h-4" />
-                  Экспорт CSV
+                <button onClick={loadData} className="px-8 py-4 bg-orange-500 text-white rounded-2xl font-bold shadow-lg hover:bg-orange-600 transition">
+                  Загрузить данные
                 </button>
-                <button onClick={handleClear} className="px-6 py-3 bg-white border border-rose-100 rounded-2xl font-bold text-rose-500 shadow-sm hover:bg-rose-50 transition flex items-center gap-2">
-                  <ICONS.Trash className="w-4 h-4" />
-                  Очистить
+                <button onClick={() => setImportOpen(true)} className="px-8 py-4 bg-white border border-slate-100 rounded-2xl font-bold text-slate-600 shadow-sm hover:bg-slate-50 transition">
+                  Импорт файла
                 </button>
               </div>
-            </header>
-
-            {/* Карточки KPI */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6">
-              <KPICard title="Выручка" value={stats.revenue} icon={ICONS.CurrencyDollar} color="#FF5C35" />
-              <KPICard title="Чеки" value={stats.checks} icon={ICONS.Tag} color="#3BA3F8" />
-              <KPICard title="Ср. чек (ATV)" value={stats.atv} icon={ICONS.TrendingUp} color="#10B981" />
-              <KPICard title="Штуки" value={stats.pieces} icon={ICONS.Package} color="#F59E0B" />
-              <KPICard title="UPT" value={stats.upt} icon={ICONS.TrendingUp} color="#8B5CF6" />
-              <KPICard title="Вес" value={stats.weight} icon={ICONS.Package} color="#EC4899" />
             </div>
-
-            {/* Графики */}
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-              <div className="lg:col-span-2 bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
-                <div className="flex items-center justify-between mb-8">
-                  <h3 className="text-xl font-black">Динамика выручки</h3>
-                  <div className="flex items-center gap-2 text-xs font-bold text-slate-400">
-                    <div className="w-3 h-3 rounded-full bg-orange-500"></div>
-                    Продажи по дням
-                  </div>
+          ) : (
+            <>
+              <header className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+                <div>
+                  <h1 className="text-4xl font-black tracking-tight text-slate-900">Дашборд продаж</h1>
+                  <p className="text-slate-400 font-medium mt-1">
+                    Анализ {filteredData.length} строк из {data.length}
+                    <span className="mx-2 text-slate-200">•</span>
+                    <span title={SOURCE_KIND_LABELS[activeSource.kind]}>{activeSource.name}</span>
+                  </p>
+                  <ReportInfo
+                    meta={reportMeta}
+                    freshness={freshness}
+                    lastCheckedAt={lastCheckedAt}
+                    autoRefreshMinutes={activeSource.kind === 'file' ? 0 : refreshSettings.autoRefreshMinutes}
+                  />
                 </div>
-                <div className="h-[350px]">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={chartData.time}>
-                      <defs>
-                        <linearGradient id="colorRev" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="5%" stopColor="#FF5C35" stopOpacity={0.1}/>
-                          <stop offset="95%" stopColor="#FF5C35" stopOpacity={0}/>
-                        </linearGradient>
-                      </defs>
-                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
-                      <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94A3B8' }} dy={10} />
-                      <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94A3B8' }} tickFormatter={(v) => `${(v/1000).toFixed(0)}k`} />
-                      <Tooltip 
-                        contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 10px 30px rgba(0,0,0,0.1)' }}
-                        formatter={(v: any) => [formatCurrency(v), 'Выручка']}
-                      />
-                      <Area type="monotone" dataKey="value" stroke="#FF5C35" strokeWidth={4} fillOpacity={1} fill="url(#colorRev)" />
-                    </AreaChart>
-                  </ResponsiveContainer>
+                <div className="flex gap-3">
+                  <AlertsPanel
+                    alerts={alerts}
+                    seen={seenAlerts}
+                    onMarkSeen={markAlertsSeen}
+                    onOpenRules={() => setRulesOpen(true)}
+                  />
+                  <button onClick={() => setViewsOpen(true)} className="px-6 py-3 bg-white border border-slate-100 rounded-2xl font-bold text-slate-600 shadow-sm hover:bg-slate-50 transition flex items-center gap-2">
+                    <ICONS.Dashboard className="w-4 h-4" />
+                    Виды{views.length > 0 && <span className="text-slate-300">{views.length}</span>}
+                  </button>
+                  <div className="relative">
+                    <button onClick={() => setExportOpen(o => !o)} className="px-6 py-3 bg-white border border-slate-100 rounded-2xl font-bold text-slate-600 shadow-sm hover:bg-slate-50 transition flex items-center gap-2">
+                      <ICONS.Download className="w-4 h-4" />
+                      Экспорт
+                    </button>
+                    {exportOpen && (
+                      <div className="absolute right-0 mt-2 w-56 bg-white border border-slate-100 rounded-2xl shadow-xl p-2 z-20">
+                        <button onClick={() => handleExport('xlsx')} className="w-full text-left px-4 py-3 rounded-xl hover:bg-slate-50 transition">
+                          <div className="text-sm font-bold text-slate-700">Excel (XLSX)</div>
+                          <div className="text-[10px] text-slate-400">Сводная, данные и сводка KPI</div>
+                        </button>
+                        <button onClick={() => handleExport('csv')} className="w-full text-left px-4 py-3 rounded-xl hover:bg-slate-50 transition">
+                          <div className="text-sm font-bold text-slate-700">CSV (;)</div>
+                          <div className="text-[10px] text-slate-400">Отфильтрованные строки</div>
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <button onClick={() => setAskOpen(true)} className="px-6 py-3 bg-white border border-slate-100 rounded-2xl font-bold text-slate-600 shadow-sm hover:bg-slate-50 transition flex items-center gap-2">
+                    <ICONS.Message className="w-4 h-4" />
+                    Спросить данные
+                  </button>
+                  <button onClick={() => setReportBuilderOpen(true)} className="px-6 py-3 bg-white border border-slate-100 rounded-2xl font-bold text-slate-600 shadow-sm hover:bg-slate-50 transition flex items-center gap-2">
+                    <ICONS.Printer className="w-4 h-4" />
+                    Сформировать отчёт
+                  </button>
+                  <button onClick={() => setHistoryOpen(true)} className="px-6 py-3 bg-white border border-slate-100 rounded-2xl font-bold text-slate-600 shadow-sm hover:bg-slate-50 transition flex items-center gap-2">
+                    <ICONS.Calendar className="w-4 h-4" />
+                    История{snapshots.length > 0 && <span className="text-slate-300">{snapshots.length}</span>}
+                  </button>
+                  <button onClick={handleClear} className="px-6 py-3 bg-white border border-rose-100 rounded-2xl font-bold text-rose-500 shadow-sm hover:bg-rose-50 transition flex items-center gap-2">
+                    <ICONS.Trash className="w-4 h-4" />
+                    Очистить
+                  </button>
                 </div>
+              </header>
+
+              {freshness?.stale && (
+                <StaleDataWarning
+                  freshness={freshness}
+                  staleAfterHours={refreshSettings.staleAfterHours}
+                  loading={loading}
+                  onRefresh={() => syncData()}
+                />
+              )}
+
+              <FilterBreadcrumb
+                filters={filters}
+                history={filterHistory}
+                onRemove={removeFilter}
+                onReset={() => setFilters(EMPTY_FILTERS)}
+              />
+
+              <DataQualityPanel
+                issues={issues}
+                excludeFlagged={excludeFlagged}
+                onToggleExclude={setExcludeFlagged}
+              />
+
+              {/* Карточки KPI */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6">
+                {kpiCards.map((card, i) => <KPICard key={`${i}:${card.title}`} {...card} />)}
               </div>
 
-              <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
-                <h3 className="text-xl font-black mb-8">Топ категорий</h3>
-                <div className="h-[350px]">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={chartData.categories} layout="vertical">
-                      <XAxis type="number" hide />
-                      <YAxis type="category" dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#64748B', fontWeight: 'bold' }} width={90} />
-                      <Tooltip cursor={{ fill: '#F8FAFC' }} />
-                      <Bar dataKey="value" radius={[0, 10, 10, 0]}>
-                        {chartData.categories.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                        ))}
-                      </Bar>
-                    </BarChart>
-                  </ResponsiveContainer>
-                </div>
+              <div className="flex bg-white border border-slate-100 rounded-2xl p-1 w-fit shadow-sm">
+                {(Object.keys(PAGE_LABELS) as DashboardPage[]).map(p => (
+                  <button
+                    key={p}
+                    onClick={() => setPage(p)}
+                    className={`px-6 py-2 text-sm font-bold rounded-xl transition ${page === p ? 'bg-orange-500 text-white shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                  >
+                    {PAGE_LABELS[p]}
+                  </button>
+                ))}
               </div>
-            </div>
 
-            {/* Сводная таблица */}
-            <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
-              <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6 mb-10">
-                <h3 className="text-2xl font-black tracking-tight">Сводный анализ</h3>
-                <div className="flex flex-wrap gap-4">
-                  <div className="space-y-1">
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-2">Строки</label>
-                    <select 
-                      value={pivotRow} 
-                      onChange={e => setPivotRow(e.target.value as any)}
-                      className="block w-40 bg-slate-50 border-none rounded-2xl px-4 py-2 text-sm font-bold text-slate-700 focus:ring-2 focus:ring-orange-500"
-                    >
-                      <option value="category_name">Категория</option>
-                      <option value="store_name">Магазин</option>
-                      <option value="year">Год</option>
-                      <option value="month">Месяц</option>
-                    </select>
-                  </div>
-                  <div className="space-y-1">
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-2">Колонки</label>
-                    <select 
-                      value={pivotCol} 
-                      onChange={e => setPivotCol(e.target.value as any)}
-                      className="block w-40 bg-slate-50 border-none rounded-2xl px-4 py-2 text-sm font-bold text-slate-700 focus:ring-2 focus:ring-orange-500"
-                    >
-                      <option value="month">Месяц</option>
-                      <option value="store_name">Магазин</option>
-                      <option value="unit_type">Тип единицы</option>
-                      <option value="quarter">Квартал</option>
-                    </select>
+              {page === 'stores' && <StorePerformance rows={filteredData} />}
+
+              {page === 'categories' && (
+                <>
+                  <CategoryAnalysis rows={filteredData} />
+                  <UnitPriceChart rows={selectedData} />
+                </>
+              )}
+
+              {page === 'calendar' && (
+                <CalendarAnalysis
+                  calendarRows={calendarRows}
+                  rows={filteredData}
+                  range={currentRange}
+                  marks={dayMarks}
+                  marksMode={dayMarksMode}
+                  onMarksChange={saveDayMarkList}
+                  onMarksModeChange={setDayMarksMode}
+                  onSelectRange={(from, to) => setFilters(f => ({ ...f, dateFrom: from, dateTo: to }))}
+                  onSelectStore={store => setFilters(f => ({ ...f, stores: [store] }))}
+                />
+              )}
+
+              {page === 'overview' && (
+                <>
+                  {currentRange && dataRange && (
+                    <PlanTracking
+                      rows={cleanData}
+                      plans={plans}
+                      months={planMonths(dataDates, plans)}
+                      anchorDate={currentRange.to}
+                      lastDate={dataRange.to}
+                      stores={filters.stores}
+                      partialFilters={filters.categories.length > 0 || filters.unitTypes.length > 0}
+                      onEdit={() => setPlansOpen(true)}
+                    />
+                  )}
+
+                  {/* Графики */}
+                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                    <RevenueChart
+                      points={chartData.time.points}
+                      stores={chartData.time.stores}
+                      settings={chartSettings}
+                      onChange={patch => setChartSettings(cs => ({ ...cs, ...patch }))}
+                      comparisonLabel={hasComparison ? COMPARISON_LABELS[comparisonMode] : null}
+                      forecastMape={forecast ? forecast.mape : null}
+                      markers={chartData.markers}
+                      customMetrics={compiledMetrics}
+                      onSelectPoint={(key, multi) => crossFilter([{ field: 'dates', range: bucketRange(key, chartSettings.granularity) }], multi)}
+                    />
+
+                    <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
+                      <h3 className="text-xl font-black mb-1">Топ категорий</h3>
+                      <p className="text-[10px] font-bold text-slate-400 mb-7">Клик — выбрать категорию, Shift+клик — добавить к выбранным</p>
+                      <div className="h-[350px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={chartData.categories} layout="vertical">
+                            <XAxis type="number" hide />
+                            <YAxis type="category" dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#64748B', fontWeight: 'bold' }} width={90} />
+                            <Tooltip cursor={{ fill: '#F8FAFC' }} />
+                            <Bar
+                              dataKey="value"
+                              radius={[0, 10, 10, 0]}
+                              className="cursor-pointer"
+                              onClick={(_, index, e) => {
+                                const name = chartData.categories[index]?.name;
+                                // «Прочие» — не категория, фильтровать по ней нечего
+                                if (name && name !== OTHER_CATEGORY) crossFilter([{ field: 'categories', value: name }], e.shiftKey);
+                              }}
+                            >
+                              {chartData.categories.map((entry, index) => (
+                                <Cell
+                                  key={`cell-${index}`}
+                                  fill={COLORS[index % COLORS.length]}
+                                  fillOpacity={filters.categories.length && !filters.categories.includes(entry.name) ? 0.3 : 1}
+                                />
+                              ))}
+                            </Bar>
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </div>
                   </div>
-                  <div className="space-y-1">
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-2">Показатель</label>
-                    <select 
-                      value={pivotVal} 
-                      onChange={e => setPivotVal(e.target.value as any)}
-                      className="block w-40 bg-slate-50 border-none rounded-2xl px-4 py-2 text-sm font-bold text-slate-700 focus:ring-2 focus:ring-orange-500"
-                    >
-                      <option value="sum_revenue">Выручка</option>
-                      <option value="sum_checks">Чеки</option>
-                      <option value="sum_pieces">Штуки</option>
-                      <option value="sum_weight">Вес</option>
-                      <option value="calc_atv">ATV (Ср. чек)</option>
-                      <option value="calc_upt">UPT</option>
-                    </select>
+
+                  {forecast && (
+                    <ForecastBreakdown
+                      rows={filteredData}
+                      granularity={chartSettings.granularity as ForecastGranularity}
+                      method={chartSettings.forecastMethod}
+                      horizon={chartSettings.forecastHorizon}
+                    />
+                  )}
+
+                  {/* Сводная таблица */}
+                  <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-sm">
+                    <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6 mb-10">
+                      <h3 className="text-2xl font-black tracking-tight">Сводный анализ</h3>
+                      <div className="flex flex-wrap gap-4">
+                        <DimensionLevels label="Строки" value={pivotRows} exclude={pivotCols} min={1} onChange={setPivotRows} />
+                        <DimensionLevels
+                          label="Колонки"
+                          value={pivotCols}
+                          exclude={pivotRows}
+                          min={0}
+                          onChange={dims => {
+                            setPivotCols(dims);
+                            // Ключи колонок меняются вместе с измерениями — сортировка по ним теряет смысл
+                            setPivotView(v => v.sortKey ? { ...v, sortKey: null, sortDir: 'asc' } : v);
+                          }}
+                        />
+                        <div className="space-y-1">
+                          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-2">Показатель</label>
+                          <select 
+                            value={pivotVal} 
+                            onChange={e => setPivotVal(e.target.value as any)}
+                            className="block w-40 bg-slate-50 border-none rounded-2xl px-4 py-2 text-sm font-bold text-slate-700 focus:ring-2 focus:ring-orange-500"
+                          >
+                            {(Object.keys(PIVOT_VALUES) as PivotValueType[]).map(v => (
+                              <option key={v} value={v}>{PIVOT_VALUES[v]}</option>
+                            ))}
+                            {compiledMetrics.size > 0 && (
+                              <optgroup label="Мои показатели">
+                                {Array.from(compiledMetrics, ([key, { metric }]) => (
+                                  <option key={key} value={key}>{metric.name}</option>
+                                ))}
+                              </optgroup>
+                            )}
+                          </select>
+                          <button onClick={() => setMetricsOpen(true)} className="text-[10px] font-bold text-slate-400 hover:text-orange-500 ml-2 transition">
+                            ƒ Настроить показатели
+                          </button>
+                          {isPlanValue(pivotVal) && !supportsPlan(pivotRows, pivotCols) && (
+                            <p className="text-[10px] font-bold text-amber-500 ml-2 max-w-[200px]">План раскладывается только по магазину, году, кварталу и месяцу</p>
+                          )}
+                        </div>
+                        {hasComparison && (
+                          <label className="flex items-center gap-2 self-end pb-2 cursor-pointer">
+                            <input 
+                              type="checkbox" 
+                              checked={showPivotDelta}
+                              onChange={e => setShowPivotDelta(e.target.checked)}
+                              className="w-4 h-4 text-orange-500 rounded border-slate-300 focus:ring-orange-500"
+                            />
+                            <span className="text-sm font-bold text-slate-600">Δ к базе</span>
+                          </label>
+                        )}
+                      </div>
+                    </div>
+
+                    <PivotTable
+                      key={[...pivotRows, '|', ...pivotCols].join(',')}
+                      pivot={pivotTable}
+                      basePivot={basePivot}
+                      pivotVal={pivotVal}
+                      customMetrics={compiledMetrics}
+                      rows={filteredData}
+                      options={pivotView}
+                      onOptionsChange={patch => setPivotView(v => ({ ...v, ...patch }))}
+                      onCrossFilter={crossFilter}
+                    />
                   </div>
-                </div>
-              </div>
+                </>
+              )}
+            </>
+          )}
+        </main>
 
-              <div className="overflow-x-auto -mx-8">
-                <table className="w-full border-collapse">
-                  <thead>
-                    <tr className="bg-slate-50">
-                      <th className="p-6 text-left text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 min-w-[200px] sticky left-0 bg-slate-50 z-10">
-                        {pivotRow === 'category_name' ? 'Категория' : pivotRow === 'store_name' ? 'Магазин' : pivotRow}
-                      </th>
-                      {pivotTable.colKeys.map(c => (
-                        <th key={c} className="p-6 text-center text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 min-w-[120px]">
-                          {pivotCol === 'month' ? MONTH_NAMES[Number(c)-1] : c}
-                        </th>
-                      ))}
-                      <th className="p-6 text-right text-xs font-black text-orange-500 uppercase tracking-widest border-b border-slate-100 bg-orange-50/50 min-w-[140px]">Итого</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-slate-50">
-                    {pivotTable.rowKeys.map(r => {
-                      let rowTotal = 0;
-                      let rowRev = 0;
-                      let rowChk = 0;
-                      let rowPcs = 0;
-                      
-                      return (
-                        <tr key={r} className="hover:bg-slate-50/50 transition group">
-                          <td className="p-6 text-sm font-black text-slate-800 sticky left-0 bg-white group-hover:bg-slate-50 z-10 border-r border-slate-50">
-                            {r}
-                          </td>
-                          {pivotTable.colKeys.map(c => {
-                            const val = pivotTable.matrix[r][c] || 0;
-                            const aux = pivotTable.matrixAux[r][c];
-                            rowRev += aux.rev;
-                            rowChk += aux.chk;
-                            rowPcs += aux.pcs;
-                            
-                            // Суммируемые итоги
-                            if (['sum_revenue', 'sum_checks', 'sum_pieces', 'sum_weight'].includes(pivotVal)) {
-                                rowTotal += val;
-                            }
-
-                            return (
-                              <td key={c} className="p-6 text-center text-sm font-medium text-slate-500">
-                                {val > 0 ? (
-                                  pivotVal.includes('revenue') || pivotVal.includes('atv') ? formatCurrency(val) : formatCompact(val)
-                                ) : '—'}
-                              </td>
-                            );
-                          })}
-                          <td className="p-6 text-right text-sm font-black text-slate-900 bg-orange-50/20">
-                            {(() => {
-                              let finalTotal = rowTotal;
-                              if (pivotVal === 'calc_atv') finalTotal = rowChk > 0 ? rowRev / rowChk : 0;
-                              if (pivotVal === 'calc_upt') finalTotal = rowChk > 0 ? rowPcs / rowChk : 0;
-                              
-                              return pivotVal.includes('revenue') || pivotVal.includes('atv') ? formatCurrency(finalTotal) : formatCompact(finalTotal);
-                            })()}
-                          </td>
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
-              </div>
-            </div>
-          </>
+        {computing && data.length > 0 && (
+          <div className="fixed bottom-6 right-6 z-40 px-4 py-3 bg-white border border-slate-100 rounded-2xl shadow-xl flex items-center gap-2 text-xs font-bold text-slate-500 print:hidden">
+            <ICONS.ArrowPath className="w-4 h-4 text-orange-500 animate-spin" />
+            Пересчёт…
+          </div>
         )}
-      </main>
-    </div>
+
+        {sourcesOpen && (
+          <SourceSettings
+            sources={sources}
+            activeId={activeSource.id}
+            refresh={refreshSettings}
+            onSave={saveSourceSettings}
+            onClose={() => setSourcesOpen(false)}
+          />
+        )}
+
+        {metricsOpen && (
+          <MetricEditor
+            metrics={customMetrics}
+            preview={current?.metrics || null}
+            onSave={saveMetricSettings}
+            onClose={() => setMetricsOpen(false)}
+          />
+        )}
+
+        {rulesOpen && (
+          <AlertRulesEditor
+            rules={alertRules}
+            onSave={saveRules}
+            onClose={() => setRulesOpen(false)}
+          />
+        )}
+
+        {plansOpen && (
+          <PlanEditor
+            plans={plans}
+            stores={uniqueStores}
+            months={planMonths(dataDates, plans)}
+            initialMonth={monthOf(currentRange?.to || dataRange?.to || todayISO())}
+            onSave={savePlanSettings}
+            onClose={() => setPlansOpen(false)}
+          />
+        )}
+
+        {viewsOpen && (
+          <SavedViews
+            views={views}
+            defaultId={defaultViewId}
+            current={dashboardState}
+            onChange={saveViewSettings}
+            onApply={view => { applyView(view.state); setViewsOpen(false); }}
+            onClose={() => setViewsOpen(false)}
+          />
+        )}
+
+        {historyOpen && (
+          <SnapshotHistory
+            snapshots={snapshots}
+            currentRows={data}
+            onRollback={rollbackTo}
+            onDelete={removeSnapshot}
+            onClose={() => setHistoryOpen(false)}
+          />
+        )}
+
+        {reportBuilderOpen && (
+          <ReportBuilder
+            options={reportOptions}
+            hasPivot={pivotTable.rowTree.length > 0}
+            onGenerate={options => {
+              setReportOptions(options);
+              saveReportOptions(options);
+              setReportBuilderOpen(false);
+              setPrinting(true);
+            }}
+            onClose={() => setReportBuilderOpen(false)}
+          />
+        )}
+
+        {printing && (
+          <PrintReport
+            options={reportOptions}
+            title={reportTitle(reportMeta)}
+            meta={reportMeta}
+            sourceName={activeSource.name}
+            range={currentRange}
+            comparison={hasComparison && baseRange ? { label: COMPARISON_LABELS[comparisonMode], range: baseRange } : null}
+            filters={filters}
+            kpis={kpiCards}
+            trend={{ points: chartData.time.points, metric: chartSettings.metric }}
+            categories={reportCategories}
+            rows={filteredData}
+            pivot={{ table: pivotTable, base: basePivot, value: pivotVal, view: pivotView }}
+            customMetrics={compiledMetrics}
+            onClose={() => setPrinting(false)}
+          />
+        )}
+
+        {askOpen && (
+          <AskDataPanel rows={filteredData} onClose={() => setAskOpen(false)} />
+        )}
+
+        {importOpen && (
+          <FileImport
+            hasData={data.length > 0}
+            onApply={applyImport}
+            onClose={() => setImportOpen(false)}
+          />
+        )}
+      </div>
+    </FormatterContext>
   );
 };
 
@@ -0,0 +1,82 @@
+import { AlertRule, AlertRuleKind, ALERT_RULE_KIND_LABELS, ALERT_SCOPE_LABELS } from '../utils/alerts';
+import { SERIES_METRIC_LABELS } from '../utils/timeSeries';
+
+const RULES_KEY = 'alert_rules';
+const SEEN_KEY = 'seen_alerts';
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'rule-store-weekday',
+    name: 'Выручка магазина ниже нормы',
+    kind: 'below_weekday_avg',
+    enabled: true,
+    scope: 'store',
+    metric: 'revenue',
+    threshold: 70,
+    window: 4,
+  },
+  {
+    id: 'rule-atv-drop',
+    name: 'Падение среднего чека',
+    kind: 'metric_drop',
+    enabled: true,
+    scope: 'chain',
+    metric: 'atv',
+    threshold: 15,
+    window: 7,
+  },
+  {
+    id: 'rule-category-zero',
+    name: 'Категория без продаж',
+    kind: 'zero_sales',
+    enabled: true,
+    scope: 'category',
+    metric: 'revenue',
+    threshold: 0,
+    window: 3,
+  },
+];
+
+export const createRule = (kind: AlertRuleKind): AlertRule => ({
+  id: `rule-${Date.now().toString(36)}`,
+  name: 'Новое правило',
+  kind,
+  enabled: true,
+  scope: 'chain',
+  metric: 'revenue',
+  threshold: kind === 'below_weekday_avg' ? 70 : 15,
+  window: kind === 'below_weekday_avg' ? 4 : kind === 'zero_sales' ? 3 : 7,
+});
+
+// --- ХРАНЕНИЕ ---
+
+// Правило с неизвестным видом, разрезом или показателем дало бы пустые подписи и итоги — оно отбрасывается
+const isRule = (r: any): r is AlertRule =>
+  r && typeof r.id === 'string' && typeof r.name === 'string' && typeof r.enabled === 'boolean'
+  && Object.hasOwn(ALERT_RULE_KIND_LABELS, r.kind)
+  && Object.hasOwn(ALERT_SCOPE_LABELS, r.scope)
+  && Object.hasOwn(SERIES_METRIC_LABELS, r.metric)
+  && Number.isFinite(r.threshold) && Number.isFinite(r.window) && r.window > 0;
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RULES_KEY) || 'null');
+    return Array.isArray(parsed) ? parsed.filter(isRule) : DEFAULT_ALERT_RULES;
+  } catch {
+    return DEFAULT_ALERT_RULES;
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) =>
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+
+export const loadSeenAlerts = (): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(SEEN_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
+export const saveSeenAlerts = (ids: Set<string>) =>
+  localStorage.setItem(SEEN_KEY, JSON.stringify(Array.from(ids)));
@@ -0,0 +1,81 @@
+import { NormalizedRow } from '../types';
+import {
+  AnalyticsRequest, AnalyticsResults, AnalyticsEngine, createAnalyticsEngine
+} from '../utils/analyticsEngine';
+
+// --- КЛИЕНТ ВОРКЕРА АНАЛИТИКИ ---
+
+interface PendingRequest {
+  request: AnalyticsRequest;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let local: AnalyticsEngine | null = null;
+let nextId = 1;
+// Последний набор строк нужен, чтобы восстановить состояние при переходе на главный поток
+let lastRows: NormalizedRow[] = [];
+const pending = new Map<number, PendingRequest>();
+const listeners = new Set<(count: number) => void>();
+
+const notify = () => listeners.forEach(l => l(pending.size));
+
+const settle = (id: number, result: any, error?: string) => {
+  const entry = pending.get(id);
+  if (!entry) return;
+  pending.delete(id);
+  if (error !== undefined) entry.reject(new Error(error));
+  else entry.resolve(result);
+  notify();
+};
+
+// Локальный движок отвечает асинхронно, чтобы индикатор загрузки успел отрисоваться
+const runLocally = (id: number, request: AnalyticsRequest) => setTimeout(() => {
+  try {
+    settle(id, local!.handle(request));
+  } catch (err: any) {
+    settle(id, undefined, err?.message || String(err));
+  }
+}, 0);
+
+// Если воркер не поднялся (нет поддержки модульных воркеров, файл не собран), считаем в главном потоке
+const fallBackToMainThread = () => {
+  worker?.terminate();
+  worker = null;
+  if (local) return;
+  local = createAnalyticsEngine();
+  local.handle({ type: 'setRows', rows: lastRows });
+  Array.from(pending.entries()).forEach(([id, entry]) => runLocally(id, entry.request));
+};
+
+const ensureEngine = () => {
+  if (worker || local) return;
+  try {
+    worker = new Worker(new URL('../workers/analytics.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<{ id: number, result?: any, error?: string }>) => settle(e.data.id, e.data.result, e.data.error);
+    worker.onerror = e => {
+      e.preventDefault();
+      fallBackToMainThread();
+    };
+  } catch {
+    fallBackToMainThread();
+  }
+};
+
+export const runAnalytics = <R extends AnalyticsRequest>(request: R): Promise<AnalyticsResults[R['type']]> => {
+  ensureEngine();
+  if (request.type === 'setRows') lastRows = request.rows;
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { request, resolve, reject });
+    notify();
+    if (worker) worker.postMessage({ id, request });
+    else runLocally(id, request);
+  });
+};
+
+export const subscribePending = (listener: (count: number) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,125 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import {
+  DataQuery, QuestionContext, QUERY_METRIC_LABELS, QUERY_GROUP_LABELS, MAX_QUERY_LIMIT, sanitizeQuery
+} from '../utils/dataQuery';
+import { parseQuestion } from '../utils/questionParser';
+import { WeeklyDigest, templateSummary } from '../utils/weeklyDigest';
+import { Formatter } from '../utils/format';
+import { UNIT_TYPE_LABELS } from '../utils/units';
+
+// --- АССИСТЕНТ ПО ДАННЫМ ---
+
+export interface PlannedQuery {
+  query: DataQuery;
+  // Что пришлось поправить в ответе: неизвестный магазин, период вне данных
+  warnings: string[];
+}
+
+// Модель только переводит вопрос в запрос и пишет текст по готовым фактам;
+// считает всегда дашборд. Реализация подменяется — без сети работает локальная
+export interface SalesAssistant {
+  id: 'gemini' | 'local';
+  label: string;
+  planQuery: (question: string, ctx: QuestionContext) => Promise<PlannedQuery>;
+  writeSummary: (digest: WeeklyDigest, fmt: Formatter) => Promise<string>;
+}
+
+// --- ЛОКАЛЬНЫЙ РАЗБОР ---
+
+export const createLocalAssistant = (): SalesAssistant => ({
+  id: 'local',
+  label: 'Локальный разбор',
+  planQuery: async (question, ctx) => parseQuestion(question, ctx),
+  writeSummary: async (digest, fmt) => templateSummary(digest, fmt),
+});
+
+// --- GEMINI ---
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+// Длинные справочники обрезаются: в промпт уходят только названия, не данные
+const CONTEXT_NAMES_LIMIT = 300;
+
+const QUERY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: 'Короткий заголовок ответа на русском' },
+    metric: { type: Type.STRING, enum: Object.keys(QUERY_METRIC_LABELS) },
+    groupBy: { type: Type.STRING, enum: Object.keys(QUERY_GROUP_LABELS) },
+    dateFrom: { type: Type.STRING, description: 'YYYY-MM-DD или пустая строка — с начала данных' },
+    dateTo: { type: Type.STRING, description: 'YYYY-MM-DD или пустая строка — до конца данных' },
+    stores: { type: Type.ARRAY, items: { type: Type.STRING } },
+    categories: { type: Type.ARRAY, items: { type: Type.STRING } },
+    unitTypes: { type: Type.ARRAY, items: { type: Type.STRING, enum: Object.keys(UNIT_TYPE_LABELS) } },
+    compare: { type: Type.STRING, enum: ['none', 'previous', 'last_year'] },
+    sortBy: { type: Type.STRING, enum: ['value', 'change', 'change_pct'] },
+    sortDir: { type: Type.STRING, enum: ['asc', 'desc'] },
+    limit: { type: Type.INTEGER },
+    chart: { type: Type.STRING, enum: ['bar', 'line', 'table'] },
+  },
+  required: ['title', 'metric', 'groupBy', 'dateFrom', 'dateTo', 'stores', 'categories', 'unitTypes', 'compare', 'sortBy', 'sortDir', 'limit', 'chart'],
+};
+
+const names = (list: string[]): string =>
+  list.slice(0, CONTEXT_NAMES_LIMIT).join('; ') + (list.length > CONTEXT_NAMES_LIMIT ? '; …' : '');
+
+const planInstruction = (ctx: QuestionContext): string => [
+  'Ты переводишь вопрос о продажах сети магазинов в JSON-запрос к данным. Сам ничего не считай.',
+  `Показатели metric: ${Object.entries(QUERY_METRIC_LABELS).map(([k, v]) => `${k} — ${v}`).join(', ')}.`,
+  `Группировка groupBy: ${Object.entries(QUERY_GROUP_LABELS).map(([k, v]) => `${k} — ${v}`).join(', ')}.`,
+  'compare: previous — предыдущий период той же длины (для целого месяца — предыдущий месяц), last_year — год назад.',
+  'Для вопросов о падении или росте задай compare и sortBy=change (или change_pct, если спрашивают о процентах); падение — sortDir=asc.',
+  `Данные есть с ${ctx.range?.from || '—'} по ${ctx.range?.to || '—'}; месяц без года — последний такой месяц в этих границах.`,
+  `Магазины (пиши названия точно как здесь): ${names(ctx.stores)}.`,
+  `Категории: ${names(ctx.categories)}.`,
+  `limit — не больше ${MAX_QUERY_LIMIT}. chart: line — для динамики по времени, bar — для сравнения групп, table — для одного числа.`,
+].join('\n');
+
+const summaryInstruction = (fmt: Formatter): string => [
+  'Ты аналитик розничной сети. По переданным фактам напиши сводку за неделю на русском: 4–6 предложений, без заголовков и списков.',
+  'Используй только числа из фактов, ничего не досчитывай и не придумывай. Отметь главное изменение, лидеров роста и падения.',
+  `Суммы — в валюте ${fmt.currencyCode}.`,
+].join('\n');
+
+export const createGeminiAssistant = (apiKey: string): SalesAssistant => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${GEMINI_MODEL})`,
+    planQuery: async (question, ctx) => {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: question,
+        config: {
+          systemInstruction: planInstruction(ctx),
+          responseMimeType: 'application/json',
+          responseSchema: QUERY_SCHEMA,
+        },
+      });
+      let raw: unknown;
+      try {
+        raw = JSON.parse(response.text || '');
+      } catch {
+        throw new Error('Модель вернула ответ не в формате запроса — попробуйте переформулировать вопрос');
+      }
+      return sanitizeQuery(raw, ctx);
+    },
+    writeSummary: async (digest, fmt) => {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: JSON.stringify(digest),
+        config: { systemInstruction: summaryInstruction(fmt) },
+      });
+      const text = response.text?.trim();
+      if (!text) throw new Error('Модель не вернула текст сводки');
+      return text;
+    },
+  };
+};
+
+// Ключ подставляет vite.config.ts из GEMINI_API_KEY; без него — локальный разбор
+export const createDefaultAssistant = (): SalesAssistant => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  return apiKey ? createGeminiAssistant(apiKey) : createLocalAssistant();
+};
@@ -0,0 +1,20 @@
+import { CustomMetric, METRIC_FORMAT_LABELS } from '../utils/metrics';
+
+const METRICS_KEY = 'custom_metrics';
+
+// --- ХРАНЕНИЕ ---
+
+const isMetric = (m: any): m is CustomMetric =>
+  m && typeof m.id === 'string' && typeof m.name === 'string' && typeof m.formula === 'string' && Object.hasOwn(METRIC_FORMAT_LABELS, m.format);
+
+export const loadCustomMetrics = (): CustomMetric[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(METRICS_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(isMetric).map(m => ({ ...m, showInKpi: !!m.showInKpi })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomMetrics = (metrics: CustomMetric[]) =>
+  localStorage.setItem(METRICS_KEY, JSON.stringify(metrics));
@@ -0,0 +1,168 @@
+import { DataSourceConfig, DataSourceKind } from '../types';
+import { SourcePayload, extractPayload } from '../utils/normalize';
+
+const SOURCES_KEY = 'data_sources';
+const ACTIVE_SOURCE_KEY = 'active_source_id';
+
+export const SOURCE_KIND_LABELS: Record<DataSourceKind, string> = {
+  webhook: 'Вебхук n8n',
+  json_url: 'JSON по ссылке',
+  file: 'Локальный файл',
+};
+
+export const DEFAULT_SOURCES: DataSourceConfig[] = [
+  {
+    id: 'n8n-default',
+    name: 'n8n (основной)',
+    kind: 'webhook',
+    url: 'https://tunasruso.ru/webhook/f9ec92c8-b03f-4a23-be47-10c42f095dc3',
+    method: 'GET',
+    headers: {},
+    authToken: '',
+  },
+  {
+    id: 'local-file',
+    name: 'Локальный файл',
+    kind: 'file',
+    url: '',
+    method: 'GET',
+    headers: {},
+    authToken: '',
+  },
+];
+
+export const createSource = (kind: DataSourceKind): DataSourceConfig => ({
+  id: `src-${Date.now().toString(36)}`,
+  name: `Новый источник (${SOURCE_KIND_LABELS[kind]})`,
+  kind,
+  url: '',
+  method: 'GET',
+  headers: {},
+  authToken: '',
+});
+
+// --- ХРАНЕНИЕ НАСТРОЕК ---
+
+const isSource = (s: any): boolean =>
+  s && typeof s.id === 'string' && typeof s.name === 'string' && typeof s.url === 'string'
+  && Object.hasOwn(SOURCE_KIND_LABELS, s.kind) && (s.method === 'GET' || s.method === 'POST');
+
+// Заголовки и токен необязательны: без них запрос уходит как есть
+const sanitizeSource = (s: any): DataSourceConfig => ({
+  id: s.id,
+  name: s.name,
+  kind: s.kind,
+  url: s.url,
+  method: s.method,
+  headers: s.headers && typeof s.headers === 'object' && !Array.isArray(s.headers)
+    ? Object.fromEntries(Object.entries(s.headers).filter(([, v]) => typeof v === 'string')) as Record<string, string>
+    : {},
+  authToken: typeof s.authToken === 'string' ? s.authToken : '',
+});
+
+export const loadSources = (): DataSourceConfig[] => {
+  try {
+    const stored = localStorage.getItem(SOURCES_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    const sources = Array.isArray(parsed) ? parsed.filter(isSource).map(sanitizeSource) : [];
+    return sources.length ? sources : DEFAULT_SOURCES;
+  } catch {
+    return DEFAULT_SOURCES;
+  }
+};
+
+export const saveSources = (sources: DataSourceConfig[]) =>
+  localStorage.setItem(SOURCES_KEY, JSON.stringify(sources));
+
+export const loadActiveSourceId = (sources: DataSourceConfig[]): string => {
+  const stored = localStorage.getItem(ACTIVE_SOURCE_KEY);
+  return sources.some(s => s.id === stored) ? stored! : sources[0].id;
+};
+
+export const saveActiveSourceId = (id: string) =>
+  localStorage.setItem(ACTIVE_SOURCE_KEY, id);
+
+// --- НАСТРОЙКИ ОБНОВЛЕНИЯ ---
+
+const REFRESH_KEY = 'refresh_settings';
+
+export interface RefreshSettings {
+  // Через сколько часов после формирования отчёта данные считаются устаревшими
+  staleAfterHours: number;
+  // Интервал фоновой догрузки, минут; 0 — выключена
+  autoRefreshMinutes: number;
+}
+
+export const DEFAULT_REFRESH_SETTINGS: RefreshSettings = { staleAfterHours: 24, autoRefreshMinutes: 0 };
+
+export const AUTO_REFRESH_OPTIONS: { minutes: number, label: string }[] = [
+  { minutes: 0, label: 'Выключено' },
+  { minutes: 5, label: 'Каждые 5 минут' },
+  { minutes: 15, label: 'Каждые 15 минут' },
+  { minutes: 30, label: 'Каждые 30 минут' },
+  { minutes: 60, label: 'Каждый час' },
+  { minutes: 180, label: 'Каждые 3 часа' },
+];
+
+export const loadRefreshSettings = (): RefreshSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(REFRESH_KEY) || 'null');
+    return {
+      staleAfterHours: parsed?.staleAfterHours > 0 ? Number(parsed.staleAfterHours) : DEFAULT_REFRESH_SETTINGS.staleAfterHours,
+      autoRefreshMinutes: AUTO_REFRESH_OPTIONS.some(o => o.minutes === parsed?.autoRefreshMinutes)
+        ? parsed.autoRefreshMinutes
+        : DEFAULT_REFRESH_SETTINGS.autoRefreshMinutes,
+    };
+  } catch {
+    return DEFAULT_REFRESH_SETTINGS;
+  }
+};
+
+export const saveRefreshSettings = (settings: RefreshSettings) =>
+  localStorage.setItem(REFRESH_KEY, JSON.stringify(settings));
+
+// --- ЗАГРУЗКА ---
+
+const buildHeaders = (source: DataSourceConfig): Record<string, string> => {
+  const headers: Record<string, string> = { ...source.headers };
+  if (source.authToken) headers['Authorization'] = `Bearer ${source.authToken}`;
+  return headers;
+};
+
+// Параметр запроса, которым источнику передаётся первая нужная дата при догрузке
+export const SINCE_PARAM = 'date_from';
+
+const withSince = (url: string, since?: string): string => {
+  if (!since) return url;
+  const parsed = new URL(url, window.location.href);
+  parsed.searchParams.set(SINCE_PARAM, since);
+  return parsed.toString();
+};
+
+// since — догрузка: источник просят отдать только дни начиная с этой даты, пустой ответ не ошибка
+export const fetchFromSource = async (source: DataSourceConfig, since?: string): Promise<SourcePayload> => {
+  if (source.kind === 'file') throw new Error('Файловый источник загружается через импорт');
+  if (!source.url) throw new Error(`У источника «${source.name}» не указан адрес`);
+
+  const url = withSince(source.url, since);
+  const response = source.kind === 'webhook'
+    ? await fetch(url, { method: source.method, headers: buildHeaders(source) })
+    : await fetch(url);
+  if (!response.ok) throw new Error(`Ошибка: ${response.status}`);
+
+  const payload = extractPayload(await response.json());
+  if (!payload.rows.length && !since) throw new Error(`Нет данных от источника «${source.name}»`);
+  return payload;
+};
+
+// Заголовки редактируются как текст «Имя: значение» по одному на строку
+export const headersToText = (headers: Record<string, string>): string =>
+  Object.entries(headers).map(([k, v]) => `${k}: ${v}`).join('\n');
+
+export const textToHeaders = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text.split('\n')
+      .map(line => line.split(/:(.*)/s).map(part => part?.trim()))
+      .filter(([k, v]) => k && v)
+      .map(([k, v]) => [k, v])
+  );
@@ -0,0 +1,216 @@
+import { NormalizedRow, DataIssue, ReportMeta } from '../types';
+import { dataDateRange } from '../utils/dates';
+
+// --- ХРАНИЛИЩЕ НАБОРА ДАННЫХ (IndexedDB) ---
+
+const DB_NAME = 'tunas_report';
+const DB_VERSION = 1;
+const ROWS_STORE = 'rows';
+const STATE_STORE = 'state';
+const SNAPSHOTS_STORE = 'snapshots';
+const SNAPSHOT_ROWS_STORE = 'snapshot_rows';
+
+// Снимок хранит полную копию строк, поэтому старые удаляются
+const MAX_SNAPSHOTS = 10;
+
+// Прежний кэш в localStorage переносится в базу при первом открытии
+const LEGACY_ROWS_KEY = 'cached_report_rows';
+const LEGACY_ISSUES_KEY = 'cached_report_issues';
+
+export interface StoredDataset {
+  rows: NormalizedRow[];
+  issues: DataIssue[];
+  meta: ReportMeta | null;
+}
+
+// Точечное изменение: новые и обновлённые строки плюс id вытесненных
+export interface RowDelta {
+  put: NormalizedRow[];
+  removeIds: string[];
+}
+
+export type SnapshotKind = 'full' | 'sync' | 'import' | 'rollback';
+
+export const SNAPSHOT_KIND_LABELS: Record<SnapshotKind, string> = {
+  full: 'Полная загрузка',
+  sync: 'Догрузка новых дней',
+  import: 'Импорт файла',
+  rollback: 'Откат',
+};
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: string;
+  kind: SnapshotKind;
+  sourceName: string;
+  meta: ReportMeta | null;
+  rowCount: number;
+  // Сколько строк добавлено или заменено этой загрузкой
+  changedCount: number;
+  dateFrom: string | null;
+  dateTo: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const rows = db.createObjectStore(ROWS_STORE, { keyPath: 'id' });
+        rows.createIndex('date', 'date');
+        rows.createIndex('store_name', 'store_name');
+        rows.createIndex('category_name', 'category_name');
+        db.createObjectStore(STATE_STORE);
+        db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        db.createObjectStore(SNAPSHOT_ROWS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Неудачное открытие не кэшируется — следующий вызов попробует снова
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const result = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completed = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Транзакция прервана'));
+  });
+
+const writeState = (tx: IDBTransaction, dataset: StoredDataset) => {
+  const state = tx.objectStore(STATE_STORE);
+  state.put(dataset.issues, 'issues');
+  state.put(dataset.meta, 'meta');
+};
+
+// --- ТЕКУЩИЙ НАБОР ---
+
+export const replaceDataset = async (dataset: StoredDataset): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([ROWS_STORE, STATE_STORE], 'readwrite');
+  const rows = tx.objectStore(ROWS_STORE);
+  rows.clear();
+  dataset.rows.forEach(r => rows.put(r));
+  writeState(tx, dataset);
+  return completed(tx);
+};
+
+// Догрузка и слияние переписывают только изменившиеся строки, а не весь набор
+export const upsertDataset = async (dataset: StoredDataset, delta: RowDelta): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([ROWS_STORE, STATE_STORE], 'readwrite');
+  const rows = tx.objectStore(ROWS_STORE);
+  delta.removeIds.forEach(id => rows.delete(id));
+  delta.put.forEach(r => rows.put(r));
+  writeState(tx, dataset);
+  return completed(tx);
+};
+
+const migrateLegacyCache = async (): Promise<StoredDataset | null> => {
+  const cached = localStorage.getItem(LEGACY_ROWS_KEY);
+  if (!cached) return null;
+  const dataset: StoredDataset = {
+    rows: JSON.parse(cached),
+    issues: JSON.parse(localStorage.getItem(LEGACY_ISSUES_KEY) || '[]'),
+    meta: null,
+  };
+  await replaceDataset(dataset);
+  localStorage.removeItem(LEGACY_ROWS_KEY);
+  localStorage.removeItem(LEGACY_ISSUES_KEY);
+  return dataset;
+};
+
+export const loadDataset = async (): Promise<StoredDataset | null> => {
+  const db = await openDb();
+  const tx = db.transaction([ROWS_STORE, STATE_STORE], 'readonly');
+  const [rows, issues, meta] = await Promise.all([
+    result(tx.objectStore(ROWS_STORE).getAll() as IDBRequest<NormalizedRow[]>),
+    result(tx.objectStore(STATE_STORE).get('issues') as IDBRequest<DataIssue[] | undefined>),
+    result(tx.objectStore(STATE_STORE).get('meta') as IDBRequest<ReportMeta | null | undefined>),
+  ]);
+  if (!rows.length) return migrateLegacyCache();
+  return { rows, issues: issues || [], meta: meta || null };
+};
+
+export const clearDataset = async (): Promise<void> => {
+  localStorage.removeItem(LEGACY_ROWS_KEY);
+  localStorage.removeItem(LEGACY_ISSUES_KEY);
+  const db = await openDb();
+  const tx = db.transaction([ROWS_STORE, STATE_STORE], 'readwrite');
+  tx.objectStore(ROWS_STORE).clear();
+  tx.objectStore(STATE_STORE).clear();
+  return completed(tx);
+};
+
+// --- СНИМКИ ---
+
+export const listSnapshots = async (): Promise<SnapshotInfo[]> => {
+  const db = await openDb();
+  const all = await result(db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE).getAll() as IDBRequest<SnapshotInfo[]>);
+  return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Сохраняет снимок набора и возвращает обновлённый список, новые сверху
+export const saveSnapshot = async (
+  dataset: StoredDataset,
+  kind: SnapshotKind,
+  sourceName: string,
+  changedCount: number
+): Promise<SnapshotInfo[]> => {
+  const range = dataDateRange(dataset.rows.map(r => r.date));
+  const info: SnapshotInfo = {
+    id: `snap-${Date.now().toString(36)}`,
+    createdAt: new Date().toISOString(),
+    kind,
+    sourceName,
+    meta: dataset.meta,
+    rowCount: dataset.rows.length,
+    changedCount,
+    dateFrom: range?.from ?? null,
+    dateTo: range?.to ?? null,
+  };
+  const stale = (await listSnapshots()).slice(MAX_SNAPSHOTS - 1);
+
+  const db = await openDb();
+  const tx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_ROWS_STORE], 'readwrite');
+  tx.objectStore(SNAPSHOTS_STORE).put(info);
+  tx.objectStore(SNAPSHOT_ROWS_STORE).put({ id: info.id, rows: dataset.rows, issues: dataset.issues });
+  stale.forEach(s => {
+    tx.objectStore(SNAPSHOTS_STORE).delete(s.id);
+    tx.objectStore(SNAPSHOT_ROWS_STORE).delete(s.id);
+  });
+  await completed(tx);
+  return listSnapshots();
+};
+
+export const loadSnapshot = async (id: string): Promise<StoredDataset> => {
+  const db = await openDb();
+  const tx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_ROWS_STORE], 'readonly');
+  const [info, body] = await Promise.all([
+    result(tx.objectStore(SNAPSHOTS_STORE).get(id) as IDBRequest<SnapshotInfo | undefined>),
+    result(tx.objectStore(SNAPSHOT_ROWS_STORE).get(id) as IDBRequest<{ rows: NormalizedRow[], issues: DataIssue[] } | undefined>),
+  ]);
+  if (!info || !body) throw new Error('Снимок не найден — возможно, он уже удалён');
+  return { rows: body.rows, issues: body.issues, meta: info.meta };
+};
+
+export const deleteSnapshot = async (id: string): Promise<SnapshotInfo[]> => {
+  const db = await openDb();
+  const tx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_ROWS_STORE], 'readwrite');
+  tx.objectStore(SNAPSHOTS_STORE).delete(id);
+  tx.objectStore(SNAPSHOT_ROWS_STORE).delete(id);
+  await completed(tx);
+  return listSnapshots();
+};
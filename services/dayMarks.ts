@@ -0,0 +1,17 @@
+import { DayMark } from '../utils/calendar';
+
+const MARKS_KEY = 'day_marks';
+
+// --- ХРАНЕНИЕ ---
+
+export const loadDayMarks = (): DayMark[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(MARKS_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveDayMarks = (marks: DayMark[]) =>
+  localStorage.setItem(MARKS_KEY, JSON.stringify(marks));
@@ -0,0 +1,214 @@
+import { utils, writeFile, WorkSheet } from 'xlsx';
+import { NormalizedRow, Filters, PivotValueType } from '../types';
+import { Totals, computeDelta } from '../utils/aggregate';
+import { VolumeMode, VOLUME_MODE_LABELS } from '../utils/units';
+import { Formatter } from '../utils/format';
+import { CompiledMetrics, isCustomMetricKey } from '../utils/metrics';
+import {
+  PivotResult, PivotViewOptions, PIVOT_DISPLAY_LABELS, FlatPivotLine, pivotValueLabel, flattenPivot
+} from '../utils/pivot';
+
+// --- КОЛОНКИ ВЫГРУЗКИ СТРОК ---
+
+// Заголовки совпадают с теми, что понимает нормализация, — выгрузку можно загрузить обратно.
+// Производные показатели при загрузке пересчитываются из сумм
+export const ROW_COLUMNS: { key: keyof NormalizedRow, label: string }[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'date', label: 'Дата' },
+  { key: 'store_name', label: 'Магазин' },
+  { key: 'category_name', label: 'Категория товара' },
+  { key: 'unit_raw', label: 'Шт. в кг' },
+  { key: 'unit_type', label: 'Тип единицы' },
+  { key: 'pieces_per_kg', label: 'Штук в кг' },
+  { key: 'revenue_rub', label: 'Выручка, ₽' },
+  { key: 'checks', label: 'Чеки, шт.' },
+  { key: 'pieces', label: 'Штуки' },
+  { key: 'weight_kg', label: 'Вес, кг' },
+  { key: 'atv', label: 'ATV' },
+  { key: 'upt', label: 'UPT' },
+  { key: 'avg_price_per_kg', label: 'Ср. цена за кг' },
+  { key: 'avg_price_per_piece', label: 'Ср. цена за шт.' },
+  { key: 'week', label: 'Номер недели' },
+  { key: 'month', label: 'Месяц' },
+  { key: 'quarter', label: 'Квартал' },
+  { key: 'year', label: 'Год' },
+];
+
+// Ссылка отзывается не сразу: браузер начинает скачивание уже после click()
+export const download = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+};
+
+// --- CSV ---
+
+// Русский Excel ждёт «;» как разделитель и запятую как десятичный знак
+export const csvCell = (val: unknown): string => {
+  const str = typeof val === 'number'
+    ? String(Math.round(val * 10000) / 10000).replace('.', ',')
+    : String(val ?? '');
+  return /[";\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const toCSV = (rows: NormalizedRow[]): string => {
+  const header = ROW_COLUMNS.map(c => csvCell(c.label)).join(';');
+  const lines = rows.map(r => ROW_COLUMNS.map(c => csvCell(r[c.key])).join(';'));
+  return [header, ...lines].join('\r\n');
+};
+
+export const exportCSV = (rows: NormalizedRow[], fileName = 'sales_report.csv') => {
+  download(new Blob(['\uFEFF' + toCSV(rows)], { type: 'text/csv;charset=utf-8;' }), fileName);
+};
+
+// --- XLSX ---
+
+export interface WorkbookContext {
+  rows: NormalizedRow[];
+  totals: Totals;
+  baseTotals: Totals | null;
+  filters: Filters;
+  sourceName: string;
+  excludeFlagged: boolean;
+  volumeMode: VolumeMode;
+  pivot: PivotResult;
+  basePivot: PivotResult | null;
+  pivotVal: PivotValueType;
+  pivotView: PivotViewOptions;
+  customMetrics: CompiledMetrics;
+  fmt: Formatter;
+}
+
+// Символ валюты берётся из ReportMeta набора; заголовок «Выручка, ₽» не меняется — по нему файл импортируется обратно
+const currencyFormat = (fmt: Formatter) => `#,##0 "${fmt.currencySymbol}"`;
+const INTEGER_FORMAT = '#,##0';
+const DECIMAL_FORMAT = '#,##0.00';
+const PERCENT_FORMAT = '0.0"%"';
+
+const valueFormat = (val: PivotValueType, metrics: CompiledMetrics, fmt: Formatter): string => {
+  if (isCustomMetricKey(val)) {
+    const format = metrics.get(val)?.metric.format;
+    if (format === 'currency') return currencyFormat(fmt);
+    if (format === 'percent') return PERCENT_FORMAT;
+    return format === 'number' ? INTEGER_FORMAT : DECIMAL_FORMAT;
+  }
+  if (val === 'sum_revenue' || val === 'calc_atv' || val === 'plan_revenue') return currencyFormat(fmt);
+  if (val === 'plan_completion') return PERCENT_FORMAT;
+  if (val === 'sum_weight' || val === 'calc_upt') return DECIMAL_FORMAT;
+  return INTEGER_FORMAT;
+};
+
+// Числовым ячейкам назначается формат колонки; первые skipRows строк — шапка
+const applyFormat = (ws: WorkSheet, format: (col: number) => string | null, skipRows = 1) => {
+  const range = utils.decode_range(ws['!ref'] || 'A1');
+  for (let r = range.s.r + skipRows; r <= range.e.r; r++) {
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = ws[utils.encode_cell({ r, c })];
+      const z = format(c);
+      if (cell && cell.t === 'n' && z) cell.z = z;
+    }
+  }
+};
+
+const pivotSheet = (ctx: WorkbookContext): WorkSheet => {
+  const { pivot, basePivot, pivotVal, pivotView, customMetrics, fmt } = ctx;
+  const flat = flattenPivot(pivot, pivotVal, customMetrics, pivotView, basePivot);
+  const display = flat.display;
+
+  const header = [flat.rowHeader, ...flat.columns, ...(flat.hasDelta ? ['Δ к базе, %'] : [])];
+  const line = (l: FlatPivotLine) => [
+    l.key ? '    '.repeat(l.level) + l.label : l.label,
+    ...l.values,
+    ...(flat.hasDelta ? [l.delta] : []),
+  ];
+
+  const aoa = [
+    [`${pivotValueLabel(pivotVal, customMetrics)} · ${PIVOT_DISPLAY_LABELS[display]}`],
+    header,
+    ...flat.lines.map(line),
+    line(flat.total),
+  ];
+
+  const ws = utils.aoa_to_sheet(aoa);
+  const deltaCol = flat.hasDelta ? header.length - 1 : -1;
+  const cellFormat = display === 'value' ? valueFormat(pivotVal, customMetrics, fmt) : PERCENT_FORMAT;
+  applyFormat(ws, c => c === 0 ? null : c === deltaCol ? PERCENT_FORMAT : cellFormat, 2);
+  ws['!cols'] = header.map((_, i) => ({ wch: i === 0 ? 36 : 16 }));
+  return ws;
+};
+
+const dataSheet = (rows: NormalizedRow[], fmt: Formatter): WorkSheet => {
+  const ws = utils.aoa_to_sheet([
+    ROW_COLUMNS.map(c => c.label),
+    ...rows.map(r => ROW_COLUMNS.map(c => r[c.key] ?? '')),
+  ]);
+  const formats: Partial<Record<keyof NormalizedRow, string>> = {
+    revenue_rub: currencyFormat(fmt),
+    checks: INTEGER_FORMAT,
+    pieces: INTEGER_FORMAT,
+    weight_kg: DECIMAL_FORMAT,
+    atv: currencyFormat(fmt),
+    upt: DECIMAL_FORMAT,
+    avg_price_per_kg: currencyFormat(fmt),
+    avg_price_per_piece: currencyFormat(fmt),
+  };
+  applyFormat(ws, c => formats[ROW_COLUMNS[c]?.key] || null);
+  ws['!cols'] = ROW_COLUMNS.map(c => ({ wch: c.key === 'store_name' || c.key === 'category_name' ? 28 : 14 }));
+  ws['!autofilter'] = { ref: ws['!ref'] || 'A1' };
+  return ws;
+};
+
+const summarySheet = (ctx: WorkbookContext): WorkSheet => {
+  const { totals, baseTotals, filters, fmt } = ctx;
+  const kpis: [string, keyof Totals, string][] = [
+    ['Выручка', 'revenue', currencyFormat(fmt)],
+    ['Чеки', 'checks', INTEGER_FORMAT],
+    ['Ср. чек (ATV)', 'atv', currencyFormat(fmt)],
+    ['Штуки', 'pieces', INTEGER_FORMAT],
+    ['UPT', 'upt', DECIMAL_FORMAT],
+    ['Вес, кг', 'weight', DECIMAL_FORMAT],
+  ];
+
+  const aoa: (string | number | null)[][] = [
+    ['Показатель', 'Значение', ...(baseTotals ? ['База', 'Δ, %'] : [])],
+    ...kpis.map(([label, key]) => [
+      label,
+      totals[key],
+      ...(baseTotals ? [baseTotals[key], computeDelta(totals[key], baseTotals[key]).pct] : []),
+    ]),
+    [],
+    ['Фильтр', 'Значение'],
+    ['Источник', ctx.sourceName],
+    ['Период с', filters.dateFrom || 'все даты'],
+    ['Период по', filters.dateTo || 'все даты'],
+    ['Магазины', filters.stores.join(', ') || 'все'],
+    ['Категории', filters.categories.join(', ') || 'все'],
+    ['Типы единиц', filters.unitTypes.join(', ') || 'все'],
+    ['Проблемные строки', ctx.excludeFlagged ? 'исключены' : 'учтены'],
+    ['Объёмы', VOLUME_MODE_LABELS[ctx.volumeMode]],
+    ['Строк в выборке', ctx.rows.length],
+    ['Сформировано', new Date().toLocaleString('ru-RU')],
+  ];
+
+  const ws = utils.aoa_to_sheet(aoa);
+  kpis.forEach(([, , z], i) => {
+    [1, 2].forEach(c => {
+      const cell = ws[utils.encode_cell({ r: i + 1, c })];
+      if (cell && cell.t === 'n') cell.z = z;
+    });
+    const delta = ws[utils.encode_cell({ r: i + 1, c: 3 })];
+    if (delta && delta.t === 'n') delta.z = PERCENT_FORMAT;
+  });
+  ws['!cols'] = [{ wch: 22 }, { wch: 40 }, { wch: 18 }, { wch: 10 }];
+  return ws;
+};
+
+export const exportWorkbook = (ctx: WorkbookContext, fileName = 'sales_report.xlsx') => {
+  const wb = utils.book_new();
+  utils.book_append_sheet(wb, pivotSheet(ctx), 'Сводная');
+  utils.book_append_sheet(wb, dataSheet(ctx.rows, ctx.fmt), 'Данные');
+  utils.book_append_sheet(wb, summarySheet(ctx), 'Сводка');
+  writeFile(wb, fileName);
+};
@@ -0,0 +1,138 @@
+import { read, utils } from 'xlsx';
+import { NormalizedRow, ReportMeta, DataIssue } from '../types';
+import { extractPayload, SourcePayload } from '../utils/normalize';
+import { runAnalytics } from './analytics';
+
+export type ImportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface ImportResult {
+  fileName: string;
+  format: ImportFormat;
+  columns: string[];
+  rawRows: any[];
+  rows: NormalizedRow[];
+  issues: DataIssue[];
+  meta?: ReportMeta;
+}
+
+export const ACCEPTED_EXTENSIONS = '.csv,.txt,.xlsx,.xls,.json';
+
+const detectFormat = (fileName: string): ImportFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'csv' || ext === 'txt') return 'csv';
+  if (ext === 'xlsx' || ext === 'xls') return 'xlsx';
+  if (ext === 'json') return 'json';
+  return null;
+};
+
+// --- CSV ---
+
+// Разделитель определяется по заголовку: выгрузки из русского Excel идут через «;»
+const detectSeparator = (headerLine: string): ';' | ',' => {
+  let semicolons = 0;
+  let commas = 0;
+  let quoted = false;
+  for (const ch of headerLine) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && ch === ';') semicolons++;
+    else if (!quoted && ch === ',') commas++;
+  }
+  return semicolons >= commas && semicolons > 0 ? ';' : ',';
+};
+
+const splitCSV = (text: string, sep: string): string[][] => {
+  const result: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === sep) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      result.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    result.push(row);
+  }
+  return result.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const parseCSV = (text: string): any[] => {
+  const clean = text.replace(/^\uFEFF/, '');
+  const headerLine = clean.split(/\r?\n/, 1)[0] || '';
+  const [header, ...lines] = splitCSV(clean, detectSeparator(headerLine));
+  if (!header) return [];
+  const columns = header.map(h => h.trim());
+  // Числа остаются строками: «1 234,56» разбирает parseNum при нормализации
+  return lines.map(cells => Object.fromEntries(columns.map((col, i) => [col, cells[i] ?? ''])));
+};
+
+// --- XLSX ---
+
+const toISODate = (d: Date): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+export const parseXLSX = (buffer: ArrayBuffer): any[] => {
+  const workbook = read(buffer, { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  const rows = utils.sheet_to_json<Record<string, any>>(sheet, { defval: '', raw: true });
+  return rows.map(row => Object.fromEntries(
+    Object.entries(row).map(([k, v]) => [k.trim(), v instanceof Date ? toISODate(v) : v])
+  ));
+};
+
+// --- JSON ---
+
+export const parseJSON = (text: string): SourcePayload => extractPayload(JSON.parse(text));
+
+const collectColumns = (rows: any[]): string[] => {
+  const columns = new Set<string>();
+  rows.forEach(item => Object.keys(item?.json ?? item ?? {}).forEach(k => columns.add(k)));
+  return Array.from(columns);
+};
+
+export const importFile = async (file: File): Promise<ImportResult> => {
+  const format = detectFormat(file.name);
+  if (!format) throw new Error(`Неподдерживаемый формат файла: ${file.name}`);
+
+  let rawRows: any[];
+  let meta: ReportMeta | undefined;
+  if (format === 'xlsx') {
+    rawRows = parseXLSX(await file.arrayBuffer());
+  } else if (format === 'json') {
+    ({ rows: rawRows, meta } = parseJSON(await file.text()));
+  } else {
+    rawRows = parseCSV(await file.text());
+  }
+
+  if (!rawRows.length) throw new Error(`Файл ${file.name} не содержит строк`);
+
+  const { rows, issues } = await runAnalytics({ type: 'normalize', raw: rawRows, idPrefix: `file-${Date.now().toString(36)}` });
+  return {
+    fileName: file.name,
+    format,
+    columns: collectColumns(rawRows),
+    rawRows,
+    rows,
+    issues,
+    meta,
+  };
+};
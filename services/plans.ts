@@ -0,0 +1,91 @@
+import { PlanEntry, PlanMetric, PLAN_METRIC_LABELS } from '../utils/plan';
+import { cleanString, parseNum } from '../utils/normalize';
+import { parseCSV } from './fileImport';
+import { csvCell, download } from './export';
+
+const PLANS_KEY = 'sales_plans';
+
+// --- РАЗБОР ФАЙЛА ПЛАНА ---
+
+// Колонки узнаются и по английским, и по русским заголовкам шаблона
+const FIELD_ALIASES: Record<keyof PlanEntry, string[]> = {
+  store: ['store', 'store_name', 'магазин'],
+  month: ['month', 'месяц', 'период'],
+  metric: ['metric', 'показатель'],
+  value: ['value', 'plan', 'план', 'значение'],
+};
+
+const pickField = (item: Record<string, any>, field: keyof PlanEntry): any => {
+  const key = Object.keys(item).find(k => FIELD_ALIASES[field].includes(k.trim().toLowerCase()));
+  return key !== undefined ? item[key] : undefined;
+};
+
+// Месяц принимается как 2025-03, 2025-03-01, 03.2025 или 01.03.2025
+const parseMonth = (val: any): string | null => {
+  const str = cleanString(val);
+  let m = str.match(/^(\d{4})-(\d{1,2})(-\d{1,2})?$/);
+  if (m) return `${m[1]}-${m[2].padStart(2, '0')}`;
+  m = str.match(/^(?:\d{1,2}\.)?(\d{1,2})\.(\d{4})$/);
+  if (m) return `${m[2]}-${m[1].padStart(2, '0')}`;
+  return null;
+};
+
+const parseMetric = (val: any): PlanMetric | null => {
+  const str = cleanString(val).toLowerCase();
+  if (!str) return 'revenue';
+  const metric = (Object.keys(PLAN_METRIC_LABELS) as PlanMetric[])
+    .find(m => m === str || PLAN_METRIC_LABELS[m].toLowerCase() === str);
+  return metric || null;
+};
+
+export interface PlanImportResult {
+  entries: PlanEntry[];
+  // Номера строк файла, которые не удалось разобрать
+  skipped: number[];
+}
+
+export const parsePlanRows = (items: any[]): PlanImportResult => {
+  const entries: PlanEntry[] = [];
+  const skipped: number[] = [];
+  items.forEach((item, i) => {
+    const store = cleanString(pickField(item ?? {}, 'store'));
+    const month = parseMonth(pickField(item ?? {}, 'month'));
+    const metric = parseMetric(pickField(item ?? {}, 'metric'));
+    const value = parseNum(pickField(item ?? {}, 'value'));
+    if (!store || !month || !metric || value < 0) skipped.push(i + 1);
+    else entries.push({ store, month, metric, value });
+  });
+  return { entries, skipped };
+};
+
+export const importPlanFile = async (file: File): Promise<PlanImportResult> => {
+  const text = await file.text();
+  if (file.name.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(text);
+    const items = Array.isArray(parsed) ? parsed : parsed?.plans;
+    if (!Array.isArray(items)) throw new Error('Ожидается массив планов или объект с полем plans');
+    return parsePlanRows(items);
+  }
+  return parsePlanRows(parseCSV(text));
+};
+
+// Выгрузка в том же формате, что принимает импорт, — её удобно использовать как шаблон
+export const exportPlansCSV = (plans: PlanEntry[], fileName = 'sales_plans.csv') => {
+  const header = ['Магазин', 'Месяц', 'Показатель', 'План'].map(csvCell).join(';');
+  const lines = plans.map(p => [p.store, p.month, p.metric, p.value].map(csvCell).join(';'));
+  download(new Blob(['\uFEFF' + [header, ...lines].join('\r\n')], { type: 'text/csv;charset=utf-8;' }), fileName);
+};
+
+// --- ХРАНЕНИЕ ---
+
+export const loadPlans = (): PlanEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PLANS_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const savePlans = (plans: PlanEntry[]) =>
+  localStorage.setItem(PLANS_KEY, JSON.stringify(plans));
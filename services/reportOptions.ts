@@ -0,0 +1,29 @@
+import {
+  ReportOptions, ReportSection, DEFAULT_REPORT_OPTIONS, REPORT_SECTION_LABELS, REPORT_ORIENTATION_LABELS, PIVOT_ROWS_PER_PAGE_OPTIONS
+} from '../utils/report';
+
+const REPORT_OPTIONS_KEY = 'report_options';
+
+// --- ХРАНЕНИЕ ---
+
+// Выбор разделов запоминается: отчёт к планёрке обычно собирается одинаково
+export const loadReportOptions = (): ReportOptions => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(REPORT_OPTIONS_KEY) || 'null');
+    if (!parsed) return DEFAULT_REPORT_OPTIONS;
+    return {
+      sections: Array.isArray(parsed.sections)
+        ? (Object.keys(REPORT_SECTION_LABELS) as ReportSection[]).filter(s => parsed.sections.includes(s))
+        : DEFAULT_REPORT_OPTIONS.sections,
+      orientation: Object.hasOwn(REPORT_ORIENTATION_LABELS, parsed.orientation) ? parsed.orientation : DEFAULT_REPORT_OPTIONS.orientation,
+      pivotRowsPerPage: PIVOT_ROWS_PER_PAGE_OPTIONS.includes(parsed.pivotRowsPerPage)
+        ? parsed.pivotRowsPerPage
+        : DEFAULT_REPORT_OPTIONS.pivotRowsPerPage,
+    };
+  } catch {
+    return DEFAULT_REPORT_OPTIONS;
+  }
+};
+
+export const saveReportOptions = (options: ReportOptions) =>
+  localStorage.setItem(REPORT_OPTIONS_KEY, JSON.stringify(options));
@@ -0,0 +1,229 @@
+import { Filters, PivotValueType, CustomMetricKey } from '../types';
+import { ComparisonMode, COMPARISON_LABELS, DateRange, isValidISODate } from '../utils/dates';
+import {
+  PivotDimension, PivotViewOptions, PIVOT_DIMENSIONS, PIVOT_VALUES, PIVOT_DISPLAY_LABELS, PIVOT_FORMAT_LABELS, DEFAULT_PIVOT_VIEW
+} from '../utils/pivot';
+import { GRANULARITY_LABELS, SERIES_METRIC_LABELS } from '../utils/timeSeries';
+import { VolumeMode, VOLUME_MODE_LABELS } from '../utils/units';
+import { FORECAST_METHOD_LABELS, FORECAST_HORIZONS } from '../utils/forecast';
+import { DayMarksMode, DAY_MARKS_MODE_LABELS } from '../utils/calendar';
+import type { RevenueChartSettings } from '../components/RevenueChart';
+import { customMetricKey } from '../utils/metrics';
+import { loadCustomMetrics } from './customMetrics';
+
+const VIEWS_KEY = 'saved_views';
+const DEFAULT_VIEW_KEY = 'default_view_id';
+const URL_PARAM = 'view';
+
+// --- СОСТОЯНИЕ ДАШБОРДА ---
+
+export type DashboardPage = 'overview' | 'stores' | 'categories' | 'calendar';
+
+export const PAGE_LABELS: Record<DashboardPage, string> = {
+  overview: 'Обзор',
+  stores: 'Магазины',
+  categories: 'Категории',
+  calendar: 'Календарь',
+};
+
+export interface DashboardState {
+  page: DashboardPage;
+  filters: Filters;
+  excludeFlagged: boolean;
+  volumeMode: VolumeMode;
+  dayMarksMode: DayMarksMode;
+  pivotRows: PivotDimension[];
+  pivotCols: PivotDimension[];
+  pivotVal: PivotValueType;
+  pivotView: PivotViewOptions;
+  showPivotDelta: boolean;
+  chartSettings: RevenueChartSettings;
+  comparisonMode: ComparisonMode;
+  compareCustom: DateRange;
+}
+
+export const DEFAULT_DASHBOARD_STATE: DashboardState = {
+  page: 'overview',
+  filters: { dateFrom: '', dateTo: '', stores: [], categories: [], unitTypes: [] },
+  excludeFlagged: false,
+  volumeMode: 'native',
+  dayMarksMode: 'highlight',
+  pivotRows: ['category_name'],
+  pivotCols: ['month'],
+  pivotVal: 'sum_revenue',
+  pivotView: DEFAULT_PIVOT_VIEW,
+  showPivotDelta: false,
+  chartSettings: {
+    granularity: 'day',
+    metric: 'revenue',
+    showMA: false,
+    stackByStore: false,
+    forecast: false,
+    forecastMethod: 'exp_smoothing',
+    forecastHorizon: 14,
+  },
+  comparisonMode: 'none',
+  compareCustom: { from: '', to: '' },
+};
+
+const str = (v: unknown, fallback: string): string => typeof v === 'string' ? v : fallback;
+// Непонятная дата превращается в пустую границу — как незаданный фильтр
+const date = (v: unknown): string => typeof v === 'string' && isValidISODate(v) ? v : '';
+const bool = (v: unknown, fallback: boolean): boolean => typeof v === 'boolean' ? v : fallback;
+const strList = (v: unknown): string[] => Array.isArray(v) ? v.filter(x => typeof x === 'string') : [];
+const oneOf = <T extends string, F extends string = T>(v: unknown, labels: Record<T, string>, fallback: F): T | F =>
+  typeof v === 'string' && Object.hasOwn(labels, v) ? v as T : fallback;
+// Ссылка на вычисляемый показатель принимается, только если он есть в сохранённых показателях
+const customKey = (v: unknown): CustomMetricKey | null =>
+  typeof v === 'string' && loadCustomMetrics().some(m => customMetricKey(m.id) === v) ? v as CustomMetricKey : null;
+const dims = (v: unknown, exclude: PivotDimension[] = []): PivotDimension[] =>
+  Array.from(new Set(strList(v))).filter((d): d is PivotDimension => Object.hasOwn(PIVOT_DIMENSIONS, d) && !exclude.includes(d as PivotDimension));
+
+// Состояние приходит из URL или файла — всё непонятное заменяется значениями по умолчанию
+export const sanitizeState = (raw: any): DashboardState => {
+  const d = DEFAULT_DASHBOARD_STATE;
+  const f = raw?.filters || {};
+  const pv = raw?.pivotView || {};
+  const cs = raw?.chartSettings || {};
+  // В строках сводной нужен хотя бы один уровень, колонки не должны повторять строки
+  const rowDims = dims(raw?.pivotRows);
+  const pivotRows = rowDims.length ? rowDims : d.pivotRows;
+  return {
+    page: oneOf(raw?.page, PAGE_LABELS, d.page),
+    filters: {
+      dateFrom: date(f.dateFrom),
+      dateTo: date(f.dateTo),
+      stores: strList(f.stores),
+      categories: strList(f.categories),
+      unitTypes: strList(f.unitTypes),
+    },
+    excludeFlagged: bool(raw?.excludeFlagged, d.excludeFlagged),
+    volumeMode: oneOf(raw?.volumeMode, VOLUME_MODE_LABELS, d.volumeMode),
+    dayMarksMode: oneOf(raw?.dayMarksMode, DAY_MARKS_MODE_LABELS, d.dayMarksMode),
+    pivotRows,
+    pivotCols: Array.isArray(raw?.pivotCols) ? dims(raw.pivotCols, pivotRows) : d.pivotCols.filter(c => !pivotRows.includes(c)),
+    pivotVal: customKey(raw?.pivotVal) || oneOf(raw?.pivotVal, PIVOT_VALUES, d.pivotVal),
+    pivotView: {
+      sortKey: typeof pv.sortKey === 'string' ? pv.sortKey : null,
+      sortDir: pv.sortDir === 'desc' ? 'desc' : 'asc',
+      display: oneOf(pv.display, PIVOT_DISPLAY_LABELS, d.pivotView.display),
+      format: oneOf(pv.format, PIVOT_FORMAT_LABELS, d.pivotView.format),
+      formatScope: pv.formatScope === 'table' ? 'table' : 'column',
+    },
+    showPivotDelta: bool(raw?.showPivotDelta, d.showPivotDelta),
+    chartSettings: {
+      granularity: oneOf(cs.granularity, GRANULARITY_LABELS, d.chartSettings.granularity),
+      metric: customKey(cs.metric) || oneOf(cs.metric, SERIES_METRIC_LABELS, d.chartSettings.metric),
+      showMA: bool(cs.showMA, d.chartSettings.showMA),
+      stackByStore: bool(cs.stackByStore, d.chartSettings.stackByStore),
+      forecast: bool(cs.forecast, d.chartSettings.forecast),
+      forecastMethod: oneOf(cs.forecastMethod, FORECAST_METHOD_LABELS, d.chartSettings.forecastMethod),
+      forecastHorizon: FORECAST_HORIZONS.includes(cs.forecastHorizon) ? cs.forecastHorizon : d.chartSettings.forecastHorizon,
+    },
+    comparisonMode: oneOf(raw?.comparisonMode, COMPARISON_LABELS, d.comparisonMode),
+    compareCustom: { from: date(raw?.compareCustom?.from), to: date(raw?.compareCustom?.to) },
+  };
+};
+
+// --- URL ---
+
+// JSON в base64url: названия магазинов и категорий на кириллице переживают копирование ссылки
+export const encodeState = (state: DashboardState): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(state));
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeState = (encoded: string): DashboardState | null => {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+    return sanitizeState(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch {
+    return null;
+  }
+};
+
+export const readStateFromUrl = (): DashboardState | null => {
+  const encoded = new URLSearchParams(window.location.search).get(URL_PARAM);
+  return encoded ? decodeState(encoded) : null;
+};
+
+export const shareUrl = (state: DashboardState): string => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(URL_PARAM, encodeState(state));
+  return url.toString();
+};
+
+// replaceState не плодит записи в истории при каждом клике по фильтру
+export const writeStateToUrl = (state: DashboardState) =>
+  window.history.replaceState(null, '', shareUrl(state));
+
+// --- СОХРАНЁННЫЕ ВИДЫ ---
+
+export interface SavedView {
+  id: string;
+  name: string;
+  state: DashboardState;
+  createdAt: string;
+}
+
+export const createView = (name: string, state: DashboardState): SavedView => ({
+  id: `view-${Date.now().toString(36)}`,
+  name,
+  state,
+  createdAt: new Date().toISOString(),
+});
+
+const sanitizeView = (raw: any): SavedView | null => {
+  if (!raw || typeof raw.id !== 'string' || typeof raw.name !== 'string') return null;
+  return { id: raw.id, name: raw.name, state: sanitizeState(raw.state), createdAt: str(raw.createdAt, new Date().toISOString()) };
+};
+
+export const loadViews = (): SavedView[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(VIEWS_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.map(sanitizeView).filter((v): v is SavedView => v !== null) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveViews = (views: SavedView[]) =>
+  localStorage.setItem(VIEWS_KEY, JSON.stringify(views));
+
+export const loadDefaultViewId = (): string | null =>
+  localStorage.getItem(DEFAULT_VIEW_KEY);
+
+export const saveDefaultViewId = (id: string | null) => {
+  if (id) localStorage.setItem(DEFAULT_VIEW_KEY, id);
+  else localStorage.removeItem(DEFAULT_VIEW_KEY);
+};
+
+// Ссылка важнее вида по умолчанию: её открывают, чтобы увидеть чужой срез
+export const initialDashboardState = (): DashboardState => {
+  const fromUrl = readStateFromUrl();
+  if (fromUrl) return fromUrl;
+  const defaultId = loadDefaultViewId();
+  return loadViews().find(v => v.id === defaultId)?.state || DEFAULT_DASHBOARD_STATE;
+};
+
+// --- ОБМЕН ВИДАМИ ---
+
+export const viewsToJSON = (views: SavedView[]): string =>
+  JSON.stringify({ version: 1, views }, null, 2);
+
+// Принимается и файл экспорта, и голый массив видов
+export const parseViewsJSON = (text: string): SavedView[] => {
+  const parsed = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : parsed?.views;
+  if (!Array.isArray(list)) throw new Error('Файл не содержит сохранённых видов');
+  return list.map(sanitizeView).filter((v): v is SavedView => v !== null);
+};
+
+// Импортированный вид с тем же id заменяет существующий
+export const mergeViews = (current: SavedView[], incoming: SavedView[]): SavedView[] => {
+  const ids = new Set(incoming.map(v => v.id));
+  return [...current.filter(v => !ids.has(v.id)), ...incoming];
+};
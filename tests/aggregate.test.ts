@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { Filters } from '../types';
+import { normalizeData } from '../utils/normalize';
+import { filterRows, computeTotals, computeDelta, compareTotals } from '../utils/aggregate';
+import { n8nRows } from './fixtures/payloads';
+
+const rows = normalizeData(n8nRows);
+const noFilters: Filters = { dateFrom: '', dateTo: '', stores: [], categories: [], unitTypes: [] };
+
+describe('filterRows', () => {
+  it('сужает по датам включительно и по спискам', () => {
+    const ids = (f: Partial<Filters>) => filterRows(rows, { ...noFilters, ...f }).map(r => r.id);
+    expect(ids({ dateFrom: '2025-09-30', dateTo: '2025-10-01' })).toEqual(['r3', 'r4']);
+    expect(ids({ stores: ['Центральный'], categories: ['Сыры'] })).toEqual(['r2']);
+    expect(ids({ unitTypes: ['kg'] })).toEqual(['r1', 'r3']);
+  });
+
+  it('исключает отмеченные строки и дни', () => {
+    const kept = filterRows(rows, noFilters, new Set(['r1']), new Set(['2025-10-01']));
+    expect(kept.map(r => r.id)).toEqual(['r2', 'r3']);
+  });
+});
+
+describe('computeTotals', () => {
+  it('считает ATV и UPT как отношение сумм, а не среднее по строкам', () => {
+    const totals = computeTotals(rows);
+    expect(totals.revenue).toBeCloseTo(6500.5);
+    expect(totals.checks).toBe(55);
+    expect(totals.atv).toBeCloseTo(6500.5 / 55);
+    expect(totals.upt).toBeCloseTo(15 / 55);
+    const rowAverage = rows.reduce((acc, r) => acc + r.atv, 0) / rows.length;
+    expect(totals.atv).not.toBeCloseTo(rowAverage);
+  });
+
+  it('без чеков отношения равны нулю', () => {
+    expect(computeTotals([])).toEqual({ revenue: 0, checks: 0, pieces: 0, weight: 0, atv: 0, upt: 0 });
+  });
+});
+
+describe('computeDelta', () => {
+  it('процент считается от модуля базы; нулевая база — без процента', () => {
+    expect(computeDelta(150, 100)).toEqual({ abs: 50, pct: 50 });
+    expect(computeDelta(-50, -100)).toEqual({ abs: 50, pct: 50 });
+    expect(computeDelta(10, 0)).toEqual({ abs: 10, pct: null });
+  });
+
+  it('compareTotals без базового периода возвращает null по каждому показателю', () => {
+    const totals = computeTotals(rows);
+    expect(Object.values(compareTotals(totals, null)).every(d => d === null)).toBe(true);
+    expect(compareTotals(totals, totals).atv).toEqual({ abs: 0, pct: 0 });
+  });
+});
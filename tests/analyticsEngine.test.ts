@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { createAnalyticsEngine, RowQuery } from '../utils/analyticsEngine';
+import { chartMarkers } from '../utils/calendar';
+import { Alert } from '../utils/alerts';
+import { n8nRows } from './fixtures/payloads';
+
+const setup = () => {
+  const engine = createAnalyticsEngine();
+  const { rows, issues } = engine.handle({ type: 'normalize', raw: n8nRows });
+  engine.handle({ type: 'setRows', rows });
+  return { engine, rows, issues };
+};
+
+const query = (filters: Partial<RowQuery['filters']> = {}, extra: Partial<RowQuery> = {}): RowQuery => ({
+  filters: { dateFrom: '', dateTo: '', stores: [], categories: [], unitTypes: [], ...filters },
+  excludeIds: [],
+  excludeDates: [],
+  volumeMode: 'native',
+  ...extra,
+});
+
+describe('createAnalyticsEngine', () => {
+  it('нормализует выгрузку n8n без замечаний', () => {
+    const { rows, issues } = setup();
+    expect(rows).toHaveLength(4);
+    expect(issues).toEqual([]);
+  });
+
+  it('возвращает номера строк в исходном порядке и итоги выборки', () => {
+    const { engine } = setup();
+    const result = engine.handle({ type: 'query', query: query({ dateFrom: '2025-09-29', dateTo: '2025-09-30' }) });
+    expect(Array.from(result.indices)).toEqual([0, 1, 2]);
+    expect(result.totals.revenue).toBeCloseTo(5000.5);
+    expect(result.totals.atv).toBeCloseTo(5000.5 / 52);
+  });
+
+  it('учитывает исключённые строки и дни', () => {
+    const { engine } = setup();
+    const result = engine.handle({ type: 'query', query: query({}, { excludeIds: ['r2'], excludeDates: ['2025-10-01'] }) });
+    expect(Array.from(result.indices)).toEqual([0, 2]);
+  });
+
+  it('исключение проблемных строк не задевает исходную строку с повторившимся id', () => {
+    const engine = createAnalyticsEngine();
+    const base = { date: '2025-10-01', store_name: 'Южный', category_name: 'Выпечка', checks: 1 };
+    const { rows, issues } = engine.handle({ type: 'normalize', raw: [
+      { ...base, id: 'a', revenue_rub: 100 },
+      { ...base, id: 'a', revenue_rub: 50, unit_raw: 'кг' },
+    ] });
+    engine.handle({ type: 'setRows', rows });
+    expect(new Set(rows.map(r => r.id)).size).toBe(2);
+    const result = engine.handle({ type: 'query', query: query({}, { excludeIds: issues.map(i => i.rowId) }) });
+    expect(result.totals.revenue).toBe(100);
+  });
+
+  it('строит сводную по той же выборке', () => {
+    const { engine } = setup();
+    const pivot = engine.handle({ type: 'pivot', query: query({ stores: ['Северный'] }), rowDims: ['category_name'], colDims: [], plans: [], detailed: false });
+    expect(pivot.rowTree.map(n => n.label)).toEqual(['Овощи', 'Сыры']);
+  });
+
+  it('ряд ATV по дням — отношение сумм каждого дня; база накладывается на текущие дни', () => {
+    const { engine } = setup();
+    const { points } = engine.handle({
+      type: 'series',
+      query: query({ dateFrom: '2025-09-30', dateTo: '2025-10-01' }),
+      options: {
+        granularity: 'day',
+        metric: 'atv',
+        customMetric: null,
+        maWindow: 0,
+        stackByStore: false,
+        compare: {
+          query: query({ dateFrom: '2025-09-28', dateTo: '2025-09-29' }),
+          mode: 'previous',
+          current: { from: '2025-09-30', to: '2025-10-01' },
+          base: { from: '2025-09-28', to: '2025-09-29' },
+        },
+      },
+    });
+    expect(points.map(p => p.key)).toEqual(['2025-09-30', '2025-10-01']);
+    expect(points[0].value).toBeCloseTo(800 / 40);
+    expect(points[1].value).toBeCloseTo(1500 / 3);
+    // 29 сентября базы переносится на 1 октября текущего периода
+    expect(points[1].compare).toBeCloseTo(4200.5 / 12);
+  });
+});
+
+describe('chartMarkers', () => {
+  it('привязывает отметки к корзине графика, критичное оповещение важнее праздника', () => {
+    const points = [{ key: '2025-09-29', name: 'с 29.09' }, { key: '2025-10-06', name: 'с 06.10' }];
+    const alert = (date: string, severity: Alert['severity']): Alert => ({
+      id: date, ruleId: null, source: 'anomaly', severity, date, level: 'chain', scope: 'Вся сеть', title: '', message: '',
+    });
+    const markers = chartMarkers(
+      points,
+      'week',
+      [{ date: '2025-10-01', kind: 'holiday', label: '' }, { date: '2025-10-07', kind: 'promo', label: '' }],
+      [alert('2025-10-02', 'critical'), alert('2025-12-01', 'warning')]
+    );
+    expect(markers).toEqual([
+      { name: 'с 29.09', kind: 'critical' },
+      { name: 'с 06.10', kind: 'promo' },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addYears, endOfMonth, isoWeek, comparisonRange, alignToCurrent, relativePresets, monthPresets, weekPresets,
+  dataDateRange
+} from '../utils/dates';
+import { bucketKey, bucketLabel, buildTimeSeries } from '../utils/timeSeries';
+import { normalizeWithIssues } from '../utils/normalize';
+import { evaluateRules, detectAnomalies, AlertRule } from '../utils/alerts';
+import { planMonths } from '../utils/plan';
+import { createFormatter } from '../utils/format';
+import { n8nRows } from './fixtures/payloads';
+
+describe('границы месяцев', () => {
+  it('последний день месяца учитывает длину месяца и високосные годы', () => {
+    expect(endOfMonth('2025-09-15')).toBe('2025-09-30');
+    expect(endOfMonth('2024-02-01')).toBe('2024-02-29');
+    expect(endOfMonth('2025-02-01')).toBe('2025-02-28');
+  });
+
+  it('месячный пресет сентября заканчивается 30-м, а не 31-м', () => {
+    const [september] = monthPresets(['2025-09-03', '2025-09-28']);
+    expect(september.range).toEqual({ from: '2025-09-01', to: '2025-09-30' });
+  });
+
+  it('«Прошлый месяц» от 31 октября — весь сентябрь', () => {
+    const lastMonth = relativePresets('2025-10-31').find(p => p.id === 'last_month');
+    expect(lastMonth?.range).toEqual({ from: '2025-09-01', to: '2025-09-30' });
+  });
+});
+
+describe('недели', () => {
+  it('ISO-неделя принадлежит году своего четверга', () => {
+    expect(isoWeek('2024-12-30')).toEqual({ year: 2025, week: 1 });
+    expect(isoWeek('2027-01-01')).toEqual({ year: 2026, week: 53 });
+  });
+
+  it('недельный пресет — с понедельника по воскресенье', () => {
+    const [week] = weekPresets(['2025-10-01']);
+    expect(week.range).toEqual({ from: '2025-09-29', to: '2025-10-05' });
+    expect(week.label).toBe('2025-W40');
+  });
+});
+
+describe('сравнение периодов', () => {
+  const current = { from: '2025-10-01', to: '2025-10-10' };
+
+  it('предыдущий период той же длины примыкает к текущему', () => {
+    expect(comparisonRange('previous', current, current)).toEqual({ from: '2025-09-21', to: '2025-09-30' });
+  });
+
+  it('год назад переносит 29 февраля на 28-е', () => {
+    expect(addYears('2024-02-29', -1)).toBe('2023-02-28');
+    expect(comparisonRange('last_year', { from: '2024-02-01', to: '2024-02-29' }, current))
+      .toEqual({ from: '2023-02-01', to: '2023-02-28' });
+  });
+
+  it('свой период без обеих границ не сравнивается', () => {
+    expect(comparisonRange('custom', current, { from: '2025-01-01', to: '' })).toBeNull();
+    expect(comparisonRange('none', current, current)).toBeNull();
+  });
+
+  it('даты базы накладываются на соответствующие дни текущего периода', () => {
+    const base = comparisonRange('previous', current, current)!;
+    expect(alignToCurrent('2025-09-21', 'previous', current, base)).toBe('2025-10-01');
+    expect(alignToCurrent('2024-10-05', 'last_year', current, base)).toBe('2025-10-05');
+  });
+});
+
+describe('корзины времени', () => {
+  it('ключи сортируются как строки и подписываются по-русски', () => {
+    expect(bucketKey('2025-10-01', 'week')).toBe('2025-09-29');
+    expect(bucketKey('2025-10-01', 'month')).toBe('2025-10');
+    expect(bucketKey('2025-10-01', 'quarter')).toBe('2025-Q4');
+    expect(bucketLabel('2025-10', 'month')).toBe('Окт 2025');
+    expect(bucketLabel('2025-09-29', 'week')).toBe('с 29.09');
+  });
+});
+
+describe('нераспознанные даты', () => {
+  const bad = { store_name: 'Южный', category_name: 'Выпечка', revenue_rub: '100', checks: '1' };
+  const { rows, issues } = normalizeWithIssues([
+    ...n8nRows,
+    { ...bad, id: 'b1', date: '2025/09/01' },
+    { ...bad, id: 'b2', date: '2025-13-01' },
+    { ...bad, id: 'b3', date: '31.02.2025' },
+  ]);
+  // Строки из кэша, сохранённого до очистки дат при нормализации
+  const cached = [...rows, { ...rows[0], id: 'cached', date: '2025/10/05' }];
+  const dates = cached.map(r => r.date);
+
+  it('нормализация очищает их и сообщает о каждой', () => {
+    expect(rows.slice(4).map(r => r.date)).toEqual(['', '', '']);
+    expect(issues.filter(i => i.type === 'invalid_date').map(i => i.value)).toEqual(['2025/09/01', '2025-13-01', '2025-02-31']);
+  });
+
+  it('не становятся опорной датой пресетов и месяцев плана', () => {
+    const anchor = dataDateRange(dates)!.to;
+    expect(anchor).toBe('2025-10-01');
+    expect(relativePresets(anchor).find(p => p.id === 'yesterday')?.range.from).toBe('2025-09-30');
+    expect(planMonths(dates, [])).toEqual(['2025-09', '2025-10', '2025-11']);
+  });
+
+  it('не попадают в корзины времени', () => {
+    const { points } = buildTimeSeries(cached, { granularity: 'week', metric: 'revenue' });
+    expect(points.map(p => p.key)).toEqual(['2025-09-29']);
+    expect(points[0].value).toBeCloseTo(6500.5);
+  });
+
+  it('не сдвигают «сегодня» оповещений', () => {
+    const rule: AlertRule = { id: 'drop', name: '', kind: 'metric_drop', enabled: true, scope: 'chain', metric: 'checks', threshold: 50, window: 1 };
+    expect(evaluateRules(cached, [rule], createFormatter()).map(a => a.date)).toEqual(['2025-10-01']);
+    expect(() => detectAnomalies(cached, createFormatter())).not.toThrow();
+  });
+});
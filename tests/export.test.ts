@@ -0,0 +1,12 @@
+import { describe, it, expect } from 'vitest';
+import { toCSV } from '../services/export';
+import { parseCSV } from '../services/fileImport';
+import { normalizeData } from '../utils/normalize';
+import { n8nRows, reportPayload } from './fixtures/payloads';
+
+describe('toCSV', () => {
+  it('выгрузка загружается обратно без потерь', () => {
+    const rows = normalizeData([...n8nRows, ...reportPayload.rows.map(r => ({ ...r, 'Шт. в кг': 'кг', pieces_per_kg: '4' }))]);
+    expect(normalizeData(parseCSV(toCSV(rows)))).toEqual(rows);
+  });
+});
@@ -0,0 +1,28 @@
+import { ReportMeta } from '../../types';
+
+// --- ВЫГРУЗКИ ДЛЯ ТЕСТОВ ---
+
+// Строки в том виде, в каком их отдаёт n8n: каждая в поле json, числа — строками в русском формате.
+// Построчные ATV сильно расходятся с отношением сумм — так видно, что итоги не усредняют строки
+export const n8nRows = [
+  { json: { id: 'r1', date: '2025-09-29', store_name: 'Центральный', category_name: 'Овощи', unit_type: 'kg', revenue_rub: '1 200,50', checks: '10', pieces: '0', weight_kg: '12,5' } },
+  { json: { id: 'r2', date: '2025-09-29', store_name: 'Центральный', category_name: 'Сыры', unit_type: 'pcs', revenue_rub: '3 000', checks: '2', pieces: '6', weight_kg: '0' } },
+  { json: { id: 'r3', date: '2025-09-30', store_name: 'Северный', category_name: 'Овощи', unit_type: 'kg', revenue_rub: '800', checks: '40', pieces: '0', weight_kg: '8' } },
+  { json: { id: 'r4', date: '2025-10-01', store_name: 'Северный', category_name: 'Сыры', unit_type: 'pcs', revenue_rub: '1.500,00', checks: '3', pieces: '9', weight_kg: '0' } },
+];
+
+// Строка выгрузки из Excel: все значения текстом, дата ДД.ММ.ГГГГ. RawReportRow описывает
+// строки n8n с числами, поэтому здесь своя форма
+type ExcelRow = Record<string, string>;
+
+// Отчёт с русскими заголовками колонок, как в выгрузке из Excel
+export const reportPayload: { meta: ReportMeta, rows: ExcelRow[] } = {
+  meta: { source: 'n8n', generated_at: '2025-10-02T06:00:00Z', report_name: 'Продажи сети', currency: '₽' },
+  rows: [
+    { Дата: '01.10.2025', Магазин: 'Южный\n', 'Категория товара': 'Выпечка', 'Шт. в кг': 'шт', 'Выручка, ₽': '12 345,67', 'Чеки, шт.': '120', Штуки: '240' },
+    { Дата: '02.10.2025', Магазин: 'Южный', 'Категория товара': 'Выпечка', 'Шт. в кг': 'кг', 'Выручка, ₽': '−1 000', 'Чеки, шт.': '0', 'Вес, кг': '2,5' },
+  ],
+};
+
+// Тот же отчёт, обёрнутый n8n в массив из одного элемента с полем json
+export const wrappedReportPayload = [{ json: reportPayload }];
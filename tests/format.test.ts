@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { createFormatter, normalizeCurrency } from '../utils/format';
+
+describe('createFormatter', () => {
+  it('понимает запись валюты из отчёта, неизвестная — рубли', () => {
+    expect(normalizeCurrency('₽')).toBe('RUB');
+    expect(normalizeCurrency(' руб. ')).toBe('RUB');
+    expect(normalizeCurrency('$')).toBe('USD');
+    expect(normalizeCurrency('тугрики')).toBe('RUB');
+    expect(normalizeCurrency(null)).toBe('RUB');
+  });
+
+  it('форматтеры разных наборов не влияют друг на друга', () => {
+    const usd = createFormatter('USD');
+    const rub = createFormatter('₽');
+    expect(usd.currencyCode).toBe('USD');
+    expect(usd.currency(1200)).toContain('$');
+    expect(rub.currency(1200)).toContain('₽');
+    expect(usd.currency(1200)).toContain('$');
+    expect(rub.seriesMetric('atv', 10)).toContain(rub.currencySymbol);
+    expect(rub.metricValue(12.345, 'decimal')).toBe('12,35');
+  });
+});
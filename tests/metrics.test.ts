@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { accumulate, compileFormula, formulaError } from '../utils/metrics';
+import { normalizeData } from '../utils/normalize';
+import { n8nRows } from './fixtures/payloads';
+
+const acc = accumulate(normalizeData(n8nRows));
+
+describe('compileFormula', () => {
+  it('считает формулу по суммам, с русскими именами и разбивкой по единицам', () => {
+    expect(compileFormula('выручка / чеки')(acc, acc)).toBeCloseTo(6500.5 / 55);
+    expect(compileFormula('pieces[pcs] / checks[шт]')(acc, acc)).toBeCloseTo(15 / 5);
+    expect(compileFormula('revenue / total(revenue) * 100')(acc, acc)).toBe(100);
+  });
+
+  it('отклоняет неизвестные поля и единицы', () => {
+    expect(formulaError('revenue / margin')).toBe('Неизвестное поле «margin» в позиции 11');
+    expect(formulaError('revenue[box]')).toBe('После «[» ожидается kg или pcs в позиции 9');
+  });
+
+  it('не принимает имена из прототипа объекта за поля и единицы', () => {
+    expect(formulaError('constructor')).toBe('Неизвестное поле «constructor» в позиции 1');
+    expect(formulaError('revenue / tostring')).not.toBeNull();
+    expect(formulaError('revenue[constructor]')).toBe('После «[» ожидается kg или pcs в позиции 9');
+    expect(formulaError('__proto__[kg]')).not.toBeNull();
+  });
+});
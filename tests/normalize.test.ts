@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { parseNum, parseDate, extractPayload, normalizeData, normalizeWithIssues, mergeRows, mergeDatasetsWithDelta } from '../utils/normalize';
+import { n8nRows, reportPayload, wrappedReportPayload } from './fixtures/payloads';
+
+describe('parseNum', () => {
+  it.each([
+    ['1 234,56', 1234.56],
+    ['1\u00a0234,56', 1234.56],
+    ['1.234,56', 1234.56],
+    ['1,234.56', 1234.56],
+    ['1 234 567', 1234567],
+    ['1.234.567', 1234567],
+    ['12,5', 12.5],
+    ['−1 200 ₽', -1200],
+    ['-3,5', -3.5],
+    ['  42\n', 42],
+  ])('%j → %d', (input, expected) => {
+    expect(parseNum(input)).toBeCloseTo(expected);
+  });
+
+  it('оставляет числа как есть, пустое и мусор — ноль', () => {
+    expect(parseNum(7.25)).toBe(7.25);
+    expect(parseNum('')).toBe(0);
+    expect(parseNum(null)).toBe(0);
+    expect(parseNum('нет данных')).toBe(0);
+  });
+});
+
+describe('parseDate', () => {
+  it('приводит ДД.ММ.ГГГГ и ISO с временем к YYYY-MM-DD', () => {
+    expect(parseDate('1.10.2025')).toBe('2025-10-01');
+    expect(parseDate('2025-10-01T00:00:00.000Z')).toBe('2025-10-01');
+  });
+});
+
+describe('extractPayload', () => {
+  it('разворачивает ответ n8n с отчётом в поле json', () => {
+    const payload = extractPayload(wrappedReportPayload);
+    expect(payload.meta?.report_name).toBe('Продажи сети');
+    expect(payload.rows).toHaveLength(2);
+  });
+
+  it('принимает ReportPayload и голый массив строк', () => {
+    expect(extractPayload(reportPayload).rows).toHaveLength(2);
+    expect(extractPayload(n8nRows).rows).toBe(n8nRows);
+  });
+
+  it('отклоняет ответ без строк', () => {
+    expect(() => extractPayload({ status: 'ok' })).toThrow();
+  });
+});
+
+describe('normalizeWithIssues', () => {
+  it('читает строки из поля json и разбирает русские числа', () => {
+    const rows = normalizeData(n8nRows);
+    expect(rows.map(r => r.id)).toEqual(['r1', 'r2', 'r3', 'r4']);
+    expect(rows[0]).toMatchObject({ revenue_rub: 1200.5, weight_kg: 12.5, unit_type: 'kg', atv: 120.05 });
+    expect(rows[3]).toMatchObject({ revenue_rub: 1500, pieces: 9, unit_type: 'pcs', upt: 3 });
+  });
+
+  it('выводит календарные поля из даты', () => {
+    const [row] = normalizeData(n8nRows);
+    expect(row).toMatchObject({ week: 40, month: 9, quarter: 3, year: 2025 });
+  });
+
+  it('понимает русские заголовки колонок и чистит переносы строк', () => {
+    const [first, second] = normalizeData(reportPayload.rows, 'file');
+    expect(first).toMatchObject({ id: 'file-0', date: '2025-10-01', store_name: 'Южный', revenue_rub: 12345.67, checks: 120, unit_type: 'pcs' });
+    expect(second).toMatchObject({ unit_type: 'kg', revenue_rub: -1000, weight_kg: 2.5 });
+  });
+
+  it('отмечает проблемные строки', () => {
+    const { issues } = normalizeWithIssues([
+      ...reportPayload.rows,
+      { id: 'x', date: '2025-09-31', store_name: 'Южный', category_name: 'Выпечка', revenue_rub: 'сто', checks: 1 },
+      { id: 'x', date: '', store_name: '', category_name: '', revenue_rub: 10, checks: 0 },
+    ]);
+    const types = issues.map(i => i.type);
+    expect(types).toEqual(expect.arrayContaining([
+      'negative_value', 'revenue_without_checks', 'invalid_date', 'unparseable_number',
+      'missing_date', 'missing_store', 'missing_category', 'duplicate_id',
+    ]));
+  });
+});
+
+describe('normalizeWithIssues: нераспознанные даты', () => {
+  it('очищает дату в строке и оставляет исходную в замечании', () => {
+    const base = { store_name: 'Южный', category_name: 'Выпечка', revenue_rub: 10, checks: 1 };
+    const { rows, issues } = normalizeWithIssues([
+      { ...base, id: 'a', date: '2025/09/01' },
+      { ...base, id: 'b', date: '2025-13-01' },
+    ]);
+    expect(rows.map(r => r.date)).toEqual(['', '']);
+    expect(issues.map(i => [i.type, i.value])).toEqual([
+      ['invalid_date', '2025/09/01'],
+      ['invalid_date', '2025-13-01'],
+    ]);
+  });
+});
+
+describe('normalizeWithIssues: битые элементы', () => {
+  it('пропускает null и примитивы вместо строк и сообщает о них', () => {
+    const { rows, issues } = normalizeWithIssues([null, n8nRows[0], 'строка', { json: null }]);
+    expect(rows.map(r => r.id)).toEqual(['r1']);
+    expect(issues.filter(i => i.type === 'invalid_row').map(i => i.rowIndex)).toEqual([0, 2, 3]);
+  });
+});
+
+describe('mergeRows', () => {
+  it('заменяет строку с тем же днём, магазином, категорией и единицей', () => {
+    const current = normalizeData(n8nRows);
+    const update = normalizeData([{ ...n8nRows[0].json, id: 'r1-new', revenue_rub: '999' }]);
+    const merged = mergeRows(current, update);
+    expect(merged).toHaveLength(4);
+    expect(merged.find(r => r.id === 'r1-new')?.revenue_rub).toBe(999);
+    expect(merged.some(r => r.id === 'r1')).toBe(false);
+  });
+});
+
+describe('mergeDatasetsWithDelta', () => {
+  it('не сливает строки набора с одинаковым ключом и не заменяет ничего строкой без даты', () => {
+    const row = { store_name: 'Южный', category_name: 'Выпечка', revenue_rub: 10, checks: 1 };
+    const current = normalizeWithIssues([
+      { ...row, id: 'a', date: '2025-10-01' },
+      { ...row, id: 'b', date: '2025-10-01' },
+      { ...row, id: 'c', date: '2025/10/02' },
+      { ...row, id: 'd', date: '2025-13-02' },
+    ]);
+    const incoming = normalizeWithIssues([
+      { ...row, id: 'e', date: '2025-10-03' },
+      { ...row, id: 'f', date: 'вчера' },
+    ]);
+    const { rows, removedIds } = mergeDatasetsWithDelta(current, incoming);
+    expect(rows.map(r => r.id)).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(removedIds).toEqual([]);
+  });
+
+  it('не допускает двух строк с одним id: новая строка с занятым id получает свой', () => {
+    const current = normalizeWithIssues(n8nRows);
+    const incoming = normalizeWithIssues([
+      { id: 'r1', date: '2025-10-02', store_name: 'Северный', category_name: 'Сыры', revenue_rub: 10, checks: 0 },
+      { ...n8nRows[1].json, id: 'r9', revenue_rub: '5' },
+    ]);
+    const { rows, issues, put, removedIds } = mergeDatasetsWithDelta(current, incoming);
+    expect(new Set(rows.map(r => r.id)).size).toBe(rows.length);
+    expect(rows).toHaveLength(5);
+    expect(put.map(r => r.id)).toEqual(['r1~1', 'r9']);
+    expect(removedIds).toEqual(['r2']);
+    expect(issues.map(i => i.rowId)).toEqual(['r1~1']);
+  });
+});
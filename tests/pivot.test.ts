@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeData } from '../utils/normalize';
+import { buildPivot, pivotValue, pivotValueLabel, cellAt, pathKey, flattenPivot, DEFAULT_PIVOT_VIEW } from '../utils/pivot';
+import { compileMetrics, customMetricKey } from '../utils/metrics';
+import { topCategories, OTHER_CATEGORY } from '../utils/categories';
+import { n8nRows } from './fixtures/payloads';
+
+const rows = normalizeData(n8nRows);
+const noMetrics = compileMetrics([]);
+
+describe('buildPivot', () => {
+  const pivot = buildPivot(rows, ['store_name', 'category_name'], ['month']);
+
+  it('строит дерево строк и колонок в порядке значений', () => {
+    expect(pivot.rowTree.map(n => n.label)).toEqual(['Северный', 'Центральный']);
+    expect(pivot.rowTree[1].children.map(n => n.label)).toEqual(['Овощи', 'Сыры']);
+    expect(pivot.colTree.map(n => n.path[0])).toEqual(['9', '10']);
+  });
+
+  it('промежуточные итоги ATV — отношение сумм уровня', () => {
+    const store = pathKey(['Центральный']);
+    expect(pivotValue(cellAt(pivot, store, ''), 'calc_atv', noMetrics)).toBeCloseTo(4200.5 / 12);
+    expect(pivotValue(cellAt(pivot, store, ''), 'calc_upt', noMetrics)).toBeCloseTo(6 / 12);
+    expect(pivotValue(cellAt(pivot, '', ''), 'calc_atv', noMetrics)).toBeCloseTo(6500.5 / 55);
+  });
+
+  it('суммы итогов складываются из всех уровней', () => {
+    expect(pivotValue(cellAt(pivot, '', pathKey(['9'])), 'sum_revenue', noMetrics)).toBeCloseTo(5000.5);
+    expect(pivotValue(cellAt(pivot, pathKey(['Северный']), pathKey(['10'])), 'sum_revenue', noMetrics)).toBe(1500);
+    expect(cellAt(pivot, pathKey(['Северный', 'Овощи']), pathKey(['10']))).toBeUndefined();
+  });
+
+  it('развёрнутая сводная совпадает с ячейками', () => {
+    const flat = flattenPivot(pivot, 'calc_atv', noMetrics, DEFAULT_PIVOT_VIEW);
+    expect(flat.columns[flat.columns.length - 1]).toBe('Итого');
+    expect(flat.total.values[flat.total.values.length - 1]).toBeCloseTo(6500.5 / 55);
+  });
+
+  it('вычисляемый показатель берётся из переданных формул, удалённый — ноль', () => {
+    const metrics = compileMetrics([
+      { id: 'share', name: 'Доля', formula: 'revenue / total(revenue) * 100', format: 'percent', showInKpi: false },
+      { id: 'broken', name: 'Ошибка', formula: 'revenue /', format: 'number', showInKpi: false },
+    ]);
+    const store = cellAt(pivot, pathKey(['Северный']), '');
+    expect(pivotValue(store, customMetricKey('share'), metrics, cellAt(pivot, '', ''))).toBeCloseTo(2300 / 6500.5 * 100);
+    expect(pivotValueLabel(customMetricKey('share'), metrics)).toBe('Доля');
+    expect(pivotValue(store, customMetricKey('broken'), metrics)).toBe(0);
+    expect(pivotValueLabel(customMetricKey('gone'), noMetrics)).toBe('custom:gone');
+  });
+});
+
+describe('topCategories', () => {
+  it('сортирует по выручке и сворачивает хвост в «Прочие»', () => {
+    const pivot = buildPivot(rows, ['category_name'], []);
+    expect(topCategories(pivot)).toEqual([
+      { name: 'Сыры', value: 4500 },
+      { name: 'Овощи', value: 2000.5 },
+    ]);
+    expect(topCategories(pivot, 1)).toEqual([
+      { name: 'Сыры', value: 4500 },
+      { name: OTHER_CATEGORY, value: 2000.5 },
+    ]);
+    expect(topCategories(null)).toEqual([]);
+  });
+});
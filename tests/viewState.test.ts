@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeState, DEFAULT_DASHBOARD_STATE } from '../services/viewState';
+
+describe('sanitizeState', () => {
+  it('сбрасывает нераспознанные даты фильтра и своего периода сравнения', () => {
+    const state = sanitizeState({
+      filters: { dateFrom: 'abc', dateTo: '2025-13-01', stores: ['Южный'] },
+      comparisonMode: 'previous',
+      compareCustom: { from: '2025/09/01', to: '2025-09-30' },
+    });
+    expect(state.filters).toMatchObject({ dateFrom: '', dateTo: '', stores: ['Южный'] });
+    expect(state.compareCustom).toEqual({ from: '', to: '2025-09-30' });
+    expect(state.comparisonMode).toBe('previous');
+  });
+
+  it('не принимает имена из прототипа за значения перечислений', () => {
+    const state = sanitizeState({ page: 'constructor', pivotRows: ['toString'] });
+    expect(state.page).toBe(DEFAULT_DASHBOARD_STATE.page);
+    expect(state.pivotRows).toEqual(DEFAULT_DASHBOARD_STATE.pivotRows);
+  });
+});
@@ -63,4 +63,43 @@ export interface Filters {
   unitTypes: string[];
 }
 
-export type PivotValueType = 'sum_revenue' | 'sum_checks' | 'sum_pieces' | 'sum_weight' | 'calc_atv' | 'calc_upt';
+export type BuiltinPivotValue =
+  | 'sum_revenue' | 'sum_checks' | 'sum_pieces' | 'sum_weight' | 'calc_atv' | 'calc_upt'
+  | 'plan_revenue' | 'plan_completion';
+
+// Пользовательский вычисляемый показатель: «custom:» и id из списка показателей
+export type CustomMetricKey = `custom:${string}`;
+
+export type PivotValueType = BuiltinPivotValue | CustomMetricKey;
+
+export type DataSourceKind = 'webhook' | 'json_url' | 'file';
+
+export interface DataSourceConfig {
+  id: string;
+  name: string;
+  kind: DataSourceKind;
+  url: string;
+  method: 'GET' | 'POST';
+  headers: Record<string, string>;
+  authToken: string;
+}
+
+export type DataIssueType =
+  | 'unparseable_number'
+  | 'missing_date'
+  | 'invalid_date'
+  | 'missing_store'
+  | 'missing_category'
+  | 'revenue_without_checks'
+  | 'pieces_without_unit'
+  | 'duplicate_id'
+  | 'negative_value'
+  | 'invalid_row';
+
+export interface DataIssue {
+  rowId: string;
+  rowIndex: number;
+  type: DataIssueType;
+  field?: string;
+  value?: string;
+}
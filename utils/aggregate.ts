@@ -0,0 +1,73 @@
+import { NormalizedRow, Filters } from '../types';
+
+// --- ФИЛЬТРАЦИЯ ---
+
+// excludeDates — дни, отмеченные как праздники или акции, когда их нужно убрать из показателей
+export const filterRows = (rows: NormalizedRow[], filters: Filters, excludeIds?: Set<string>, excludeDates?: Set<string>): NormalizedRow[] =>
+  rows.filter(d => {
+    if (excludeIds && excludeIds.has(d.id)) return false;
+    if (excludeDates && excludeDates.has(d.date)) return false;
+    if (filters.dateFrom && d.date < filters.dateFrom) return false;
+    if (filters.dateTo && d.date > filters.dateTo) return false;
+    if (filters.stores.length && !filters.stores.includes(d.store_name)) return false;
+    if (filters.categories.length && !filters.categories.includes(d.category_name)) return false;
+    if (filters.unitTypes.length && !filters.unitTypes.includes(d.unit_type)) return false;
+    return true;
+  });
+
+// --- АГРЕГАЦИЯ ---
+
+export interface Totals {
+  revenue: number;
+  checks: number;
+  pieces: number;
+  weight: number;
+  atv: number;
+  upt: number;
+}
+
+// ATV и UPT считаются как отношение сумм, а не среднее построчных значений
+export const computeTotals = (rows: NormalizedRow[]): Totals => {
+  const sum = rows.reduce((acc, curr) => ({
+    rev: acc.rev + curr.revenue_rub,
+    chk: acc.chk + curr.checks,
+    pcs: acc.pcs + curr.pieces,
+    wgt: acc.wgt + curr.weight_kg,
+  }), { rev: 0, chk: 0, pcs: 0, wgt: 0 });
+
+  return {
+    revenue: sum.rev,
+    checks: sum.chk,
+    pieces: sum.pcs,
+    weight: sum.wgt,
+    atv: sum.chk > 0 ? sum.rev / sum.chk : 0,
+    upt: sum.chk > 0 ? sum.pcs / sum.chk : 0,
+  };
+};
+
+// --- ИЗМЕНЕНИЕ К БАЗЕ ---
+
+export interface Delta {
+  abs: number;
+  pct: number | null;
+}
+
+export const computeDelta = (current: number, base: number): Delta => ({
+  abs: current - base,
+  pct: base !== 0 ? (current - base) / Math.abs(base) * 100 : null,
+});
+
+export type TotalsDelta = Record<keyof Totals, Delta | null>;
+
+// Изменение каждого итога к базовому периоду; без базы — null по всем показателям
+export const compareTotals = (current: Totals, base: Totals | null): TotalsDelta => {
+  const delta = (key: keyof Totals) => base ? computeDelta(current[key], base[key]) : null;
+  return {
+    revenue: delta('revenue'),
+    checks: delta('checks'),
+    pieces: delta('pieces'),
+    weight: delta('weight'),
+    atv: delta('atv'),
+    upt: delta('upt'),
+  };
+};
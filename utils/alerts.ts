@@ -0,0 +1,216 @@
+import { NormalizedRow } from '../types';
+import { computeTotals, computeDelta } from './aggregate';
+import { addDays, isValidISODate } from './dates';
+import { SeriesMetric, SERIES_METRIC_LABELS, RATIO_METRICS } from './timeSeries';
+import { Formatter } from './format';
+
+// --- ПРАВИЛА ОПОВЕЩЕНИЙ ---
+
+export type AlertRuleKind = 'below_weekday_avg' | 'metric_drop' | 'zero_sales';
+export type AlertScope = 'chain' | 'store' | 'category';
+
+export const ALERT_RULE_KIND_LABELS: Record<AlertRuleKind, string> = {
+  below_weekday_avg: 'Ниже среднего по дню недели',
+  metric_drop: 'Падение показателя',
+  zero_sales: 'Нет продаж несколько дней',
+};
+
+export const ALERT_SCOPE_LABELS: Record<AlertScope, string> = {
+  chain: 'Сеть',
+  store: 'Каждый магазин',
+  category: 'Каждая категория',
+};
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  kind: AlertRuleKind;
+  enabled: boolean;
+  scope: AlertScope;
+  metric: SeriesMetric;
+  // below_weekday_avg — допустимый процент от среднего; metric_drop — процент падения
+  threshold: number;
+  // below_weekday_avg — недель истории; metric_drop и zero_sales — дней в окне
+  window: number;
+}
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface Alert {
+  id: string;
+  ruleId: string | null;
+  source: 'rule' | 'anomaly';
+  severity: AlertSeverity;
+  date: string;
+  // Уровень проверки и название магазина или категории; для сети — «Вся сеть»
+  level: AlertScope;
+  scope: string;
+  title: string;
+  message: string;
+}
+
+interface Group {
+  label: string;
+  byDate: Map<string, NormalizedRow[]>;
+  firstDate: string;
+}
+
+const groupRows = (rows: NormalizedRow[], scope: AlertScope): Map<string, Group> => {
+  const groups = new Map<string, Group>();
+  rows.forEach(r => {
+    if (!isValidISODate(r.date)) return;
+    const key = scope === 'store' ? r.store_name : scope === 'category' ? r.category_name : '';
+    if (!groups.has(key)) groups.set(key, { label: key || 'Вся сеть', byDate: new Map(), firstDate: r.date });
+    const g = groups.get(key)!;
+    if (!g.byDate.has(r.date)) g.byDate.set(r.date, []);
+    g.byDate.get(r.date)!.push(r);
+    if (r.date < g.firstDate) g.firstDate = r.date;
+  });
+  return groups;
+};
+
+const rowsBetween = (g: Group, from: string, to: string): NormalizedRow[] => {
+  const out: NormalizedRow[] = [];
+  g.byDate.forEach((list, date) => { if (date >= from && date <= to) out.push(...list); });
+  return out;
+};
+
+const metricOn = (g: Group, date: string, metric: SeriesMetric): number | null => {
+  const list = g.byDate.get(date);
+  if (!list) return RATIO_METRICS.includes(metric) ? null : 0;
+  return computeTotals(list)[metric];
+};
+
+const lastDateOf = (rows: NormalizedRow[]): string | null =>
+  rows.reduce<string | null>((max, r) => isValidISODate(r.date) && (!max || r.date > max) ? r.date : max, null);
+
+const evaluateRule = (rule: AlertRule, groups: Map<string, Group>, lastDate: string, fmt: Formatter): Alert[] => {
+  const alerts: Alert[] = [];
+  const metricLabel = SERIES_METRIC_LABELS[rule.metric];
+  const push = (g: Group, key: string, message: string) => alerts.push({
+    id: `${rule.id}|${key}|${lastDate}`,
+    ruleId: rule.id,
+    source: 'rule',
+    severity: 'warning',
+    date: lastDate,
+    level: rule.scope,
+    scope: g.label,
+    title: rule.name,
+    message,
+  });
+
+  groups.forEach((g, key) => {
+    switch (rule.kind) {
+      case 'below_weekday_avg': {
+        // Среднее по тем же дням недели за предыдущие недели, без текущего дня
+        const history = Array.from({ length: rule.window }, (_, i) => addDays(lastDate, -7 * (i + 1)))
+          .filter(d => d >= g.firstDate)
+          .map(d => metricOn(g, d, rule.metric))
+          .filter((v): v is number => v !== null);
+        const current = metricOn(g, lastDate, rule.metric);
+        if (!history.length || current === null) return;
+        const avg = history.reduce((a, b) => a + b, 0) / history.length;
+        if (avg > 0 && current < avg * rule.threshold / 100) {
+          push(g, key, `${metricLabel}: ${fmt.seriesMetric(rule.metric, current)} — ${Math.round(current / avg * 100)}% от среднего за ${history.length} нед. по этому дню недели (${fmt.seriesMetric(rule.metric, avg)})`);
+        }
+        return;
+      }
+      case 'metric_drop': {
+        const from = addDays(lastDate, -(rule.window - 1));
+        const prevTo = addDays(from, -1);
+        const prevFrom = addDays(prevTo, -(rule.window - 1));
+        if (prevFrom < g.firstDate) return;
+        const current = computeTotals(rowsBetween(g, from, lastDate))[rule.metric];
+        const previous = computeTotals(rowsBetween(g, prevFrom, prevTo))[rule.metric];
+        const change = computeDelta(current, previous).pct;
+        if (change !== null && change <= -rule.threshold) {
+          push(g, key, `${metricLabel} за ${rule.window} дн. упал на ${Math.abs(Math.round(change))}%: ${fmt.seriesMetric(rule.metric, current)} против ${fmt.seriesMetric(rule.metric, previous)}`);
+        }
+        return;
+      }
+      case 'zero_sales': {
+        const from = addDays(lastDate, -(rule.window - 1));
+        // Группа, которая появилась внутри окна, ещё не успела «пропасть»
+        if (g.firstDate >= from) return;
+        const revenue = computeTotals(rowsBetween(g, from, lastDate)).revenue;
+        if (revenue <= 0) push(g, key, `Нет продаж ${rule.window} дн. подряд (с ${from})`);
+        return;
+      }
+    }
+  });
+  return alerts;
+};
+
+// Правила проверяются на последнюю дату в данных — это «сегодня» отчёта
+export const evaluateRules = (rows: NormalizedRow[], rules: AlertRule[], fmt: Formatter): Alert[] => {
+  const lastDate = lastDateOf(rows);
+  if (!lastDate) return [];
+  return rules
+    .filter(r => r.enabled)
+    .flatMap(rule => evaluateRule(rule, groupRows(rows, rule.scope), lastDate, fmt));
+};
+
+// --- СТАТИСТИЧЕСКИЕ АНОМАЛИИ ---
+
+// Порог робастной z-оценки: остаток в 3,5 MAD считается выбросом
+const ANOMALY_Z = 3.5;
+const CRITICAL_Z = 5;
+const ANOMALY_HISTORY_WEEKS = 4;
+
+const median = (xs: number[]): number => {
+  const sorted = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Ожидание — медиана тех же дней недели за прошлые недели; разброс — MAD остатков ряда
+export const detectAnomalies = (rows: NormalizedRow[], fmt: Formatter, scope: AlertScope = 'chain'): Alert[] => {
+  const alerts: Alert[] = [];
+  groupRows(rows, scope).forEach((g, key) => {
+    const residuals: { date: string, actual: number, expected: number, residual: number }[] = [];
+    Array.from(g.byDate.keys()).sort().forEach(date => {
+      const history = Array.from({ length: ANOMALY_HISTORY_WEEKS }, (_, i) => addDays(date, -7 * (i + 1)))
+        .filter(d => d >= g.firstDate)
+        .map(d => metricOn(g, d, 'revenue') || 0);
+      if (history.length < ANOMALY_HISTORY_WEEKS) return;
+      const actual = metricOn(g, date, 'revenue') || 0;
+      const expected = median(history);
+      residuals.push({ date, actual, expected, residual: actual - expected });
+    });
+    if (residuals.length < ANOMALY_HISTORY_WEEKS) return;
+
+    const center = median(residuals.map(r => r.residual));
+    const scale = median(residuals.map(r => Math.abs(r.residual - center))) * 1.4826;
+    if (scale === 0) return;
+
+    residuals.forEach(r => {
+      const z = (r.residual - center) / scale;
+      if (Math.abs(z) < ANOMALY_Z) return;
+      const change = computeDelta(r.actual, r.expected).pct;
+      alerts.push({
+        id: `anomaly|${scope}|${key}|${r.date}`,
+        ruleId: null,
+        source: 'anomaly',
+        severity: Math.abs(z) >= CRITICAL_Z ? 'critical' : 'warning',
+        date: r.date,
+        level: scope,
+        scope: g.label,
+        title: z > 0 ? 'Аномальный рост выручки' : 'Аномальное падение выручки',
+        message: `${fmt.seriesMetric('revenue', r.actual)} при ожидаемых ${fmt.seriesMetric('revenue', r.expected)}${change !== null ? ` (${change > 0 ? '+' : ''}${Math.round(change)}%)` : ''}`,
+      });
+    });
+  });
+  return alerts;
+};
+
+export const collectAlerts = (rows: NormalizedRow[], rules: AlertRule[], fmt: Formatter): Alert[] =>
+  [...evaluateRules(rows, rules, fmt), ...detectAnomalies(rows, fmt, 'chain'), ...detectAnomalies(rows, fmt, 'store')]
+    .sort((a, b) => b.date.localeCompare(a.date) || Number(b.severity === 'critical') - Number(a.severity === 'critical'));
+
+// На графике отмечаются оповещения, относящиеся к текущему срезу: сеть всегда, магазины и категории — если выбраны
+export const alertsForFilters = (alerts: Alert[], stores: string[], categories: string[]): Alert[] =>
+  alerts.filter(a =>
+    a.level === 'chain' ||
+    (a.level === 'store' && stores.includes(a.scope)) ||
+    (a.level === 'category' && categories.includes(a.scope))
+  );
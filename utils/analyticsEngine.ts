@@ -0,0 +1,231 @@
+import { NormalizedRow, Filters, DataIssue } from '../types';
+import { normalizeWithIssues } from './normalize';
+import { computeTotals, Totals } from './aggregate';
+import { ComparisonMode, DateRange, alignToCurrent } from './dates';
+import { convertUnits, VolumeMode } from './units';
+import { buildPivot, PivotDimension, PivotResult } from './pivot';
+import { buildTimeSeries, Granularity, ChartMetric, SeriesPoint } from './timeSeries';
+import { CustomMetric, MetricAcc, accumulate } from './metrics';
+import { PlanEntry } from './plan';
+
+// --- ЗАПРОСЫ К ДАННЫМ ---
+
+export interface RowQuery {
+  filters: Filters;
+  excludeIds: string[];
+  excludeDates: string[];
+  volumeMode: VolumeMode;
+}
+
+export interface SeriesRequest {
+  granularity: Granularity;
+  metric: ChartMetric;
+  customMetric: CustomMetric | null;
+  maWindow: number;
+  stackByStore: boolean;
+  // Базовый период: запрос строк и параметры переноса дат на текущий период
+  compare: { query: RowQuery, mode: ComparisonMode, current: DateRange, base: DateRange } | null;
+}
+
+export interface QueryResult {
+  // Номера строк набора, прошедших фильтр, в исходном порядке
+  indices: Int32Array;
+  totals: Totals;
+  // Суммы для вычисляемых показателей в карточках KPI
+  metrics: MetricAcc;
+}
+
+export type AnalyticsRequest =
+  | { type: 'normalize', raw: any[], idPrefix?: string }
+  | { type: 'setRows', rows: NormalizedRow[] }
+  | { type: 'query', query: RowQuery }
+  | { type: 'pivot', query: RowQuery, rowDims: PivotDimension[], colDims: PivotDimension[], plans: PlanEntry[], detailed: boolean }
+  | { type: 'series', query: RowQuery, options: SeriesRequest };
+
+export interface AnalyticsResults {
+  normalize: { rows: NormalizedRow[], issues: DataIssue[] };
+  setRows: number;
+  query: QueryResult;
+  pivot: PivotResult;
+  series: { points: SeriesPoint[], stores: string[] };
+}
+
+// --- ИНДЕКС ---
+
+interface RowIndex {
+  rows: NormalizedRow[];
+  // Номера строк, отсортированные по дате, и уникальные даты с началом их диапазона в order
+  order: Int32Array;
+  dates: string[];
+  dateStart: Int32Array;
+  // Коды магазина и категории по номеру строки — сравнение чисел вместо строк
+  storeCode: Int32Array;
+  categoryCode: Int32Array;
+  stores: Map<string, number>;
+  categories: Map<string, number>;
+}
+
+const encode = (rows: NormalizedRow[], field: 'store_name' | 'category_name') => {
+  const dict = new Map<string, number>();
+  const codes = new Int32Array(rows.length);
+  rows.forEach((r, i) => {
+    if (!dict.has(r[field])) dict.set(r[field], dict.size);
+    codes[i] = dict.get(r[field])!;
+  });
+  return { dict, codes };
+};
+
+const buildIndex = (rows: NormalizedRow[]): RowIndex => {
+  const order = Int32Array.from(rows.keys()).sort((a, b) =>
+    rows[a].date < rows[b].date ? -1 : rows[a].date > rows[b].date ? 1 : a - b
+  );
+  const dates: string[] = [];
+  const starts: number[] = [];
+  order.forEach((rowIdx, pos) => {
+    if (!dates.length || dates[dates.length - 1] !== rows[rowIdx].date) {
+      dates.push(rows[rowIdx].date);
+      starts.push(pos);
+    }
+  });
+  starts.push(order.length);
+  const store = encode(rows, 'store_name');
+  const category = encode(rows, 'category_name');
+  return {
+    rows,
+    order,
+    dates,
+    dateStart: Int32Array.from(starts),
+    storeCode: store.codes,
+    categoryCode: category.codes,
+    stores: store.dict,
+    categories: category.dict,
+  };
+};
+
+// Первая дата не меньше заданной; пустая дата строки сортируется первой, как и в filterRows
+const lowerBound = (dates: string[], value: string): number => {
+  let lo = 0;
+  let hi = dates.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (dates[mid] < value) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+};
+
+// Первая дата строго больше заданной
+const upperBound = (dates: string[], value: string): number => {
+  let lo = 0;
+  let hi = dates.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (dates[mid] <= value) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+};
+
+const codeMask = (dict: Map<string, number>, selected: string[]): Uint8Array | null => {
+  if (!selected.length) return null;
+  const mask = new Uint8Array(dict.size);
+  selected.forEach(v => { if (dict.has(v)) mask[dict.get(v)!] = 1; });
+  return mask;
+};
+
+// Тот же отбор, что filterRows, но по диапазону отсортированных дат и числовым кодам
+const selectIndices = (index: RowIndex, query: RowQuery): Int32Array => {
+  const { filters } = query;
+  const fromPos = filters.dateFrom ? lowerBound(index.dates, filters.dateFrom) : 0;
+  const toPos = filters.dateTo ? upperBound(index.dates, filters.dateTo) : index.dates.length;
+  const start = index.dateStart[fromPos] ?? index.order.length;
+  const end = index.dateStart[toPos] ?? index.order.length;
+
+  const storeMask = codeMask(index.stores, filters.stores);
+  const categoryMask = codeMask(index.categories, filters.categories);
+  const units = filters.unitTypes.length ? new Set(filters.unitTypes) : null;
+  const excludeIds = query.excludeIds.length ? new Set(query.excludeIds) : null;
+  const excludeDates = query.excludeDates.length ? new Set(query.excludeDates) : null;
+
+  const out = new Int32Array(Math.max(0, end - start));
+  let n = 0;
+  for (let pos = start; pos < end; pos++) {
+    const i = index.order[pos];
+    if (storeMask && !storeMask[index.storeCode[i]]) continue;
+    if (categoryMask && !categoryMask[index.categoryCode[i]]) continue;
+    const row = index.rows[i];
+    if (units && !units.has(row.unit_type)) continue;
+    if (excludeDates && excludeDates.has(row.date)) continue;
+    if (excludeIds && excludeIds.has(row.id)) continue;
+    out[n++] = i;
+  }
+  // Порядок строк остаётся исходным, как у filterRows
+  return out.slice(0, n).sort();
+};
+
+// --- ДВИЖОК С КЭШЕМ ---
+
+// Недавние запросы и построенные по ним сводные хранятся, пока набор строк не сменился
+const CACHE_SIZE = 12;
+
+const remember = <T>(cache: Map<string, T>, key: string, compute: () => T): T => {
+  const hit = cache.get(key);
+  if (hit !== undefined) {
+    cache.delete(key);
+    cache.set(key, hit);
+    return hit;
+  }
+  const value = compute();
+  cache.set(key, value);
+  if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  return value;
+};
+
+export const createAnalyticsEngine = () => {
+  let index = buildIndex([]);
+  let version = 0;
+  const queries = new Map<string, { indices: Int32Array, rows: NormalizedRow[], totals: Totals, metrics: MetricAcc }>();
+  const pivots = new Map<string, PivotResult>();
+  const series = new Map<string, AnalyticsResults['series']>();
+
+  const runQuery = (query: RowQuery) => remember(queries, JSON.stringify(query), () => {
+    const indices = selectIndices(index, query);
+    const rows = convertUnits(Array.from(indices, i => index.rows[i]), query.volumeMode);
+    return { indices, rows, totals: computeTotals(rows), metrics: accumulate(rows) };
+  });
+
+  const handle = <R extends AnalyticsRequest>(req: R): AnalyticsResults[R['type']] => {
+    const result = (() => {
+      switch (req.type) {
+        case 'normalize':
+          return normalizeWithIssues(req.raw, req.idPrefix);
+        case 'setRows':
+          index = buildIndex(req.rows);
+          queries.clear();
+          pivots.clear();
+          series.clear();
+          return ++version;
+        case 'query': {
+          const { indices, totals, metrics } = runQuery(req.query);
+          return { indices, totals, metrics };
+        }
+        case 'pivot':
+          return remember(pivots, JSON.stringify([req.query, req.rowDims, req.colDims, req.plans, req.detailed]), () =>
+            buildPivot(runQuery(req.query).rows, req.rowDims, req.colDims, req.plans, req.detailed)
+          );
+        case 'series':
+          return remember(series, JSON.stringify([req.query, req.options]), () => {
+            const { compare, ...opts } = req.options;
+            return buildTimeSeries(runQuery(req.query).rows, {
+              ...opts,
+              compareRows: compare ? runQuery(compare.query).rows : null,
+              alignDate: compare ? (d: string) => alignToCurrent(d, compare.mode, compare.current, compare.base) : undefined,
+            });
+          });
+      }
+    })();
+    return result as AnalyticsResults[R['type']];
+  };
+
+  return { handle };
+};
+
+export type AnalyticsEngine = ReturnType<typeof createAnalyticsEngine>;
@@ -0,0 +1,161 @@
+import { NormalizedRow } from '../types';
+import { computeTotals } from './aggregate';
+import { addDays, startOfWeek, endOfMonth, parseISODate } from './dates';
+import { Granularity, SeriesPoint, bucketKey } from './timeSeries';
+import { Alert } from './alerts';
+
+// --- ОТМЕТКИ ДНЕЙ ---
+
+export type DayMarkKind = 'holiday' | 'promo';
+// highlight — дни видны на графиках и календаре; exclude — выброшены из всех показателей
+export type DayMarksMode = 'highlight' | 'exclude';
+
+export const DAY_MARK_LABELS: Record<DayMarkKind, string> = {
+  holiday: 'Праздник',
+  promo: 'Акция',
+};
+
+export const DAY_MARKS_MODE_LABELS: Record<DayMarksMode, string> = {
+  highlight: 'Выделять',
+  exclude: 'Исключать',
+};
+
+export const DAY_MARK_COLORS: Record<DayMarkKind, string> = {
+  holiday: '#3BA3F8',
+  promo: '#8B5CF6',
+};
+
+export interface DayMark {
+  date: string;
+  kind: DayMarkKind;
+  label: string;
+}
+
+// Повторный клик тем же типом снимает отметку, другим типом — меняет её
+export const toggleDayMark = (marks: DayMark[], date: string, kind: DayMarkKind): DayMark[] => {
+  const existing = marks.find(m => m.date === date);
+  const rest = marks.filter(m => m.date !== date);
+  if (existing?.kind === kind) return rest;
+  return [...rest, { date, kind, label: existing?.label || '' }].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// --- ОТМЕТКИ НА ГРАФИКЕ ---
+
+export type ChartMarkerKind = 'warning' | 'critical' | DayMarkKind;
+
+export interface ChartMarker {
+  // Подпись точки оси X, к которой привязана отметка
+  name: string;
+  kind: ChartMarkerKind;
+}
+
+// Отметки привязываются к периоду графика, в который попала их дата; оповещения важнее праздников
+export const chartMarkers = (points: SeriesPoint[], granularity: Granularity, dayMarks: DayMark[], alerts: Alert[]): ChartMarker[] => {
+  const markers = new Map<string, ChartMarker>();
+  const pointFor = (date: string) => points.find(p => p.key === bucketKey(date, granularity));
+  dayMarks.forEach(m => {
+    const point = pointFor(m.date);
+    if (point) markers.set(point.name, { name: point.name, kind: m.kind });
+  });
+  alerts.forEach(a => {
+    const point = pointFor(a.date);
+    if (!point) return;
+    const critical = a.severity === 'critical' || markers.get(point.name)?.kind === 'critical';
+    markers.set(point.name, { name: point.name, kind: critical ? 'critical' : 'warning' });
+  });
+  return Array.from(markers.values());
+};
+
+// --- ДНИ НЕДЕЛИ ---
+
+export const WEEKDAY_NAMES = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
+
+// Понедельник — 0, как в российском календаре
+export const weekdayIndex = (iso: string): number => (parseISODate(iso).getUTCDay() + 6) % 7;
+
+// --- КАЛЕНДАРЬ ---
+
+export type CalendarMetric = 'revenue' | 'checks';
+
+export const CALENDAR_METRIC_LABELS: Record<CalendarMetric, string> = {
+  revenue: 'Выручка',
+  checks: 'Чеки',
+};
+
+export interface CalendarDay {
+  date: string;
+  // null — дня нет в данных; 0 — день есть, но продаж не было
+  value: number | null;
+  inMonth: boolean;
+}
+
+export interface CalendarMonth {
+  month: string;
+  // Недели с понедельника; дни соседних месяцев дополняют первую и последнюю неделю
+  weeks: CalendarDay[][];
+}
+
+export const buildCalendar = (rows: NormalizedRow[], metric: CalendarMetric): { months: CalendarMonth[], max: number } => {
+  const byDate = new Map<string, number>();
+  rows.forEach(r => {
+    if (!r.date) return;
+    byDate.set(r.date, (byDate.get(r.date) || 0) + (metric === 'revenue' ? r.revenue_rub : r.checks));
+  });
+  const dates = Array.from(byDate.keys()).sort();
+  if (!dates.length) return { months: [], max: 0 };
+
+  const months: CalendarMonth[] = [];
+  for (let first = `${dates[0].slice(0, 7)}-01`; first <= dates[dates.length - 1]; first = addDays(endOfMonth(first), 1)) {
+    const month = first.slice(0, 7);
+    const last = endOfMonth(first);
+    const weeks: CalendarDay[][] = [];
+    for (let monday = startOfWeek(first); monday <= last; monday = addDays(monday, 7)) {
+      weeks.push(Array.from({ length: 7 }, (_, i) => {
+        const date = addDays(monday, i);
+        return { date, value: byDate.has(date) ? byDate.get(date)! : null, inMonth: date.slice(0, 7) === month };
+      }));
+    }
+    months.push({ month, weeks });
+  }
+  return { months, max: Math.max(...byDate.values()) };
+};
+
+// --- МАГАЗИН × ДЕНЬ НЕДЕЛИ ---
+
+export type WeekdayMetric = 'revenue' | 'atv';
+
+export const WEEKDAY_METRIC_LABELS: Record<WeekdayMetric, string> = {
+  revenue: 'Ср. выручка за день',
+  atv: 'ATV (Ср. чек)',
+};
+
+export interface WeekdayMatrix {
+  stores: string[];
+  // store → 7 значений по дням недели; null — в этот день недели магазин не работал
+  values: Map<string, (number | null)[]>;
+  // Итог по сети в той же метрике
+  total: (number | null)[];
+}
+
+// Средняя выручка — сумма, делённая на число дат этого дня недели, когда магазин работал
+const weekdayValues = (rows: NormalizedRow[], metric: WeekdayMetric): (number | null)[] => {
+  const buckets: NormalizedRow[][] = Array.from({ length: 7 }, () => []);
+  rows.forEach(r => { if (r.date) buckets[weekdayIndex(r.date)].push(r); });
+  return buckets.map(list => {
+    if (!list.length) return null;
+    if (metric === 'atv') return computeTotals(list).atv;
+    const days = new Set(list.map(r => r.date)).size;
+    return computeTotals(list).revenue / days;
+  });
+};
+
+export const buildWeekdayMatrix = (rows: NormalizedRow[], metric: WeekdayMetric): WeekdayMatrix => {
+  const byStore = new Map<string, NormalizedRow[]>();
+  rows.forEach(r => {
+    if (!byStore.has(r.store_name)) byStore.set(r.store_name, []);
+    byStore.get(r.store_name)!.push(r);
+  });
+  const stores = Array.from(byStore.keys()).sort();
+  const values = new Map(stores.map(s => [s, weekdayValues(byStore.get(s)!, metric)]));
+  return { stores, values, total: weekdayValues(rows, metric) };
+};
@@ -0,0 +1,149 @@
+import { NormalizedRow } from '../types';
+import { bucketKey } from './timeSeries';
+import { PivotResult, cellAt } from './pivot';
+
+// --- АНАЛИЗ КАТЕГОРИЙ ---
+
+export type AbcClass = 'A' | 'B' | 'C';
+export type XyzClass = 'X' | 'Y' | 'Z';
+
+// Границы накопленной доли выручки для ABC и коэффициента вариации (%) для XYZ
+export const ABC_THRESHOLDS = { A: 80, B: 95 };
+export const XYZ_THRESHOLDS = { X: 10, Y: 25 };
+
+export const ABC_LABELS: Record<AbcClass, string> = {
+  A: 'Ключевые — до 80% выручки',
+  B: 'Средние — следующие 15%',
+  C: 'Хвост — последние 5%',
+};
+
+export const XYZ_LABELS: Record<XyzClass, string> = {
+  X: `Стабильный спрос (CV ≤ ${XYZ_THRESHOLDS.X}%)`,
+  Y: `Колеблющийся спрос (CV ≤ ${XYZ_THRESHOLDS.Y}%)`,
+  Z: 'Нерегулярный спрос',
+};
+
+export interface CategoryStats {
+  category: string;
+  revenue: number;
+  share: number;
+  cumulativeShare: number;
+  abc: AbcClass;
+  // Коэффициент вариации недельной выручки, %; null — меньше двух недель данных
+  cv: number | null;
+  xyz: XyzClass;
+}
+
+const sumBy = (rows: NormalizedRow[], keyOf: (r: NormalizedRow) => string): Map<string, number> => {
+  const out = new Map<string, number>();
+  rows.forEach(r => {
+    const k = keyOf(r);
+    out.set(k, (out.get(k) || 0) + r.revenue_rub);
+  });
+  return out;
+};
+
+const coefficientOfVariation = (values: number[]): number | null => {
+  if (values.length < 2) return null;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  if (mean === 0) return null;
+  const variance = values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean * 100;
+};
+
+const xyzOf = (cv: number | null): XyzClass => {
+  if (cv === null) return 'Z';
+  if (cv <= XYZ_THRESHOLDS.X) return 'X';
+  if (cv <= XYZ_THRESHOLDS.Y) return 'Y';
+  return 'Z';
+};
+
+// Категория попадает в класс по накопленной доле до неё: первая, пересекающая 80%, ещё остаётся в A
+export const classifyCategories = (rows: NormalizedRow[]): CategoryStats[] => {
+  const revenue = sumBy(rows, r => r.category_name);
+  const total = Array.from(revenue.values()).reduce((a, b) => a + b, 0);
+
+  // Недели без продаж категории входят в расчёт вариации нулями
+  const dated = rows.filter(r => r.date);
+  const weeks = Array.from(new Set(dated.map(r => bucketKey(r.date, 'week'))));
+  const weekly = sumBy(dated, r => `${r.category_name}\u0001${bucketKey(r.date, 'week')}`);
+
+  let cumulative = 0;
+  return Array.from(revenue.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([category, rev]) => {
+      const share = total !== 0 ? rev / total * 100 : 0;
+      const before = cumulative;
+      cumulative += share;
+      const cv = coefficientOfVariation(weeks.map(w => weekly.get(`${category}\u0001${w}`) || 0));
+      return {
+        category,
+        revenue: rev,
+        share,
+        cumulativeShare: cumulative,
+        abc: before < ABC_THRESHOLDS.A ? 'A' : before < ABC_THRESHOLDS.B ? 'B' : 'C',
+        cv,
+        xyz: xyzOf(cv),
+      };
+    });
+};
+
+// --- СТРУКТУРА ПРОДАЖ ---
+
+export const OTHER_CATEGORY = 'Прочие';
+
+export const TOP_CATEGORIES_LIMIT = 10;
+
+export interface CategoryRevenue {
+  name: string;
+  value: number;
+}
+
+// Топ по выручке из сводной по категориям; остальные не пропадают, а собираются в «Прочие»
+export const topCategories = (pivot: PivotResult | null, limit = TOP_CATEGORIES_LIMIT): CategoryRevenue[] => {
+  const ranked = (pivot?.rowTree || [])
+    .map(n => ({ name: n.label, value: cellAt(pivot!, n.key, '')?.rev ?? 0 }))
+    .sort((a, b) => b.value - a.value);
+  const rest = ranked.slice(limit).reduce((acc, c) => acc + c.value, 0);
+  return rest > 0 ? [...ranked.slice(0, limit), { name: OTHER_CATEGORY, value: rest }] : ranked;
+};
+
+// Доли категорий в выручке каждого магазина; мелкие категории сворачиваются в «Прочие»
+export const categoryShareByStore = (rows: NormalizedRow[], categories: string[]): Record<string, string | number>[] => {
+  const keep = new Set(categories);
+  const byStore = new Map<string, NormalizedRow[]>();
+  rows.forEach(r => {
+    if (!byStore.has(r.store_name)) byStore.set(r.store_name, []);
+    byStore.get(r.store_name)!.push(r);
+  });
+  return Array.from(byStore.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([store, list]) => {
+      const total = list.reduce((acc, r) => acc + r.revenue_rub, 0);
+      const point: Record<string, string | number> = { store };
+      sumBy(list, r => keep.has(r.category_name) ? r.category_name : OTHER_CATEGORY).forEach((rev, cat) => {
+        point[cat] = total !== 0 ? rev / total * 100 : 0;
+      });
+      return point;
+    });
+};
+
+export interface MixShift {
+  months: string[];
+  // категория → месяц (YYYY-MM) → доля в выручке месяца, %
+  shares: Map<string, Map<string, number>>;
+}
+
+export const categoryMixByMonth = (rows: NormalizedRow[]): MixShift => {
+  const dated = rows.filter(r => r.date);
+  const monthTotals = sumBy(dated, r => bucketKey(r.date, 'month'));
+  const months = Array.from(monthTotals.keys()).sort();
+  const shares = new Map<string, Map<string, number>>();
+  sumBy(dated, r => `${r.category_name}\u0001${bucketKey(r.date, 'month')}`).forEach((rev, key) => {
+    const [category, month] = key.split('\u0001');
+    if (!shares.has(category)) shares.set(category, new Map());
+    const total = monthTotals.get(month) || 0;
+    shares.get(category)!.set(month, total !== 0 ? rev / total * 100 : 0);
+  });
+  return { months, shares };
+};
@@ -0,0 +1,110 @@
+import { Filters } from '../types';
+import { DateRange, endOfMonth, addDays } from './dates';
+import { Granularity } from './timeSeries';
+import { PivotDimension } from './pivot';
+
+// --- ПЕРЕКРЁСТНАЯ ФИЛЬТРАЦИЯ ---
+
+export type ListFilterField = 'stores' | 'categories' | 'unitTypes';
+
+// Что выбрано кликом по графику или шапке сводной: значение списка или диапазон дат
+export type CrossFilterTarget =
+  | { field: ListFilterField, value: string }
+  | { field: 'dates', range: DateRange };
+
+export const EMPTY_FILTERS: Filters = { dateFrom: '', dateTo: '', stores: [], categories: [], unitTypes: [] };
+
+export const hasActiveFilters = (f: Filters): boolean =>
+  !!(f.dateFrom || f.dateTo || f.stores.length || f.categories.length || f.unitTypes.length);
+
+export const sameFilters = (a: Filters, b: Filters): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const isApplied = (f: Filters, t: CrossFilterTarget): boolean =>
+  t.field === 'dates'
+    ? f.dateFrom === t.range.from && f.dateTo === t.range.to
+    : f[t.field].length === 1 && f[t.field][0] === t.value;
+
+// Обычный клик заменяет фильтр выбранным; повторный клик по уже выбранному снимает его.
+// Клик с Shift добавляет значение к списку (или убирает из него), а период расширяет до охвата обоих.
+export const applyCrossFilter = (f: Filters, targets: CrossFilterTarget[], multi: boolean): Filters => {
+  if (!targets.length) return f;
+  if (!multi && targets.every(t => isApplied(f, t))) {
+    return targets.reduce<Filters>((acc, t) => t.field === 'dates'
+      ? { ...acc, dateFrom: '', dateTo: '' }
+      : { ...acc, [t.field]: [] }, f);
+  }
+  return targets.reduce<Filters>((acc, t) => {
+    if (t.field === 'dates') {
+      if (!multi || !acc.dateFrom || !acc.dateTo) return { ...acc, dateFrom: t.range.from, dateTo: t.range.to };
+      return {
+        ...acc,
+        dateFrom: t.range.from < acc.dateFrom ? t.range.from : acc.dateFrom,
+        dateTo: t.range.to > acc.dateTo ? t.range.to : acc.dateTo,
+      };
+    }
+    const list = acc[t.field];
+    if (!multi) return { ...acc, [t.field]: [t.value] };
+    return { ...acc, [t.field]: list.includes(t.value) ? list.filter(x => x !== t.value) : [...list, t.value] };
+  }, f);
+};
+
+// Снятие одного элемента из строки активных фильтров
+export const removeFilterValue = (f: Filters, field: ListFilterField | 'dates', value?: string): Filters =>
+  field === 'dates'
+    ? { ...f, dateFrom: '', dateTo: '' }
+    : { ...f, [field]: f[field].filter(x => x !== value) };
+
+// --- ЦЕЛИ КЛИКА ---
+
+// Точка графика — корзина периода: день, неделя с понедельника, месяц или квартал
+export const bucketRange = (key: string, g: Granularity): DateRange => {
+  switch (g) {
+    case 'day': return { from: key, to: key };
+    case 'week': return { from: key, to: addDays(key, 6) };
+    case 'month': return { from: `${key}-01`, to: endOfMonth(`${key}-01`) };
+    case 'quarter': {
+      const first = (Number(key.slice(6)) - 1) * 3 + 1;
+      const monthStart = (m: number) => `${key.slice(0, 4)}-${String(m).padStart(2, '0')}-01`;
+      return { from: monthStart(first), to: endOfMonth(monthStart(first + 2)) };
+    }
+  }
+};
+
+const LIST_FIELDS: Partial<Record<PivotDimension, ListFilterField>> = {
+  store_name: 'stores',
+  category_name: 'categories',
+  unit_type: 'unitTypes',
+};
+
+// Период по уровням даты в пути: год, год и квартал, год и месяц или сама дата.
+// Месяц или квартал без года, как и неделя, в диапазон дат не переводятся
+const pathDateRange = (dims: PivotDimension[], path: string[]): DateRange | null => {
+  const at = (dim: PivotDimension) => {
+    const i = dims.indexOf(dim);
+    return i >= 0 && i < path.length ? path[i] : null;
+  };
+  const date = at('date');
+  if (date) return { from: date, to: date };
+  const year = at('year');
+  if (!year) return null;
+  const month = at('month');
+  if (month) {
+    const start = `${year}-${month.padStart(2, '0')}-01`;
+    return { from: start, to: endOfMonth(start) };
+  }
+  const quarter = at('quarter');
+  if (quarter) return bucketRange(`${year}-Q${quarter}`, 'quarter');
+  return { from: `${year}-01-01`, to: `${year}-12-31` };
+};
+
+// Шапка сводной фильтрует по всему своему пути: подкатегория внутри магазина выбирает и магазин
+export const pivotPathTargets = (dims: PivotDimension[], path: string[]): CrossFilterTarget[] => {
+  const targets: CrossFilterTarget[] = [];
+  path.forEach((value, i) => {
+    const field = LIST_FIELDS[dims[i]];
+    if (field) targets.push({ field, value });
+  });
+  const range = pathDateRange(dims, path);
+  if (range) targets.push({ field: 'dates', range });
+  return targets;
+};
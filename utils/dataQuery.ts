@@ -0,0 +1,253 @@
+import { NormalizedRow } from '../types';
+import { Totals, computeTotals, computeDelta, filterRows } from './aggregate';
+import { DateRange, ComparisonMode, comparisonRange, dataDateRange, isValidISODate, addDays, startOfMonth, endOfMonth } from './dates';
+import { Granularity, bucketKey, bucketLabel } from './timeSeries';
+import { Formatter, formatCompact } from './format';
+import { UnitType, UNIT_TYPE_LABELS } from './units';
+
+// --- ЗАПРОС К ДАННЫМ ИЗ ВОПРОСА ---
+
+export type QueryMetric = keyof Totals;
+
+export const QUERY_METRIC_LABELS: Record<QueryMetric, string> = {
+  revenue: 'Выручка',
+  checks: 'Чеки',
+  atv: 'Средний чек',
+  upt: 'Товаров в чеке (UPT)',
+  pieces: 'Штуки',
+  weight: 'Вес, кг',
+};
+
+// Штук нет среди показателей графика — форматируются как количество
+export const formatQueryValue = (metric: QueryMetric, val: number, fmt: Formatter): string =>
+  metric === 'pieces' ? formatCompact(val) : fmt.seriesMetric(metric, val);
+
+export type QueryGroupBy = 'none' | 'store_name' | 'category_name' | 'unit_type' | Granularity;
+
+export const QUERY_GROUP_LABELS: Record<QueryGroupBy, string> = {
+  none: 'Без группировки',
+  store_name: 'Магазин',
+  category_name: 'Категория',
+  unit_type: 'Тип единицы',
+  day: 'День',
+  week: 'Неделя',
+  month: 'Месяц',
+  quarter: 'Квартал',
+};
+
+export type QueryCompare = Exclude<ComparisonMode, 'custom'>;
+export type QuerySortBy = 'value' | 'change' | 'change_pct';
+export type QueryChart = 'bar' | 'line' | 'table';
+
+// Плоская структура — её проще всего получить от модели по схеме и проверить
+export interface DataQuery {
+  title: string;
+  metric: QueryMetric;
+  groupBy: QueryGroupBy;
+  // Пустая дата — граница выборки
+  dateFrom: string;
+  dateTo: string;
+  stores: string[];
+  categories: string[];
+  unitTypes: string[];
+  compare: QueryCompare;
+  sortBy: QuerySortBy;
+  sortDir: 'asc' | 'desc';
+  limit: number;
+  chart: QueryChart;
+}
+
+export const MAX_QUERY_LIMIT = 50;
+
+// Что известно о выборке: из этого модель выбирает магазины, категории и даты
+export interface QuestionContext {
+  stores: string[];
+  categories: string[];
+  range: DateRange | null;
+}
+
+export const questionContext = (rows: NormalizedRow[]): QuestionContext => ({
+  stores: Array.from(new Set(rows.map(r => r.store_name))).sort(),
+  categories: Array.from(new Set(rows.map(r => r.category_name))).sort(),
+  range: dataDateRange(rows.map(r => r.date).filter(Boolean)),
+});
+
+const TIME_GROUPS: QueryGroupBy[] = ['day', 'week', 'month', 'quarter'];
+
+export const isTimeGroup = (g: QueryGroupBy): g is Granularity => TIME_GROUPS.includes(g);
+
+const pickOne = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+// Названия сверяются без учёта регистра; неизвестные отбрасываются с предупреждением
+const matchNames = (value: unknown, known: string[], what: string, warnings: string[]): string[] => {
+  if (!Array.isArray(value)) return [];
+  const byLower = new Map(known.map(k => [k.toLowerCase(), k]));
+  const matched: string[] = [];
+  value.forEach(v => {
+    const name = byLower.get(String(v).trim().toLowerCase());
+    if (name) {
+      if (!matched.includes(name)) matched.push(name);
+    } else {
+      warnings.push(`${what} «${v}» нет в выборке — условие пропущено`);
+    }
+  });
+  return matched;
+};
+
+// Ответ модели не принимается на веру: всё неизвестное заменяется безопасными значениями
+export const sanitizeQuery = (raw: any, ctx: QuestionContext): { query: DataQuery, warnings: string[] } => {
+  const warnings: string[] = [];
+  const date = (v: unknown) => typeof v === 'string' && isValidISODate(v) ? v : '';
+  let dateFrom = date(raw?.dateFrom);
+  let dateTo = date(raw?.dateTo);
+  if (dateFrom && dateTo && dateFrom > dateTo) [dateFrom, dateTo] = [dateTo, dateFrom];
+  if (ctx.range && ((dateFrom && dateFrom > ctx.range.to) || (dateTo && dateTo < ctx.range.from))) {
+    warnings.push(`Период ${dateFrom || '…'} — ${dateTo || '…'} вне выборки (${ctx.range.from} — ${ctx.range.to})`);
+  }
+  const limit = Math.round(Number(raw?.limit));
+  const groupBy = pickOne(raw?.groupBy, Object.keys(QUERY_GROUP_LABELS) as QueryGroupBy[], 'none');
+
+  return {
+    query: {
+      title: typeof raw?.title === 'string' && raw.title.trim() ? raw.title.trim() : 'Ответ',
+      metric: pickOne(raw?.metric, Object.keys(QUERY_METRIC_LABELS) as QueryMetric[], 'revenue'),
+      groupBy,
+      dateFrom,
+      dateTo,
+      stores: matchNames(raw?.stores, ctx.stores, 'Магазина', warnings),
+      categories: matchNames(raw?.categories, ctx.categories, 'Категории', warnings),
+      unitTypes: matchNames(raw?.unitTypes, Object.keys(UNIT_TYPE_LABELS), 'Типа единиц', warnings),
+      compare: pickOne(raw?.compare, ['none', 'previous', 'last_year'] as const, 'none'),
+      sortBy: pickOne(raw?.sortBy, ['value', 'change', 'change_pct'] as const, 'value'),
+      sortDir: pickOne(raw?.sortDir, ['asc', 'desc'] as const, 'desc'),
+      limit: limit >= 1 ? Math.min(limit, MAX_QUERY_LIMIT) : (isTimeGroup(groupBy) ? MAX_QUERY_LIMIT : 10),
+      chart: pickOne(raw?.chart, ['bar', 'line', 'table'] as const, isTimeGroup(groupBy) ? 'line' : 'bar'),
+    },
+    warnings,
+  };
+};
+
+// --- ВЫПОЛНЕНИЕ ---
+
+export interface QueryResultRow {
+  key: string;
+  label: string;
+  value: number;
+  // Значение за период сравнения и изменение к нему; null — в базе нет данных
+  base: number | null;
+  change: number | null;
+  changePct: number | null;
+}
+
+export interface DataQueryResult {
+  rows: QueryResultRow[];
+  range: DateRange | null;
+  baseRange: DateRange | null;
+  total: number;
+  baseTotal: number | null;
+  // Сколько групп было до обрезки по limit
+  groupCount: number;
+}
+
+// «Предыдущий период» для целого календарного месяца — предыдущий месяц, а не столько же дней назад
+export const previousRange = (range: DateRange): DateRange => {
+  if (range.from === startOfMonth(range.from) && range.to === endOfMonth(range.from)) {
+    const prev = startOfMonth(addDays(range.from, -1));
+    return { from: prev, to: endOfMonth(prev) };
+  }
+  return comparisonRange('previous', range, range)!;
+};
+
+const groupKey = (row: NormalizedRow, g: QueryGroupBy): string => {
+  if (g === 'none') return '';
+  if (isTimeGroup(g)) return bucketKey(row.date, g);
+  return String(row[g]);
+};
+
+const groupLabel = (key: string, g: QueryGroupBy): string => {
+  if (g === 'none') return 'Итого';
+  if (isTimeGroup(g)) return bucketLabel(key, g);
+  if (g === 'unit_type') return UNIT_TYPE_LABELS[key as UnitType] || key;
+  return key;
+};
+
+const groupTotals = (rows: NormalizedRow[], g: QueryGroupBy): Map<string, Totals> => {
+  const groups = new Map<string, NormalizedRow[]>();
+  rows.forEach(r => {
+    const key = groupKey(r, g);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(r);
+  });
+  return new Map(Array.from(groups, ([key, list]) => [key, computeTotals(list)]));
+};
+
+// Сравнение по времени сопоставляет корзины по порядку: первая неделя с первой неделей базы
+const alignBaseKeys = (keys: string[], baseKeys: string[]): Map<string, string> =>
+  new Map(keys.map((k, i) => [k, baseKeys[i]]));
+
+// Запрос выполняется локально по текущей выборке; модель только переводит вопрос в запрос
+export const executeDataQuery = (rows: NormalizedRow[], query: DataQuery): DataQueryResult => {
+  const dated = rows.filter(r => r.date);
+  const dataRange = dataDateRange(dated.map(r => r.date));
+  const range = dataRange
+    ? { from: query.dateFrom || dataRange.from, to: query.dateTo || dataRange.to }
+    : null;
+  const filters = { dateFrom: '', dateTo: '', stores: query.stores, categories: query.categories, unitTypes: query.unitTypes };
+  const current = range ? filterRows(dated, { ...filters, dateFrom: range.from, dateTo: range.to }) : [];
+
+  const baseRange = range && query.compare !== 'none'
+    ? (query.compare === 'previous' ? previousRange(range) : comparisonRange('last_year', range, range))
+    : null;
+  const base = baseRange ? filterRows(dated, { ...filters, dateFrom: baseRange.from, dateTo: baseRange.to }) : [];
+
+  const currentGroups = groupTotals(current, query.groupBy);
+  const baseGroups = baseRange ? groupTotals(base, query.groupBy) : new Map<string, Totals>();
+  const keys = Array.from(currentGroups.keys()).sort();
+  const baseKeyOf = isTimeGroup(query.groupBy)
+    ? alignBaseKeys(keys, Array.from(baseGroups.keys()).sort())
+    : new Map(keys.map(k => [k, k]));
+
+  const resultRows: QueryResultRow[] = keys.map(key => {
+    const value = currentGroups.get(key)![query.metric];
+    const baseTotals = baseGroups.get(baseKeyOf.get(key) || '');
+    const baseValue = baseRange && baseTotals ? baseTotals[query.metric] : null;
+    const delta = baseValue !== null ? computeDelta(value, baseValue) : null;
+    return { key, label: groupLabel(key, query.groupBy), value, base: baseValue, change: delta?.abs ?? null, changePct: delta?.pct ?? null };
+  });
+
+  // Группы без базы при сортировке по изменению уходят в конец при любом направлении
+  const sortValue = (r: QueryResultRow): number | null =>
+    query.sortBy === 'value' ? r.value : query.sortBy === 'change' ? r.change : r.changePct;
+  const sign = query.sortDir === 'asc' ? 1 : -1;
+  const sorted = isTimeGroup(query.groupBy) && query.chart === 'line'
+    ? resultRows
+    : [...resultRows].sort((a, b) => {
+      const va = sortValue(a);
+      const vb = sortValue(b);
+      if (va === null || vb === null) return va === null ? (vb === null ? 0 : 1) : -1;
+      return sign * (va - vb);
+    });
+
+  return {
+    rows: sorted.slice(0, query.limit),
+    range,
+    baseRange,
+    total: computeTotals(current)[query.metric],
+    baseTotal: baseRange ? computeTotals(base)[query.metric] : null,
+    groupCount: resultRows.length,
+  };
+};
+
+// Короткое описание того, как понят вопрос, — чтобы пользователь мог проверить интерпретацию
+export const describeQuery = (query: DataQuery, result: DataQueryResult): string[] => {
+  const parts = [
+    `${QUERY_METRIC_LABELS[query.metric]}${query.groupBy !== 'none' ? ` по группам «${QUERY_GROUP_LABELS[query.groupBy]}»` : ''}`,
+    result.range ? `период ${result.range.from} — ${result.range.to}` : 'нет данных',
+  ];
+  if (result.baseRange) parts.push(`сравнение с ${result.baseRange.from} — ${result.baseRange.to}`);
+  if (query.stores.length) parts.push(`магазины: ${query.stores.join(', ')}`);
+  if (query.categories.length) parts.push(`категории: ${query.categories.join(', ')}`);
+  if (query.unitTypes.length) parts.push(`единицы: ${query.unitTypes.map(u => UNIT_TYPE_LABELS[u as UnitType] || u).join(', ')}`);
+  return parts;
+};
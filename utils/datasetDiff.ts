@@ -0,0 +1,74 @@
+import { NormalizedRow } from '../types';
+import { computeTotals, Totals } from './aggregate';
+import { rowKey } from './normalize';
+
+// --- СРАВНЕНИЕ ДВУХ ВЕРСИЙ НАБОРА ---
+
+export interface StoreDiff {
+  store: string;
+  before: number;
+  after: number;
+}
+
+export interface DatasetDiff {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  before: Totals;
+  after: Totals;
+  // Выручка по магазинам, сначала с наибольшим изменением
+  stores: StoreDiff[];
+  // Дни, в которых хотя бы одна строка добавлена, удалена или изменилась
+  changedDates: string[];
+}
+
+const sameValues = (a: NormalizedRow, b: NormalizedRow) =>
+  a.revenue_rub === b.revenue_rub && a.checks === b.checks && a.pieces === b.pieces && a.weight_kg === b.weight_kg;
+
+// Строки сопоставляются по тому же ключу, что и при слиянии: день, магазин, категория, единица
+export const diffDatasets = (before: NormalizedRow[], after: NormalizedRow[]): DatasetDiff => {
+  const beforeByKey = new Map(before.map(r => [rowKey(r), r]));
+  const afterKeys = new Set<string>();
+  const dates = new Set<string>();
+  let added = 0;
+  let changed = 0;
+
+  after.forEach(r => {
+    const key = rowKey(r);
+    afterKeys.add(key);
+    const prev = beforeByKey.get(key);
+    if (!prev) {
+      added++;
+      dates.add(r.date);
+    } else if (!sameValues(prev, r)) {
+      changed++;
+      dates.add(r.date);
+    }
+  });
+  let removed = 0;
+  beforeByKey.forEach((r, key) => {
+    if (afterKeys.has(key)) return;
+    removed++;
+    dates.add(r.date);
+  });
+
+  const stores = new Map<string, StoreDiff>();
+  const storeAt = (store: string) => {
+    if (!stores.has(store)) stores.set(store, { store, before: 0, after: 0 });
+    return stores.get(store)!;
+  };
+  before.forEach(r => { storeAt(r.store_name).before += r.revenue_rub; });
+  after.forEach(r => { storeAt(r.store_name).after += r.revenue_rub; });
+
+  return {
+    added,
+    removed,
+    changed,
+    unchanged: after.length - added - changed,
+    before: computeTotals(before),
+    after: computeTotals(after),
+    stores: Array.from(stores.values()).sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before)),
+    changedDates: Array.from(dates).sort(),
+  };
+};
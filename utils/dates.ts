@@ -0,0 +1,162 @@
+// --- РАБОТА С ДАТАМИ (YYYY-MM-DD, без часовых поясов) ---
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+const DAY_MS = 86400000;
+
+export const MONTH_NAMES = [
+  "Янв", "Фев", "Мар", "Апр", "Май", "Июн",
+  "Июл", "Авг", "Сен", "Окт", "Ноя", "Дек"
+];
+
+export const parseISODate = (iso: string): Date => new Date(`${iso}T00:00:00Z`);
+
+export const toISODate = (d: Date): string => d.toISOString().slice(0, 10);
+
+// Строго YYYY-MM-DD и существующий день: «2025-13-01» и «2025-09-31» не проходят
+export const isValidISODate = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const d = parseISODate(value);
+  return !isNaN(d.getTime()) && toISODate(d) === value;
+};
+
+export const addDays = (iso: string, days: number): string => {
+  const d = parseISODate(iso);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toISODate(d);
+};
+
+// 29 февраля при сдвиге на невисокосный год превращается в 28-е
+export const addYears = (iso: string, years: number): string => {
+  const d = parseISODate(iso);
+  const month = d.getUTCMonth();
+  d.setUTCFullYear(d.getUTCFullYear() + years);
+  if (d.getUTCMonth() !== month) d.setUTCDate(0);
+  return toISODate(d);
+};
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((parseISODate(to).getTime() - parseISODate(from).getTime()) / DAY_MS);
+
+// Границы выбранного периода: пустые поля фильтра заменяются крайними датами данных
+export const dataDateRange = (dates: string[]): DateRange | null => {
+  const valid = dates.filter(isValidISODate).sort();
+  return valid.length ? { from: valid[0], to: valid[valid.length - 1] } : null;
+};
+
+// --- СРАВНЕНИЕ ПЕРИОДОВ ---
+
+export type ComparisonMode = 'none' | 'previous' | 'last_year' | 'custom';
+
+export const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  none: 'Без сравнения',
+  previous: 'Предыдущий период',
+  last_year: 'Год назад',
+  custom: 'Свой период',
+};
+
+export const comparisonRange = (mode: ComparisonMode, current: DateRange, custom: DateRange): DateRange | null => {
+  switch (mode) {
+    case 'previous': {
+      const length = daysBetween(current.from, current.to) + 1;
+      return { from: addDays(current.from, -length), to: addDays(current.from, -1) };
+    }
+    case 'last_year':
+      return { from: addYears(current.from, -1), to: addYears(current.to, -1) };
+    case 'custom':
+      return custom.from && custom.to ? custom : null;
+    default:
+      return null;
+  }
+};
+
+// Переносит дату базового периода на соответствующий день текущего для наложения на графике
+export const alignToCurrent = (date: string, mode: ComparisonMode, current: DateRange, base: DateRange): string =>
+  mode === 'last_year' ? addYears(date, 1) : addDays(date, daysBetween(base.from, current.from));
+
+// --- БЫСТРЫЕ ПЕРИОДЫ ---
+
+export const startOfWeek = (iso: string): string =>
+  addDays(iso, -((parseISODate(iso).getUTCDay() + 6) % 7));
+
+export const startOfMonth = (iso: string): string => `${iso.slice(0, 7)}-01`;
+
+// Нулевой день следующего месяца — последний день текущего, с учётом високосных лет
+export const endOfMonth = (iso: string): string => {
+  const d = parseISODate(startOfMonth(iso));
+  return toISODate(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)));
+};
+
+export const startOfQuarter = (iso: string): string => {
+  const month = Math.floor((Number(iso.slice(5, 7)) - 1) / 3) * 3 + 1;
+  return `${iso.slice(0, 4)}-${String(month).padStart(2, '0')}-01`;
+};
+
+export const startOfYear = (iso: string): string => `${iso.slice(0, 4)}-01-01`;
+
+// ISO-неделя принадлежит году своего четверга
+export const isoWeek = (iso: string): { year: number, week: number } => {
+  const thursday = parseISODate(addDays(startOfWeek(iso), 3));
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor(daysBetween(`${year}-01-01`, toISODate(thursday)) / 7) + 1;
+  return { year, week };
+};
+
+export interface DatePreset {
+  id: string;
+  label: string;
+  range: DateRange;
+}
+
+export const LAST_N_DAYS = [7, 30, 90];
+
+// Относительные периоды отсчитываются от опорной даты; конец не заходит за неё
+export const relativePresets = (anchor: string): DatePreset[] => {
+  const week = startOfWeek(anchor);
+  const month = startOfMonth(anchor);
+  const prevMonth = startOfMonth(addDays(month, -1));
+  return [
+    { id: 'today', label: 'Сегодня', range: { from: anchor, to: anchor } },
+    { id: 'yesterday', label: 'Вчера', range: { from: addDays(anchor, -1), to: addDays(anchor, -1) } },
+    { id: 'this_week', label: 'Эта неделя', range: { from: week, to: anchor } },
+    { id: 'last_week', label: 'Прошлая неделя', range: { from: addDays(week, -7), to: addDays(week, -1) } },
+    { id: 'this_month', label: 'Этот месяц', range: { from: month, to: anchor } },
+    { id: 'last_month', label: 'Прошлый месяц', range: { from: prevMonth, to: endOfMonth(prevMonth) } },
+    { id: 'qtd', label: 'С начала квартала', range: { from: startOfQuarter(anchor), to: anchor } },
+    { id: 'ytd', label: 'С начала года', range: { from: startOfYear(anchor), to: anchor } },
+    ...LAST_N_DAYS.map(n => ({
+      id: `last_${n}`,
+      label: `${n} дней`,
+      range: { from: addDays(anchor, -(n - 1)), to: anchor },
+    })),
+  ];
+};
+
+// Месяцы и ISO-недели, в которых есть данные, — всегда целиком, от первого до последнего дня
+export const monthPresets = (dates: string[]): DatePreset[] =>
+  Array.from(new Set(dates.map(startOfMonth))).sort().map(from => ({
+    id: `month_${from.slice(0, 7)}`,
+    label: from.slice(0, 7),
+    range: { from, to: endOfMonth(from) },
+  }));
+
+export const weekPresets = (dates: string[]): DatePreset[] =>
+  Array.from(new Set(dates.map(startOfWeek))).sort().map(from => {
+    const { year, week } = isoWeek(from);
+    return {
+      id: `week_${from}`,
+      label: `${year}-W${String(week).padStart(2, '0')}`,
+      range: { from, to: addDays(from, 6) },
+    };
+  });
+
+export const yearRange = (year: number): DateRange => ({ from: `${year}-01-01`, to: `${year}-12-31` });
+
+// Сегодняшняя дата по местному времени пользователя
+export const todayISO = (): string => {
+  const now = new Date();
+  return toISODate(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+};
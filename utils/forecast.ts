@@ -0,0 +1,166 @@
+import { NormalizedRow } from '../types';
+import { addDays } from './dates';
+import { SeriesPoint, bucketKey, bucketLabel } from './timeSeries';
+
+// --- ПРОГНОЗ ВЫРУЧКИ ---
+
+export type ForecastMethod = 'seasonal_naive' | 'exp_smoothing';
+export type ForecastGranularity = 'day' | 'week';
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  seasonal_naive: 'Сезонный наивный',
+  exp_smoothing: 'Экспоненциальное сглаживание',
+};
+
+export const FORECAST_HORIZONS = [7, 14, 30, 60];
+
+// Сезонность по дням недели; у недельного ряда годовой сезонности на таких данных не набрать
+const SEASON_LENGTH: Record<ForecastGranularity, number> = { day: 7, week: 1 };
+const STEP_DAYS: Record<ForecastGranularity, number> = { day: 1, week: 7 };
+
+// 95% доверительный интервал при нормальных остатках
+const Z_95 = 1.96;
+
+export interface ForecastPoint {
+  key: string;
+  value: number;
+  low: number;
+  high: number;
+}
+
+export interface ForecastResult {
+  points: ForecastPoint[];
+  // Средняя абсолютная ошибка в процентах на отложенном хвосте ряда; null — мало данных
+  mape: number | null;
+}
+
+// Плотный ряд: дни или недели без продаж заполняются нулями, иначе сезонность съезжает
+export const denseSeries = (rows: NormalizedRow[], granularity: ForecastGranularity): { key: string, value: number }[] => {
+  const sums = new Map<string, number>();
+  rows.forEach(r => {
+    if (!r.date) return;
+    const key = bucketKey(r.date, granularity);
+    sums.set(key, (sums.get(key) || 0) + r.revenue_rub);
+  });
+  const keys = Array.from(sums.keys()).sort();
+  if (!keys.length) return [];
+  const out: { key: string, value: number }[] = [];
+  for (let key = keys[0]; key <= keys[keys.length - 1]; key = addDays(key, STEP_DAYS[granularity])) {
+    out.push({ key, value: sums.get(key) || 0 });
+  }
+  return out;
+};
+
+interface Fit {
+  forecast: number[];
+  // Ошибки прогноза на шаг вперёд внутри обучающего ряда
+  residuals: number[];
+}
+
+const seasonalNaive = (values: number[], m: number, h: number): Fit => {
+  const n = values.length;
+  const residuals = values.slice(m).map((v, i) => v - values[i]);
+  const forecast = Array.from({ length: h }, (_, i) => values[n - m + (i % m)]);
+  return { forecast, residuals };
+};
+
+// Аддитивная модель Хольта — Уинтерса: уровень, тренд и сезонная поправка на день недели
+const holtWinters = (values: number[], m: number, h: number, alpha: number, beta: number, gamma: number): Fit => {
+  const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+  const first = values.slice(0, m);
+  let level = mean(first);
+  let trend = values.length >= 2 * m ? (mean(values.slice(m, 2 * m)) - level) / m : 0;
+  const season = first.map(v => m > 1 ? v - level : 0);
+
+  const residuals: number[] = [];
+  for (let t = m; t < values.length; t++) {
+    const s = season[t % m];
+    residuals.push(values[t] - (level + trend + s));
+    const prevLevel = level;
+    level = alpha * (values[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    if (m > 1) season[t % m] = gamma * (values[t] - level) + (1 - gamma) * s;
+  }
+
+  const n = values.length;
+  const forecast = Array.from({ length: h }, (_, i) => level + (i + 1) * trend + season[(n + i) % m]);
+  return { forecast, residuals };
+};
+
+const ALPHAS = [0.1, 0.3, 0.5];
+const BETAS = [0, 0.05, 0.15];
+const GAMMAS = [0.1, 0.3];
+
+const sse = (residuals: number[]) => residuals.reduce((acc, e) => acc + e * e, 0);
+
+// Параметры сглаживания подбираются перебором по сетке — ряды короткие, это дёшево
+const fit = (values: number[], m: number, h: number, method: ForecastMethod): Fit => {
+  if (method === 'seasonal_naive') return seasonalNaive(values, m, h);
+  const candidates = ALPHAS.flatMap(a => BETAS.flatMap(b => GAMMAS.map(g => holtWinters(values, m, h, a, b, g))));
+  return candidates.reduce((best, c) => sse(c.residuals) < sse(best.residuals) ? c : best);
+};
+
+export const mape = (actual: number[], predicted: number[]): number | null => {
+  const pairs = actual.map((a, i) => [a, predicted[i]]).filter(([a]) => a > 0);
+  if (!pairs.length) return null;
+  return pairs.reduce((acc, [a, p]) => acc + Math.abs(a - p) / a, 0) / pairs.length * 100;
+};
+
+export const horizonSteps = (horizonDays: number, granularity: ForecastGranularity): number =>
+  Math.max(1, Math.ceil(horizonDays / STEP_DAYS[granularity]));
+
+export const forecastSeries = (
+  rows: NormalizedRow[],
+  granularity: ForecastGranularity,
+  method: ForecastMethod,
+  horizonDays: number
+): ForecastResult => {
+  const series = denseSeries(rows, granularity);
+  const m = SEASON_LENGTH[granularity];
+  const h = horizonSteps(horizonDays, granularity);
+  const values = series.map(p => p.value);
+  if (values.length < 2 * m + 1) return { points: [], mape: null };
+
+  const { forecast, residuals } = fit(values, m, h, method);
+  const sigma = residuals.length ? Math.sqrt(sse(residuals) / residuals.length) : 0;
+
+  // Интервал расширяется с каждым полным сезоном горизонта
+  const lastKey = series[series.length - 1].key;
+  const points = forecast.map((value, i) => {
+    const spread = Z_95 * sigma * Math.sqrt(1 + Math.floor(i / m));
+    const v = Math.max(0, value);
+    return {
+      key: addDays(lastKey, (i + 1) * STEP_DAYS[granularity]),
+      value: v,
+      low: Math.max(0, value - spread),
+      high: Math.max(0, value + spread),
+    };
+  });
+
+  // Бэктест: модель обучается без последних точек и сравнивается с ними
+  const holdout = Math.min(h, Math.floor(values.length / 4));
+  const train = values.slice(0, values.length - holdout);
+  const backtest = holdout > 0 && train.length >= 2 * m + 1
+    ? mape(values.slice(train.length), fit(train, m, holdout, method).forecast.map(v => Math.max(0, v)))
+    : null;
+
+  return { points, mape: backtest };
+};
+
+// Прогноз продолжает ряд графика: последняя фактическая точка связывает пунктир с линией факта
+export const withForecast = (points: SeriesPoint[], result: ForecastResult, granularity: ForecastGranularity): SeriesPoint[] => {
+  if (!result.points.length || !points.length) return points;
+  const last = points[points.length - 1];
+  const anchor = last.value ?? 0;
+  return [
+    ...points.slice(0, -1),
+    { ...last, forecast: anchor, forecastLow: anchor, forecastBand: 0 },
+    ...result.points.map(p => ({
+      key: p.key,
+      name: bucketLabel(p.key, granularity),
+      forecast: p.value,
+      forecastLow: p.low,
+      forecastBand: p.high - p.low,
+    })),
+  ];
+};
@@ -0,0 +1,89 @@
+import type { ChartMetric, SeriesMetric } from './timeSeries';
+import { MetricFormat, CompiledMetrics, isCustomMetricKey } from './metrics';
+
+// --- ФОРМАТИРОВАНИЕ ---
+
+// --- ВАЛЮТА ОТЧЁТА ---
+
+export const DEFAULT_CURRENCY = 'RUB';
+
+// Источники пишут валюту как угодно: «₽», «руб.», «RUR»
+const CURRENCY_ALIASES: Record<string, string> = {
+  '₽': 'RUB', 'РУБ': 'RUB', 'РУБ.': 'RUB', 'RUR': 'RUB',
+  '$': 'USD', '€': 'EUR', '₸': 'KZT', 'ТГ': 'KZT', 'BYR': 'BYN',
+};
+
+const currencyFormatter = (code: string) =>
+  new Intl.NumberFormat('ru-RU', { style: 'currency', currency: code, maximumFractionDigits: 0 });
+
+// Код ISO 4217 из произвольной записи; неизвестная валюта — рубли
+export const normalizeCurrency = (value?: string | null): string => {
+  const raw = (value || '').trim().toUpperCase();
+  const code = CURRENCY_ALIASES[raw] || raw;
+  if (!/^[A-Z]{3}$/.test(code)) return DEFAULT_CURRENCY;
+  try {
+    currencyFormatter(code);
+    return code;
+  } catch {
+    return DEFAULT_CURRENCY;
+  }
+};
+
+export const formatCompact = (val: number) => 
+  val.toLocaleString('ru-RU', { maximumFractionDigits: 0 });
+
+export const formatWeight = (val: number) => 
+  val.toLocaleString('ru-RU', { maximumFractionDigits: 2 }) + ' кг';
+
+export const formatPercent = (val: number) => 
+  (val > 0 ? '+' : '') + val.toLocaleString('ru-RU', { maximumFractionDigits: 1 }) + '%';
+
+// Суммы в валюте отчёта. Форматтер строится из кода валюты набора и передаётся явно:
+// дашборд раздаёт его через контекст, предпросмотр импорта строит свой по валюте файла
+export interface Formatter {
+  currencyCode: string;
+  currencySymbol: string;
+  currency: (val: number) => string;
+  metricValue: (val: number, format: MetricFormat) => string;
+  seriesMetric: (metric: SeriesMetric, val: number) => string;
+  // Вычисляемый показатель — в формате из его настроек; удалённый — как количество
+  metric: (metric: ChartMetric, val: number, metrics: CompiledMetrics) => string;
+}
+
+export const createFormatter = (currency?: string | null): Formatter => {
+  const code = normalizeCurrency(currency);
+  const nf = currencyFormatter(code);
+  const formatCurrency = (val: number) => nf.format(val);
+
+  const metricValue = (val: number, format: MetricFormat): string => {
+    switch (format) {
+      case 'currency': return formatCurrency(val);
+      case 'percent': return `${val.toLocaleString('ru-RU', { maximumFractionDigits: 1 })}%`;
+      case 'decimal': return val.toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+      default: return formatCompact(val);
+    }
+  };
+
+  const seriesMetric = (metric: SeriesMetric, val: number): string => {
+    switch (metric) {
+      case 'revenue':
+      case 'atv': return formatCurrency(val);
+      case 'weight': return formatWeight(val);
+      case 'upt': return val.toFixed(2);
+      default: return formatCompact(val);
+    }
+  };
+
+  return {
+    currencyCode: code,
+    currencySymbol: nf.formatToParts(0).find(p => p.type === 'currency')?.value || code,
+    currency: formatCurrency,
+    metricValue,
+    seriesMetric,
+    metric: (metric, val, metrics) => {
+      if (!isCustomMetricKey(metric)) return seriesMetric(metric, val);
+      const custom = metrics.get(metric);
+      return custom ? metricValue(val, custom.metric.format) : formatCompact(val);
+    },
+  };
+};
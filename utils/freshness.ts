@@ -0,0 +1,48 @@
+import { ReportMeta } from '../types';
+
+// --- СВЕЖЕСТЬ ДАННЫХ ---
+
+export interface Freshness {
+  // Момент, от которого считается возраст: формирование отчёта или, если его нет, загрузка
+  since: string;
+  fromMeta: boolean;
+  ageHours: number;
+  stale: boolean;
+}
+
+const HOUR_MS = 3600 * 1000;
+
+export const dataFreshness = (
+  meta: ReportMeta | null,
+  loadedAt: string | null,
+  now: number,
+  staleAfterHours: number
+): Freshness | null => {
+  const fromMeta = !!meta?.generated_at && !isNaN(Date.parse(meta.generated_at));
+  const since = fromMeta ? meta!.generated_at : loadedAt;
+  if (!since || isNaN(Date.parse(since))) return null;
+  const ageHours = Math.max(0, (now - Date.parse(since)) / HOUR_MS);
+  return { since, fromMeta, ageHours, stale: ageHours >= staleAfterHours };
+};
+
+const plural = (n: number, one: string, few: string, many: string) => {
+  const mod10 = n % 10;
+  const mod100 = n % 100;
+  if (mod10 === 1 && mod100 !== 11) return one;
+  if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return few;
+  return many;
+};
+
+// «15 минут», «5 часов», «2 дня»
+export const formatAge = (hours: number): string => {
+  if (hours < 1) {
+    const minutes = Math.floor(hours * 60);
+    return `${minutes} ${plural(minutes, 'минуту', 'минуты', 'минут')}`;
+  }
+  if (hours < 48) {
+    const h = Math.floor(hours);
+    return `${h} ${plural(h, 'час', 'часа', 'часов')}`;
+  }
+  const days = Math.floor(hours / 24);
+  return `${days} ${plural(days, 'день', 'дня', 'дней')}`;
+};
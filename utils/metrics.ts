@@ -0,0 +1,292 @@
+import { NormalizedRow, CustomMetricKey } from '../types';
+
+// --- ВЫЧИСЛЯЕМЫЕ ПОКАЗАТЕЛИ ---
+
+type UnitType = NormalizedRow['unit_type'];
+
+// Суммы по набору строк; любая формула считается из них на каждом уровне итогов
+export interface MetricSums {
+  rev: number;
+  chk: number;
+  pcs: number;
+  wgt: number;
+  rows: number;
+  days: Set<string>;
+}
+
+export interface MetricAcc extends MetricSums {
+  // План выручки известен только сводной; в остальных разрезах он нулевой
+  plan: number;
+  byUnit: Record<UnitType, MetricSums>;
+}
+
+const emptySums = (): MetricSums => ({ rev: 0, chk: 0, pcs: 0, wgt: 0, rows: 0, days: new Set() });
+
+export const emptyMetricAcc = (): MetricAcc => ({
+  rev: 0, chk: 0, pcs: 0, wgt: 0, rows: 0, days: new Set(),
+  plan: 0,
+  byUnit: { kg: emptySums(), pcs: emptySums() },
+});
+
+const addToSums = (sums: MetricSums, row: NormalizedRow, detailed: boolean) => {
+  sums.rev += row.revenue_rub;
+  sums.chk += row.checks;
+  sums.pcs += row.pieces;
+  sums.wgt += row.weight_kg;
+  sums.rows += 1;
+  if (detailed && row.date) sums.days.add(row.date);
+};
+
+// Дни и разбивка по единицам нужны только формулам; без detailed копятся одни суммы — так втрое быстрее
+export const addRowToAcc = (acc: MetricAcc, row: NormalizedRow, detailed = true) => {
+  addToSums(acc, row, detailed);
+  if (detailed) addToSums(acc.byUnit[row.unit_type] || acc.byUnit.pcs, row, true);
+};
+
+export const accumulate = (rows: NormalizedRow[]): MetricAcc => {
+  const acc = emptyMetricAcc();
+  rows.forEach(r => addRowToAcc(acc, r));
+  return acc;
+};
+
+// --- ЯЗЫК ФОРМУЛ ---
+
+export type MetricField = 'revenue' | 'checks' | 'pieces' | 'weight' | 'rows' | 'days' | 'plan';
+
+export const METRIC_FIELD_LABELS: Record<MetricField, string> = {
+  revenue: 'Выручка',
+  checks: 'Чеки',
+  pieces: 'Штуки',
+  weight: 'Вес, кг',
+  rows: 'Число строк',
+  days: 'Число дней с продажами',
+  plan: 'План выручки (только в сводной)',
+};
+
+// Русские имена полей — для тех, кому так привычнее. Map, а не объект: имя из формулы
+// не должно совпасть с constructor или toString из прототипа
+const FIELD_ALIASES = new Map<string, MetricField>([
+  ['revenue', 'revenue'], ['выручка', 'revenue'],
+  ['checks', 'checks'], ['чеки', 'checks'],
+  ['pieces', 'pieces'], ['штуки', 'pieces'],
+  ['weight', 'weight'], ['вес', 'weight'],
+  ['rows', 'rows'], ['строки', 'rows'],
+  ['days', 'days'], ['дни', 'days'],
+  ['plan', 'plan'], ['план', 'plan'],
+]);
+
+const UNIT_ALIASES = new Map<string, UnitType>([['kg', 'kg'], ['кг', 'kg'], ['pcs', 'pcs'], ['шт', 'pcs']]);
+const TOTAL_NAMES = ['total', 'итого'];
+
+type Node =
+  | { type: 'num', value: number }
+  | { type: 'field', field: MetricField, unit: UnitType | null }
+  | { type: 'neg', arg: Node }
+  | { type: 'bin', op: '+' | '-' | '*' | '/', left: Node, right: Node }
+  | { type: 'total', arg: Node };
+
+interface Token {
+  kind: 'num' | 'ident' | 'op';
+  text: string;
+  pos: number;
+}
+
+const TOKEN_RE = /(\d+(?:[.,]\d+)?)|([a-zA-Zа-яА-ЯёЁ_][\wа-яА-ЯёЁ]*)|([-+*/()[\]])/y;
+
+const tokenize = (src: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < src.length) {
+    if (/\s/.test(src[pos])) {
+      pos++;
+      continue;
+    }
+    TOKEN_RE.lastIndex = pos;
+    const m = TOKEN_RE.exec(src);
+    if (!m) throw new Error(`Непонятный символ «${src[pos]}» в позиции ${pos + 1}`);
+    if (m[1]) tokens.push({ kind: 'num', text: m[1].replace(',', '.'), pos });
+    else if (m[2]) tokens.push({ kind: 'ident', text: m[2].toLowerCase(), pos });
+    else tokens.push({ kind: 'op', text: m[3], pos });
+    pos = TOKEN_RE.lastIndex;
+  }
+  return tokens;
+};
+
+// Рекурсивный спуск: выражение → слагаемые → множители; приоритеты как в арифметике
+const parse = (src: string): Node => {
+  const tokens = tokenize(src);
+  let i = 0;
+  const peek = () => tokens[i];
+  const fail = (message: string, token?: Token): never => {
+    throw new Error(token ? `${message} в позиции ${token.pos + 1}` : `${message} в конце формулы`);
+  };
+  const expect = (text: string) => {
+    const t = tokens[i];
+    if (!t || t.text !== text) fail(`Ожидается «${text}»`, t);
+    i++;
+  };
+
+  const expression = (): Node => {
+    let node = term();
+    while (peek()?.kind === 'op' && (peek().text === '+' || peek().text === '-')) {
+      const op = tokens[i++].text as '+' | '-';
+      node = { type: 'bin', op, left: node, right: term() };
+    }
+    return node;
+  };
+
+  const term = (): Node => {
+    let node = factor();
+    while (peek()?.kind === 'op' && (peek().text === '*' || peek().text === '/')) {
+      const op = tokens[i++].text as '*' | '/';
+      node = { type: 'bin', op, left: node, right: factor() };
+    }
+    return node;
+  };
+
+  const factor = (): Node => {
+    const t = tokens[i++];
+    if (!t) return fail('Формула обрывается');
+    if (t.kind === 'num') return { type: 'num', value: Number(t.text) };
+    if (t.text === '-') return { type: 'neg', arg: factor() };
+    if (t.text === '(') {
+      const node = expression();
+      expect(')');
+      return node;
+    }
+    if (t.kind === 'ident' && TOTAL_NAMES.includes(t.text)) {
+      expect('(');
+      const arg = expression();
+      expect(')');
+      return { type: 'total', arg };
+    }
+    if (t.kind === 'ident') {
+      const field = FIELD_ALIASES.get(t.text);
+      if (!field) return fail(`Неизвестное поле «${t.text}»`, t);
+      if (peek()?.text !== '[') return { type: 'field', field, unit: null };
+      i++;
+      const u = tokens[i++];
+      const unit = u && UNIT_ALIASES.get(u.text);
+      if (!unit) return fail('После «[» ожидается kg или pcs', u);
+      expect(']');
+      return { type: 'field', field, unit };
+    }
+    return fail(`Неожиданный «${t.text}»`, t);
+  };
+
+  if (!tokens.length) throw new Error('Формула пустая');
+  const node = expression();
+  if (i < tokens.length) fail(`Лишний «${tokens[i].text}»`, tokens[i]);
+  return node;
+};
+
+const fieldValue = (sums: MetricSums, acc: MetricAcc, field: MetricField): number => {
+  switch (field) {
+    case 'revenue': return sums.rev;
+    case 'checks': return sums.chk;
+    case 'pieces': return sums.pcs;
+    case 'weight': return sums.wgt;
+    case 'rows': return sums.rows;
+    case 'days': return sums.days.size;
+    case 'plan': return sums === acc ? acc.plan : 0;
+  }
+};
+
+// total — суммы всего выбранного набора: итог сводной, весь период графика, все строки KPI
+export type MetricEvaluator = (acc: MetricAcc, total: MetricAcc) => number;
+
+const evaluate = (node: Node, acc: MetricAcc, total: MetricAcc): number => {
+  switch (node.type) {
+    case 'num': return node.value;
+    case 'field': return fieldValue(node.unit ? acc.byUnit[node.unit] : acc, acc, node.field);
+    case 'neg': return -evaluate(node.arg, acc, total);
+    case 'total': return evaluate(node.arg, total, total);
+    case 'bin': {
+      const left = evaluate(node.left, acc, total);
+      const right = evaluate(node.right, acc, total);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        // Как у ATV: нет знаменателя — нет значения, показываем ноль
+        case '/': return right !== 0 ? left / right : 0;
+      }
+    }
+  }
+};
+
+// Формула разбирается один раз; ошибка разбора — исключение с понятным текстом
+export const compileFormula = (formula: string): MetricEvaluator => {
+  const ast = parse(formula);
+  return (acc, total) => {
+    const value = evaluate(ast, acc, total);
+    return Number.isFinite(value) ? value : 0;
+  };
+};
+
+export const formulaError = (formula: string): string | null => {
+  try {
+    compileFormula(formula);
+    return null;
+  } catch (err: any) {
+    return err.message;
+  }
+};
+
+// --- ПОЛЬЗОВАТЕЛЬСКИЕ ПОКАЗАТЕЛИ ---
+
+export type MetricFormat = 'currency' | 'number' | 'decimal' | 'percent';
+
+export const METRIC_FORMAT_LABELS: Record<MetricFormat, string> = {
+  currency: 'Деньги',
+  number: 'Целое число',
+  decimal: 'Дробное число',
+  percent: 'Проценты',
+};
+
+export interface CustomMetric {
+  id: string;
+  name: string;
+  formula: string;
+  format: MetricFormat;
+  // Показывать карточкой рядом с основными KPI
+  showInKpi: boolean;
+}
+
+export const METRIC_PRESETS: Omit<CustomMetric, 'id'>[] = [
+  { name: 'Выручка на кг', formula: 'revenue / weight', format: 'currency', showInKpi: false },
+  { name: 'Доля выручки, %', formula: 'revenue / total(revenue) * 100', format: 'percent', showInKpi: false },
+  { name: 'Чеков в день', formula: 'checks / days', format: 'decimal', showInKpi: true },
+  { name: 'Штук в чеке (штучный товар)', formula: 'pieces[pcs] / checks[pcs]', format: 'decimal', showInKpi: false },
+];
+
+export const createMetric = (base: Omit<CustomMetric, 'id'>): CustomMetric => ({
+  ...base,
+  id: `m-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+});
+
+export const customMetricKey = (id: string): CustomMetricKey => `custom:${id}`;
+
+export const isCustomMetricKey = (key: string): key is CustomMetricKey => key.startsWith('custom:');
+
+// --- КОМПИЛЯЦИЯ ---
+
+export interface CompiledMetric {
+  metric: CustomMetric;
+  evaluate: MetricEvaluator;
+}
+
+// Скомпилированные показатели по ключу custom:<id> — передаются явно всем, кто считает или подписывает значения
+export type CompiledMetrics = ReadonlyMap<CustomMetricKey, CompiledMetric>;
+
+export const compileMetrics = (metrics: CustomMetric[]): CompiledMetrics => {
+  const compiled = new Map<CustomMetricKey, CompiledMetric>();
+  metrics.forEach(metric => {
+    try {
+      compiled.set(customMetricKey(metric.id), { metric, evaluate: compileFormula(metric.formula) });
+    } catch {
+      // Ошибочная формула видна в редакторе, здесь она просто пропускается
+    }
+  });
+  return compiled;
+};
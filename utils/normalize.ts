@@ -0,0 +1,238 @@
+import { NormalizedRow, DataIssue, DataIssueType, ReportMeta } from '../types';
+import { isValidISODate } from './dates';
+
+// --- УТИЛИТЫ ОЧИСТКИ ---
+
+export const cleanString = (val: any): string => {
+  if (val === null || val === undefined) return '';
+  return String(val).replace(/[\n\r]/g, '').trim();
+};
+
+// Русские выгрузки: «1 234,56», «1.234,56», «−1 200 ₽». Десятичный разделитель — последний
+// из встретившихся знаков; повторяющийся знак — разделитель разрядов
+const numericText = (val: any): string => {
+  let str = String(val).replace(/\s/g, '').replace(/[−–]/g, '-');
+  const comma = str.lastIndexOf(',');
+  const dot = str.lastIndexOf('.');
+  const decimal = comma > dot ? ',' : '.';
+  const thousands = decimal === ',' ? '.' : ',';
+  str = str.split(thousands).join('');
+  if (str.split(decimal).length > 2) str = str.split(decimal).join('');
+  return str.replace(decimal, '.').replace(/[^0-9.-]/g, '');
+};
+
+export const parseNum = (val: any): number => {
+  if (typeof val === 'number') return val;
+  if (!val) return 0;
+  const parsed = parseFloat(numericText(val));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+// Непустое значение, из которого parseNum не смог извлечь число
+const isUnparseable = (val: any): boolean => {
+  if (typeof val === 'number') return isNaN(val);
+  if (val === null || val === undefined || cleanString(val) === '') return false;
+  return isNaN(parseFloat(numericText(val)));
+};
+
+// Даты приводятся к YYYY-MM-DD; выгрузки из русского Excel приходят как ДД.ММ.ГГГГ
+export const parseDate = (val: any): string => {
+  const str = cleanString(val);
+  const ru = str.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+  if (ru) return `${ru[3]}-${ru[2].padStart(2, '0')}-${ru[1].padStart(2, '0')}`;
+  const iso = str.match(/^\d{4}-\d{2}-\d{2}/);
+  return iso ? iso[0] : str;
+};
+
+// Календарные поля по дате, если источник их не прислал (неделя — ISO 8601)
+const calendarFromDate = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  if (isNaN(d.getTime())) return { week: 0, month: 0, quarter: 0, year: 0 };
+  const thursday = new Date(d);
+  thursday.setUTCDate(d.getUTCDate() + 3 - ((d.getUTCDay() + 6) % 7));
+  const yearStart = new Date(Date.UTC(thursday.getUTCFullYear(), 0, 1));
+  const month = d.getUTCMonth() + 1;
+  return {
+    week: Math.ceil(((thursday.getTime() - yearStart.getTime()) / 86400000 + 1) / 7),
+    month,
+    quarter: Math.ceil(month / 3),
+    year: d.getUTCFullYear(),
+  };
+};
+
+// --- РАЗБОР ОТВЕТА ИСТОЧНИКА ---
+
+export interface SourcePayload {
+  rows: any[];
+  meta?: ReportMeta;
+}
+
+// Поддерживаются ReportPayload, голый массив строк и ответ n8n с обёрткой json
+export const extractPayload = (parsed: any): SourcePayload => {
+  if (Array.isArray(parsed)) {
+    const first = parsed[0]?.json ?? parsed[0];
+    if (parsed.length === 1 && first && Array.isArray(first.rows)) {
+      return { rows: first.rows, meta: first.meta };
+    }
+    return { rows: parsed };
+  }
+  if (parsed && Array.isArray(parsed.rows)) return { rows: parsed.rows, meta: parsed.meta };
+  throw new Error('Ответ не содержит массива строк (ожидается ReportPayload или массив)');
+};
+
+// --- НОРМАЛИЗАЦИЯ ДАННЫХ ---
+
+export const ISSUE_LABELS: Record<DataIssueType, string> = {
+  unparseable_number: 'Нечисловое значение',
+  missing_date: 'Нет даты',
+  invalid_date: 'Некорректная дата',
+  missing_store: 'Нет магазина',
+  missing_category: 'Нет категории',
+  revenue_without_checks: 'Выручка без чеков',
+  pieces_without_unit: 'Штуки без единицы измерения',
+  duplicate_id: 'Повторяющийся id',
+  negative_value: 'Отрицательное значение',
+  invalid_row: 'Пустая или нечитаемая строка',
+};
+
+export interface NormalizeResult {
+  rows: NormalizedRow[];
+  issues: DataIssue[];
+}
+
+// Повторяющийся id получает суффикс: строки набора различаются только по id
+const uniqueId = (id: string, taken: Set<string>): string => {
+  let n = 1;
+  while (taken.has(`${id}~${n}`)) n++;
+  return `${id}~${n}`;
+};
+
+export const normalizeWithIssues = (raw: any[], idPrefix = 'row'): NormalizeResult => {
+  const issues: DataIssue[] = [];
+  const seenIds = new Set<string>();
+
+  const rows = raw.flatMap((item, idx): NormalizedRow[] => {
+    // n8n может возвращать массив объектов напрямую или в поле json
+    const row = item && typeof item === 'object' && 'json' in item ? item.json : item;
+    // null или примитив вместо строки пропускается, но попадает в отчёт о качестве
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      issues.push({ rowId: `${idPrefix}-${idx}`, rowIndex: idx, type: 'invalid_row', value: String(row) });
+      return [];
+    }
+    const sourceId = cleanString(row.id || row["ID"]) || `${idPrefix}-${idx}`;
+    const id = seenIds.has(sourceId) ? uniqueId(sourceId, seenIds) : sourceId;
+    seenIds.add(id);
+    const flag = (type: DataIssueType, field?: string, value?: any) =>
+      issues.push({ rowId: id, rowIndex: idx, type, field, value: value === undefined ? undefined : String(value) });
+
+    // Основные числовые поля
+    const numeric = {
+      revenue_rub: row.revenue_rub || row["Выручка, ₽"] || row.revenue_rub_raw,
+      checks: row.checks || row["Чеки, шт."],
+      pieces: row.pieces || row["Штуки"] || row.peaces, // peaces - возможная опечатка в n8n
+      weight_kg: row.weight_kg || row["Вес, кг"],
+    };
+    Object.entries(numeric).forEach(([field, val]) => {
+      if (isUnparseable(val)) flag('unparseable_number', field, val);
+      else if (parseNum(val) < 0) flag('negative_value', field, val);
+    });
+    const revenue = parseNum(numeric.revenue_rub);
+    const checks = parseNum(numeric.checks);
+    const pieces = parseNum(numeric.pieces);
+    const weight = parseNum(numeric.weight_kg);
+
+    // Текстовые поля с очисткой от \n
+    // Нераспознанная дата остаётся в отчёте о качестве, а в строке очищается —
+    // иначе она попадёт в пресеты и расчёты периодов
+    const sourceDate = parseDate(row.date || row["Дата"]);
+    const dateStr = isValidISODate(sourceDate) ? sourceDate : '';
+    const calendar = calendarFromDate(dateStr);
+    const storeRaw = cleanString(row.store_name || row["Магазин"]);
+    const categoryRaw = cleanString(row.category_name || row["Категория товара"]);
+    const store = storeRaw || "Неизвестно";
+    const category = categoryRaw || "Прочее";
+
+    // Определение типа единицы
+    const rawUnit = cleanString(row.unit_raw || row["Шт. в кг"]);
+    const unitTypeClean = cleanString(row.unit_type || row["Тип единицы"]).toLowerCase();
+    const unitType: 'kg' | 'pcs' = (unitTypeClean.includes('kg') || unitTypeClean.includes('кг') || rawUnit.toLowerCase().includes('кг')) ? 'kg' : 'pcs';
+
+    if (!sourceDate) flag('missing_date');
+    else if (!dateStr) flag('invalid_date', 'date', sourceDate);
+    if (!storeRaw) flag('missing_store');
+    if (!categoryRaw) flag('missing_category');
+    if (revenue > 0 && checks === 0) flag('revenue_without_checks', 'revenue_rub', revenue);
+    if (pieces > 0 && !rawUnit && !unitTypeClean) flag('pieces_without_unit', 'pieces', pieces);
+    if (id !== sourceId) flag('duplicate_id', 'id', sourceId);
+
+    return [{
+      id,
+      date: dateStr,
+      store_name: store,
+      category_name: category,
+      unit_raw: rawUnit,
+      unit_type: unitType,
+      pieces_per_kg: parseNum(row.pieces_per_kg || row["Штук в кг"]),
+      weight_kg: weight,
+      revenue_rub: revenue,
+      checks: checks,
+      pieces: pieces,
+      week: parseNum(row.week || row["Номер недели"]) || calendar.week,
+      month: parseNum(row.month || row["Месяц"]) || calendar.month,
+      quarter: parseNum(row.quarter || row["Квартал"]) || calendar.quarter,
+      year: parseNum(row.year || row["Год"]) || calendar.year || 2025,
+      atv: checks > 0 ? revenue / checks : 0,
+      upt: checks > 0 ? pieces / checks : 0,
+      avg_price_per_kg: weight > 0 ? revenue / weight : 0,
+      avg_price_per_piece: pieces > 0 ? revenue / pieces : 0,
+    }];
+  });
+
+  return { rows, issues };
+};
+
+export const normalizeData = (raw: any[], idPrefix = 'row'): NormalizedRow[] =>
+  normalizeWithIssues(raw, idPrefix).rows;
+
+// --- ОБЪЕДИНЕНИЕ НАБОРОВ ---
+
+// Строка однозначно определяется днём, магазином, категорией и единицей
+export const rowKey = (r: NormalizedRow): string =>
+  [r.date, r.store_name, r.category_name, r.unit_raw].join('|');
+
+// Новая строка заменяет строки набора с тем же ключом; строки набора между собой не сливаются —
+// совпадение ключа внутри набора не повод удалять данные. Строка без даты ничего не заменяет
+const notReplaced = (current: NormalizedRow[], incoming: NormalizedRow[]): NormalizedRow[] => {
+  const replaced = new Set(incoming.filter(r => r.date).map(rowKey));
+  return current.filter(r => !replaced.has(rowKey(r)));
+};
+
+export const mergeRows = (current: NormalizedRow[], incoming: NormalizedRow[]): NormalizedRow[] =>
+  [...notReplaced(current, incoming), ...incoming];
+
+// То же слияние вместе с замечаниями, плюс delta для точечного обновления хранилища.
+// Строка из новой выгрузки, чей id уже занят оставшейся строкой набора, получает новый id —
+// в хранилище строки лежат по id
+export const mergeDatasetsWithDelta = (current: NormalizeResult, incoming: NormalizeResult) => {
+  const kept = notReplaced(current.rows, incoming.rows);
+  const keptIds = new Set(kept.map(r => r.id));
+  const taken = new Set([...keptIds, ...incoming.rows.map(r => r.id)]);
+  const renamed = new Map<string, string>();
+  const put = incoming.rows.map(r => {
+    if (!keptIds.has(r.id)) return r;
+    const id = uniqueId(r.id, taken);
+    taken.add(id);
+    renamed.set(r.id, id);
+    return { ...r, id };
+  });
+  const keptSet = new Set(kept);
+  return {
+    rows: [...kept, ...put],
+    issues: [
+      ...current.issues.filter(i => keptIds.has(i.rowId)),
+      ...incoming.issues.map(i => renamed.has(i.rowId) ? { ...i, rowId: renamed.get(i.rowId)! } : i),
+    ],
+    put,
+    removedIds: current.rows.filter(r => !keptSet.has(r)).map(r => r.id),
+  };
+};
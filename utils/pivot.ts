@@ -0,0 +1,395 @@
+import { NormalizedRow, PivotValueType, BuiltinPivotValue } from '../types';
+import { PlanEntry } from './plan';
+import { computeDelta } from './aggregate';
+import { MONTH_NAMES } from './dates';
+import { MetricAcc, CompiledMetrics, emptyMetricAcc, addRowToAcc, isCustomMetricKey } from './metrics';
+
+// --- СВОДНАЯ ТАБЛИЦА ---
+
+export type PivotDimension =
+  | 'store_name'
+  | 'category_name'
+  | 'unit_type'
+  | 'unit_raw'
+  | 'year'
+  | 'quarter'
+  | 'month'
+  | 'week'
+  | 'date';
+
+export const PIVOT_DIMENSIONS: Record<PivotDimension, string> = {
+  store_name: 'Магазин',
+  category_name: 'Категория',
+  unit_type: 'Тип единицы',
+  unit_raw: 'Единица (исх.)',
+  year: 'Год',
+  quarter: 'Квартал',
+  month: 'Месяц',
+  week: 'Неделя',
+  date: 'Дата',
+};
+
+export const PIVOT_VALUES: Record<BuiltinPivotValue, string> = {
+  sum_revenue: 'Выручка',
+  sum_checks: 'Чеки',
+  sum_pieces: 'Штуки',
+  sum_weight: 'Вес',
+  calc_atv: 'ATV (Ср. чек)',
+  calc_upt: 'UPT',
+  plan_revenue: 'План выручки',
+  plan_completion: 'Выполнение плана, %',
+};
+
+// Вычисляемые показатели подписываются своим названием; удалённый показатель — ключом
+export const pivotValueLabel = (val: PivotValueType, metrics: CompiledMetrics): string =>
+  isCustomMetricKey(val) ? metrics.get(val)?.metric.name || val : PIVOT_VALUES[val];
+
+export const isPlanValue = (val: PivotValueType): boolean => val.startsWith('plan_');
+
+// План известен только с точностью до магазина и месяца — глубже его не разложить
+export const PLAN_DIMENSIONS: PivotDimension[] = ['store_name', 'year', 'quarter', 'month'];
+
+export const supportsPlan = (rowDims: PivotDimension[], colDims: PivotDimension[]): boolean =>
+  [...rowDims, ...colDims].every(d => PLAN_DIMENSIONS.includes(d));
+
+export const formatDimValue = (dim: PivotDimension, value: string): string => {
+  switch (dim) {
+    case 'month': return MONTH_NAMES[Number(value) - 1] || value;
+    case 'quarter': return `Q${value}`;
+    case 'week': return `Нед. ${value}`;
+    case 'unit_type': return value === 'kg' ? 'кг' : 'шт';
+    default: return value || '—';
+  }
+};
+
+// Промежуточные суммы ячейки: ATV, UPT и вычисляемые показатели считаются из них на каждом уровне итогов
+export type PivotAcc = MetricAcc;
+
+// total — итог всей сводной, нужен формулам с долей от общего
+export const pivotValue = (acc: PivotAcc | undefined, val: PivotValueType, metrics: CompiledMetrics, total?: PivotAcc): number => {
+  if (!acc) return 0;
+  if (isCustomMetricKey(val)) return metrics.get(val)?.evaluate(acc, total || acc) ?? 0;
+  switch (val) {
+    case 'sum_revenue': return acc.rev;
+    case 'sum_checks': return acc.chk;
+    case 'sum_pieces': return acc.pcs;
+    case 'sum_weight': return acc.wgt;
+    case 'calc_atv': return acc.chk > 0 ? acc.rev / acc.chk : 0;
+    case 'calc_upt': return acc.chk > 0 ? acc.pcs / acc.chk : 0;
+    case 'plan_revenue': return acc.plan;
+    case 'plan_completion': return acc.plan > 0 ? acc.rev / acc.plan * 100 : 0;
+  }
+};
+
+export interface PivotNode {
+  key: string;
+  path: string[];
+  dim: PivotDimension;
+  label: string;
+  level: number;
+  children: PivotNode[];
+}
+
+export interface PivotResult {
+  rowDims: PivotDimension[];
+  colDims: PivotDimension[];
+  rowTree: PivotNode[];
+  colTree: PivotNode[];
+  // rowKey → colKey → суммы; пустой ключ — итог по всем значениям измерения
+  cells: Map<string, Map<string, PivotAcc>>;
+}
+
+const SEP = '\u0001';
+export const pathKey = (path: string[]): string => path.join(SEP);
+export const keyPath = (key: string): string[] => key === '' ? [] : key.split(SEP);
+
+const compareKeys = (a: string, b: string) => {
+  if (a !== '' && b !== '' && !isNaN(Number(a)) && !isNaN(Number(b))) return Number(a) - Number(b);
+  return a.localeCompare(b);
+};
+
+const buildTree = (paths: string[][], dims: PivotDimension[]): PivotNode[] => {
+  const root: PivotNode[] = [];
+  const index = new Map<string, PivotNode>();
+  paths.forEach(path => {
+    let siblings = root;
+    path.forEach((value, level) => {
+      const sub = path.slice(0, level + 1);
+      const key = pathKey(sub);
+      let node = index.get(key);
+      if (!node) {
+        node = { key, path: sub, dim: dims[level], label: formatDimValue(dims[level], value), level, children: [] };
+        index.set(key, node);
+        siblings.push(node);
+      }
+      siblings = node.children;
+    });
+  });
+  const sortTree = (nodes: PivotNode[]) => {
+    nodes.sort((a, b) => compareKeys(a.path[a.level], b.path[b.level]));
+    nodes.forEach(n => sortTree(n.children));
+  };
+  sortTree(root);
+  return root;
+};
+
+// Значение измерения для записи плана: магазин и месяц известны, остальное выводится из месяца
+const planDimValue = (entry: PlanEntry, dim: PivotDimension): string => {
+  const month = Number(entry.month.slice(5, 7));
+  switch (dim) {
+    case 'store_name': return entry.store;
+    case 'year': return String(Number(entry.month.slice(0, 4)));
+    case 'quarter': return String(Math.ceil(month / 3));
+    default: return String(month);
+  }
+};
+
+// Планы выручки раскладываются по ячейкам, только если все измерения разреза им известны.
+// detailed — копить дни и суммы по единицам для вычисляемых показателей
+export const buildPivot = (
+  rows: NormalizedRow[],
+  rowDims: PivotDimension[],
+  colDims: PivotDimension[],
+  plans: PlanEntry[] = [],
+  detailed = false
+): PivotResult => {
+  const cells = new Map<string, Map<string, PivotAcc>>();
+  const rowPaths = new Map<string, string[]>();
+  const colPaths = new Map<string, string[]>();
+
+  const accAt = (rowKey: string, colKey: string): PivotAcc => {
+    if (!cells.has(rowKey)) cells.set(rowKey, new Map());
+    const rowCells = cells.get(rowKey)!;
+    if (!rowCells.has(colKey)) rowCells.set(colKey, emptyMetricAcc());
+    return rowCells.get(colKey)!;
+  };
+
+  // Каждая запись попадает во все уровни итогов: префиксы пути строки × префиксы пути колонки
+  const addToAll = (rowPath: string[], colPath: string[], apply: (acc: PivotAcc) => void) => {
+    rowPaths.set(pathKey(rowPath), rowPath);
+    colPaths.set(pathKey(colPath), colPath);
+    for (let r = 0; r <= rowPath.length; r++) {
+      const rowKey = pathKey(rowPath.slice(0, r));
+      for (let c = 0; c <= colPath.length; c++) {
+        apply(accAt(rowKey, pathKey(colPath.slice(0, c))));
+      }
+    }
+  };
+
+  rows.forEach(d => {
+    addToAll(rowDims.map(dim => String(d[dim])), colDims.map(dim => String(d[dim])), acc => addRowToAcc(acc, d, detailed));
+  });
+
+  if (supportsPlan(rowDims, colDims)) {
+    plans.filter(p => p.metric === 'revenue').forEach(p => {
+      addToAll(rowDims.map(dim => planDimValue(p, dim)), colDims.map(dim => planDimValue(p, dim)), acc => {
+        acc.plan += p.value;
+      });
+    });
+  }
+
+  return {
+    rowDims,
+    colDims,
+    rowTree: buildTree(Array.from(rowPaths.values()), rowDims),
+    colTree: colDims.length ? buildTree(Array.from(colPaths.values()), colDims) : [],
+    cells,
+  };
+};
+
+export const cellAt = (pivot: PivotResult, rowKey: string, colKey: string): PivotAcc | undefined =>
+  pivot.cells.get(rowKey)?.get(colKey);
+
+// --- РАЗВЁРТКА ДЛЯ ОТОБРАЖЕНИЯ ---
+
+export interface VisibleColumn {
+  key: string;
+  path: string[];
+  label: string;
+  isSubtotal: boolean;
+}
+
+// Строки выводятся деревом: узел-группа показывает свой подытог, дети — под ним
+export const visibleRows = (tree: PivotNode[], collapsed: Set<string>): PivotNode[] => {
+  const out: PivotNode[] = [];
+  const walk = (nodes: PivotNode[]) => nodes.forEach(n => {
+    out.push(n);
+    if (n.children.length && !collapsed.has(n.key)) walk(n.children);
+  });
+  walk(tree);
+  return out;
+};
+
+// Колонки группы идут перед её подытогом; свёрнутая группа показывает только подытог
+export const visibleColumns = (tree: PivotNode[], collapsed: Set<string>): VisibleColumn[] => {
+  const out: VisibleColumn[] = [];
+  const walk = (nodes: PivotNode[]) => nodes.forEach(n => {
+    if (!n.children.length) {
+      out.push({ key: n.key, path: n.path, label: n.label, isSubtotal: false });
+      return;
+    }
+    if (!collapsed.has(n.key)) walk(n.children);
+    out.push({ key: n.key, path: n.path, label: `Итого ${n.label}`, isSubtotal: true });
+  });
+  walk(tree);
+  return out;
+};
+
+export interface HeaderCell {
+  key: string;
+  label: string;
+  colSpan: number;
+  rowSpan: number;
+  groupKey: string;
+  collapsible: boolean;
+  isSubtotal: boolean;
+}
+
+// Многоуровневая шапка: соседние колонки с общим предком объединяются через colSpan
+export const headerRows = (columns: VisibleColumn[], tree: PivotNode[], depth: number): HeaderCell[][] => {
+  const labels = new Map<string, string>();
+  const collect = (nodes: PivotNode[]) => nodes.forEach(n => { labels.set(n.key, n.label); collect(n.children); });
+  collect(tree);
+
+  const rows: HeaderCell[][] = [];
+  for (let level = 0; level < depth; level++) {
+    const row: HeaderCell[] = [];
+    columns.forEach(col => {
+      if (col.path.length > level && !(col.isSubtotal && col.path.length === level + 1)) {
+        const groupKey = pathKey(col.path.slice(0, level + 1));
+        const last = row[row.length - 1];
+        if (last && last.groupKey === groupKey) last.colSpan++;
+        else row.push({ key: `${level}-${groupKey}`, label: labels.get(groupKey) || '', colSpan: 1, rowSpan: 1, groupKey, collapsible: level < depth - 1, isSubtotal: false });
+      } else if (col.isSubtotal && col.path.length === level + 1) {
+        row.push({ key: `${level}-${col.key}-total`, label: col.label, colSpan: 1, rowSpan: depth - level, groupKey: col.key, collapsible: true, isSubtotal: true });
+      }
+    });
+    rows.push(row);
+  }
+  return rows;
+};
+
+// --- ПРЕДСТАВЛЕНИЕ: СОРТИРОВКА, ДОЛИ, УСЛОВНОЕ ФОРМАТИРОВАНИЕ ---
+
+export type PivotDisplayMode = 'value' | 'pct_row' | 'pct_col' | 'pct_total';
+export type PivotFormatMode = 'none' | 'heatmap' | 'bars';
+
+export const PIVOT_DISPLAY_LABELS: Record<PivotDisplayMode, string> = {
+  value: 'Значения',
+  pct_row: '% от строки',
+  pct_col: '% от колонки',
+  pct_total: '% от итога',
+};
+
+export const PIVOT_FORMAT_LABELS: Record<PivotFormatMode, string> = {
+  none: 'Без выделения',
+  heatmap: 'Тепловая карта',
+  bars: 'Гистограммы',
+};
+
+export interface PivotViewOptions {
+  // null — по подписи строки, пустая строка — по колонке «Итого»
+  sortKey: string | null;
+  sortDir: 'asc' | 'desc';
+  display: PivotDisplayMode;
+  format: PivotFormatMode;
+  formatScope: 'column' | 'table';
+}
+
+export const DEFAULT_PIVOT_VIEW: PivotViewOptions = {
+  sortKey: null,
+  sortDir: 'asc',
+  display: 'value',
+  format: 'none',
+  formatScope: 'column',
+};
+
+// Доли имеют смысл только для суммируемых показателей
+export const isAdditive = (val: PivotValueType): boolean => val.startsWith('sum_') || val === 'plan_revenue';
+
+// Сортировка выполняется среди соседей на каждом уровне, дерево не разрывается
+export const sortRowTree = (pivot: PivotResult, val: PivotValueType, metrics: CompiledMetrics, sortKey: string | null, dir: 'asc' | 'desc'): PivotNode[] => {
+  const sign = dir === 'asc' ? 1 : -1;
+  const total = cellAt(pivot, '', '');
+  const cmp = (a: PivotNode, b: PivotNode) => sortKey === null
+    ? compareKeys(a.path[a.level], b.path[b.level])
+    : pivotValue(cellAt(pivot, a.key, sortKey), val, metrics, total) - pivotValue(cellAt(pivot, b.key, sortKey), val, metrics, total);
+  const sortNodes = (nodes: PivotNode[]): PivotNode[] =>
+    [...nodes].sort((a, b) => sign * cmp(a, b)).map(n => ({ ...n, children: sortNodes(n.children) }));
+  return sortNodes(pivot.rowTree);
+};
+
+export const displayValue = (pivot: PivotResult, rowKey: string, colKey: string, val: PivotValueType, metrics: CompiledMetrics, mode: PivotDisplayMode): number => {
+  const value = pivotValue(cellAt(pivot, rowKey, colKey), val, metrics, cellAt(pivot, '', ''));
+  if (mode === 'value' || !isAdditive(val)) return value;
+  const base = mode === 'pct_row' ? cellAt(pivot, rowKey, '')
+    : mode === 'pct_col' ? cellAt(pivot, '', colKey)
+    : cellAt(pivot, '', '');
+  const denom = pivotValue(base, val, metrics);
+  return denom !== 0 ? value / denom * 100 : 0;
+};
+
+// --- ПЛОСКАЯ ТАБЛИЦА ДЛЯ ВЫГРУЗКИ И ПЕЧАТИ ---
+
+export interface FlatPivotLine {
+  key: string;
+  label: string;
+  level: number;
+  isGroup: boolean;
+  // Значения колонок и последним — «Итого»; null — в ячейке нет данных
+  values: (number | null)[];
+  // Изменение итога строки к базовому периоду, %
+  delta: number | null;
+}
+
+export interface FlatPivot {
+  display: PivotDisplayMode;
+  rowHeader: string;
+  // Подписи колонок, последняя — «Итого»
+  columns: string[];
+  lines: FlatPivotLine[];
+  total: FlatPivotLine;
+  hasDelta: boolean;
+}
+
+// Сводная со всеми развёрнутыми уровнями в порядке текущей сортировки
+export const flattenPivot = (pivot: PivotResult, val: PivotValueType, metrics: CompiledMetrics, view: PivotViewOptions, basePivot: PivotResult | null = null): FlatPivot => {
+  const display = isAdditive(val) ? view.display : 'value';
+  const rowNodes = visibleRows(sortRowTree(pivot, val, metrics, view.sortKey, view.sortDir), new Set());
+  const columns = visibleColumns(pivot.colTree, new Set());
+  const colLabel = (key: string, fallback: string) =>
+    keyPath(key).map((v, i) => formatDimValue(pivot.colDims[i], v)).join(' → ') || fallback;
+
+  const line = (rowKey: string, label: string, level: number, isGroup: boolean): FlatPivotLine => {
+    const base = basePivot && cellAt(basePivot, rowKey, '');
+    const delta = base
+      ? computeDelta(pivotValue(cellAt(pivot, rowKey, ''), val, metrics, cellAt(pivot, '', '')), pivotValue(base, val, metrics, cellAt(basePivot!, '', ''))).pct
+      : null;
+    return {
+      key: rowKey,
+      label,
+      level,
+      isGroup,
+      values: [...columns.map(c => c.key), ''].map(colKey =>
+        cellAt(pivot, rowKey, colKey) ? displayValue(pivot, rowKey, colKey, val, metrics, display) : null
+      ),
+      delta,
+    };
+  };
+
+  return {
+    display,
+    rowHeader: pivot.rowDims.map(d => PIVOT_DIMENSIONS[d]).join(' → '),
+    columns: [...columns.map(c => c.isSubtotal ? `Итого ${colLabel(c.key, '')}` : colLabel(c.key, c.label)), 'Итого'],
+    lines: rowNodes.map(n => line(n.key, n.label, n.level, n.children.length > 0)),
+    total: line('', 'Итого', 0, true),
+    hasDelta: !!basePivot,
+  };
+};
+
+// Исходные строки, попавшие в ячейку: совпадение по префиксам путей строки и колонки
+export const rowsForCell = (rows: NormalizedRow[], pivot: PivotResult, rowPath: string[], colPath: string[]): NormalizedRow[] =>
+  rows.filter(d =>
+    rowPath.every((v, i) => String(d[pivot.rowDims[i]]) === v) &&
+    colPath.every((v, i) => String(d[pivot.colDims[i]]) === v)
+  );
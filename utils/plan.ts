@@ -0,0 +1,114 @@
+import { NormalizedRow } from '../types';
+import { computeTotals } from './aggregate';
+import { MONTH_NAMES, addDays, endOfMonth, isValidISODate } from './dates';
+
+// --- ПЛАН ПРОДАЖ ---
+
+export type PlanMetric = 'revenue' | 'checks' | 'pieces' | 'weight';
+
+export const PLAN_METRIC_LABELS: Record<PlanMetric, string> = {
+  revenue: 'Выручка',
+  checks: 'Чеки',
+  pieces: 'Штуки',
+  weight: 'Вес',
+};
+
+// План задаётся на магазин целиком за календарный месяц (YYYY-MM)
+export interface PlanEntry {
+  store: string;
+  month: string;
+  metric: PlanMetric;
+  value: number;
+}
+
+export const planKey = (e: PlanEntry): string => `${e.store}|${e.month}|${e.metric}`;
+
+// Импорт перезаписывает план с тем же магазином, месяцем и показателем; нулевой план удаляет запись
+export const mergePlans = (current: PlanEntry[], incoming: PlanEntry[]): PlanEntry[] => {
+  const map = new Map(current.map(e => [planKey(e), e]));
+  incoming.forEach(e => {
+    if (e.value > 0) map.set(planKey(e), e);
+    else map.delete(planKey(e));
+  });
+  return Array.from(map.values()).sort((a, b) => a.month.localeCompare(b.month) || a.store.localeCompare(b.store));
+};
+
+export const monthOf = (date: string): string => date.slice(0, 7);
+
+export const monthLabel = (month: string): string =>
+  `${MONTH_NAMES[Number(month.slice(5, 7)) - 1] || month.slice(5, 7)} ${month.slice(0, 4)}`;
+
+// --- ВЫПОЛНЕНИЕ ПЛАНА ---
+
+export interface PlanProgress {
+  plan: number;
+  fact: number;
+  // Доля плана в процентах; null — план не задан
+  completion: number | null;
+  // Линейная экстраполяция темпа продаж на весь месяц
+  projection: number;
+  // Сколько нужно продавать в день до конца месяца; null — месяц закрыт
+  requiredDaily: number | null;
+  daysElapsed: number;
+  daysInMonth: number;
+}
+
+// Прошедшие дни месяца считаются по последней дате в данных, а не по системным часам
+const elapsedDays = (month: string, lastDate: string, daysInMonth: number): number => {
+  const lastMonth = monthOf(lastDate);
+  if (lastMonth > month) return daysInMonth;
+  if (lastMonth < month) return 0;
+  return Number(lastDate.slice(8, 10));
+};
+
+// Факт берётся только по магазинам, у которых есть план, — иначе выполнение завышается
+export const planProgress = (
+  rows: NormalizedRow[],
+  plans: PlanEntry[],
+  metric: PlanMetric,
+  month: string,
+  lastDate: string,
+  stores: string[] = []
+): PlanProgress => {
+  const entries = plans.filter(p => p.metric === metric && p.month === month && (!stores.length || stores.includes(p.store)));
+  const planned = new Set(entries.map(p => p.store));
+  const plan = entries.reduce((acc, p) => acc + p.value, 0);
+  const fact = computeTotals(rows.filter(r => monthOf(r.date) === month && planned.has(r.store_name)))[metric];
+
+  const daysInMonth = Number(endOfMonth(`${month}-01`).slice(8, 10));
+  const daysElapsed = elapsedDays(month, lastDate, daysInMonth);
+  const daysLeft = daysInMonth - daysElapsed;
+  return {
+    plan,
+    fact,
+    completion: plan > 0 ? fact / plan * 100 : null,
+    projection: daysElapsed > 0 ? fact / daysElapsed * daysInMonth : 0,
+    requiredDaily: daysLeft > 0 ? Math.max(0, plan - fact) / daysLeft : null,
+    daysElapsed,
+    daysInMonth,
+  };
+};
+
+export const planProgressByStore = (
+  rows: NormalizedRow[],
+  plans: PlanEntry[],
+  metric: PlanMetric,
+  month: string,
+  lastDate: string,
+  stores: string[] = []
+): { store: string, progress: PlanProgress }[] => {
+  const planned = Array.from(new Set(
+    plans.filter(p => p.metric === metric && p.month === month && (!stores.length || stores.includes(p.store))).map(p => p.store)
+  ));
+  return planned
+    .map(store => ({ store, progress: planProgress(rows, plans, metric, month, lastDate, [store]) }))
+    .sort((a, b) => (a.progress.completion ?? 0) - (b.progress.completion ?? 0));
+};
+
+// Месяцы, которые стоит показывать в выборе: с данными, с планом и следующий за последним месяцем данных
+export const planMonths = (dates: string[], plans: PlanEntry[]): string[] => {
+  const valid = dates.filter(isValidISODate).sort();
+  const months = new Set([...valid.map(monthOf), ...plans.map(p => p.month)]);
+  if (valid.length) months.add(monthOf(addDays(endOfMonth(valid[valid.length - 1]), 1)));
+  return Array.from(months).filter(Boolean).sort();
+};
@@ -0,0 +1,113 @@
+import { DataQuery, QueryGroupBy, QueryMetric, QuestionContext, sanitizeQuery } from './dataQuery';
+import { DateRange, addDays, startOfMonth, endOfMonth, startOfWeek, yearRange } from './dates';
+
+// --- РАЗБОР ВОПРОСА БЕЗ МОДЕЛИ ---
+
+// Основы названий месяцев во всех падежах: «ноябрь», «в ноябре», «за ноябрь»
+const MONTH_STEMS = ['январ', 'феврал', 'март', 'апрел', 'ма[йяе]', 'июн', 'июл', 'август', 'сентябр', 'октябр', 'ноябр', 'декабр'];
+
+// В JS \b не работает с кириллицей — границы слова задаются явно
+const word = (stem: string, flags = 'i') => new RegExp(`(?<![а-яёa-z])${stem}`, flags);
+
+const METRIC_RULES: [RegExp, QueryMetric][] = [
+  [word('средн[а-яё]* чек'), 'atv'],
+  [/upt|товаров в чеке/i, 'upt'],
+  [word('чек'), 'checks'],
+  [word('штук'), 'pieces'],
+  [word('(вес|кг|килограм)'), 'weight'],
+];
+
+const GROUP_RULES: [RegExp, QueryGroupBy][] = [
+  [word('магазин'), 'store_name'],
+  [word('категори'), 'category_name'],
+  [/весов[а-яё]* и штучн|штучн[а-яё]* и весов|тип[а-яё]* единиц/i, 'unit_type'],
+  [word('по дням|(?<![а-яё])день'), 'day'],
+  [word('по неделям|(?<![а-яё])недел[а-яё]* динамик'), 'week'],
+  [word('по месяцам|(?<![а-яё])динамик'), 'month'],
+  [word('по кварталам'), 'quarter'],
+];
+
+const DROP_RE = word('(упал|упад|паден|снизил|сниж|просел|просад|хуже|потерял)');
+const GROWTH_RE = word('(вырос|рост|увелич|прибав|лучше)');
+const LEAST_RE = word('(меньше всего|наименьш|худш|слабее|самы[йе] низк)');
+const YEAR_AGO_RE = /год назад|прошл[а-яё]* год|г\/г|yoy/i;
+const PERCENT_RE = /процент|в %|%/i;
+
+// Месяц без года — последний такой месяц в данных
+const resolveMonth = (month: number, year: number | null, ctx: QuestionContext): DateRange => {
+  const mm = String(month + 1).padStart(2, '0');
+  if (year === null) {
+    const last = ctx.range ? Number(ctx.range.to.slice(0, 4)) : new Date().getFullYear();
+    year = ctx.range && `${last}-${mm}-01` > ctx.range.to ? last - 1 : last;
+  }
+  const from = `${year}-${mm}-01`;
+  return { from, to: endOfMonth(from) };
+};
+
+const resolvePeriod = (q: string, ctx: QuestionContext): DateRange | null => {
+  const yearMatch = q.match(/(?<!\d)(20\d{2})(?!\d)/);
+  const year = yearMatch ? Number(yearMatch[1]) : null;
+  const month = MONTH_STEMS.findIndex(stem => word(stem).test(q));
+  if (month >= 0) return resolveMonth(month, year, ctx);
+  const anchor = ctx.range?.to;
+  if (anchor && word('прошл[а-яё]* недел').test(q)) {
+    const from = addDays(startOfWeek(anchor), -7);
+    return { from, to: addDays(from, 6) };
+  }
+  if (anchor && word('(эт[а-яё]* недел|текущ[а-яё]* недел)').test(q)) return { from: startOfWeek(anchor), to: anchor };
+  if (anchor && word('прошл[а-яё]* месяц').test(q)) {
+    const from = startOfMonth(addDays(startOfMonth(anchor), -1));
+    return { from, to: endOfMonth(from) };
+  }
+  if (anchor && word('(эт[а-яё]* месяц|текущ[а-яё]* месяц)').test(q)) return { from: startOfMonth(anchor), to: anchor };
+  if (year !== null && !YEAR_AGO_RE.test(q)) return yearRange(year);
+  return null;
+};
+
+// Названия из данных, встретившиеся в вопросе; длинные проверяются первыми,
+// чтобы «Центральный-2» не засчитался ещё и как «Центральный»
+const mentioned = (q: string, names: string[]): string[] => {
+  let rest = q.toLowerCase();
+  return [...names].sort((a, b) => b.length - a.length).filter(name => {
+    const i = rest.indexOf(name.toLowerCase());
+    if (i < 0) return false;
+    rest = rest.slice(0, i) + ' '.repeat(name.length) + rest.slice(i + name.length);
+    return true;
+  });
+};
+
+// Простые правила для типовых вопросов; ответ проходит ту же проверку, что и ответ модели
+export const parseQuestion = (question: string, ctx: QuestionContext): { query: DataQuery, warnings: string[] } => {
+  const q = question.trim();
+  const lower = q.toLowerCase();
+  const stores = mentioned(q, ctx.stores);
+  const categories = mentioned(q, ctx.categories);
+  const period = resolvePeriod(lower, ctx);
+
+  let groupBy: QueryGroupBy = GROUP_RULES.find(([re]) => re.test(lower))?.[1] || 'none';
+  // «Выручка магазина Центральный» — это фильтр, а не группировка
+  if (groupBy === 'store_name' && stores.length === 1) groupBy = 'none';
+  if (groupBy === 'category_name' && categories.length === 1) groupBy = 'none';
+
+  const drop = DROP_RE.test(lower);
+  const growth = !drop && GROWTH_RE.test(lower);
+  const yearAgo = YEAR_AGO_RE.test(lower);
+  const compare = drop || growth ? (yearAgo ? 'last_year' : 'previous') : (yearAgo ? 'last_year' : 'none');
+  const topMatch = lower.match(/(?:топ|top|первы[а-яё]*)[\s-]*(\d+)/) || lower.match(/(\d+)\s+(?:лучш|худш|крупн)/);
+
+  return sanitizeQuery({
+    title: q,
+    metric: METRIC_RULES.find(([re]) => re.test(lower))?.[1] || 'revenue',
+    groupBy,
+    dateFrom: period?.from || '',
+    dateTo: period?.to || '',
+    stores,
+    categories,
+    unitTypes: [],
+    compare,
+    sortBy: compare === 'none' ? 'value' : (PERCENT_RE.test(lower) ? 'change_pct' : 'change'),
+    sortDir: drop || LEAST_RE.test(lower) ? 'asc' : 'desc',
+    limit: topMatch ? Number(topMatch[1]) : undefined,
+    chart: groupBy === 'none' ? 'table' : undefined,
+  }, ctx);
+};
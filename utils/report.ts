@@ -0,0 +1,101 @@
+import { Filters, ReportMeta } from '../types';
+import { Delta } from './aggregate';
+import { FlatPivot, FlatPivotLine } from './pivot';
+import { UnitType, UNIT_TYPE_LABELS } from './units';
+
+// --- ОТЧЁТ ДЛЯ ПЕЧАТИ ---
+
+export type ReportSection = 'kpi' | 'trend' | 'categories' | 'stores' | 'pivot';
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, string> = {
+  kpi: 'Ключевые показатели',
+  trend: 'График динамики',
+  categories: 'Топ категорий',
+  stores: 'Магазины',
+  pivot: 'Сводная таблица',
+};
+
+export type ReportOrientation = 'portrait' | 'landscape';
+
+export const REPORT_ORIENTATION_LABELS: Record<ReportOrientation, string> = {
+  portrait: 'Книжная',
+  landscape: 'Альбомная',
+};
+
+export interface ReportOptions {
+  sections: ReportSection[];
+  orientation: ReportOrientation;
+  // Строк сводной на одном листе; шапка таблицы повторяется на каждом
+  pivotRowsPerPage: number;
+}
+
+export const PIVOT_ROWS_PER_PAGE_OPTIONS = [20, 30, 45];
+
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  sections: ['kpi', 'trend', 'categories', 'stores', 'pivot'],
+  orientation: 'landscape',
+  pivotRowsPerPage: 30,
+};
+
+// Ширина листа A4 без полей в пикселях экрана — по ней рисуются графики
+export const REPORT_PAGE_WIDTH: Record<ReportOrientation, number> = {
+  portrait: 700,
+  landscape: 1010,
+};
+
+// Сколько колонок сводной помещается на лист рядом с подписями строк
+export const PIVOT_COLUMNS_PER_PAGE: Record<ReportOrientation, number> = {
+  portrait: 5,
+  landscape: 9,
+};
+
+export const reportTitle = (meta: ReportMeta | null): string =>
+  meta?.report_name?.trim() || 'Отчёт по продажам';
+
+// Карточка KPI в отчёте — то же, что на дашборде, без оформления
+export interface ReportKpi {
+  title: string;
+  value: string;
+  delta: Delta | null;
+  formatDelta?: (v: number) => string;
+}
+
+// Применённые фильтры одной строкой на каждый; пустые не показываются
+export const describeFilters = (f: Filters): [string, string][] => {
+  const lines: [string, string][] = [];
+  if (f.stores.length) lines.push(['Магазины', f.stores.join(', ')]);
+  if (f.categories.length) lines.push(['Категории', f.categories.join(', ')]);
+  if (f.unitTypes.length) lines.push(['Единицы', f.unitTypes.map(u => UNIT_TYPE_LABELS[u as UnitType] || u).join(', ')]);
+  return lines;
+};
+
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const parts: T[][] = [];
+  for (let i = 0; i < items.length; i += size) parts.push(items.slice(i, i + size));
+  return parts.length ? parts : [[]];
+};
+
+// --- РАЗБИВКА СВОДНОЙ НА ЛИСТЫ ---
+
+export interface PivotPage {
+  // Номера колонок FlatPivot.columns на этом листе
+  columns: number[];
+  lines: FlatPivotLine[];
+  // Строка «Итого» — внизу последнего листа каждой полосы колонок
+  withTotal: boolean;
+  // Колонка изменения к базе — на последней полосе, рядом с «Итого»
+  withDelta: boolean;
+}
+
+// Широкая сводная режется на полосы колонок, каждая полоса — на листы по строкам;
+// подписи строк и шапка повторяются на каждом листе
+export const paginatePivot = (flat: FlatPivot, rowsPerPage: number, columnsPerPage: number): PivotPage[] => {
+  const columnParts = chunk(flat.columns.map((_, i) => i), Math.max(1, columnsPerPage));
+  const rowParts = chunk(flat.lines, Math.max(1, rowsPerPage));
+  return columnParts.flatMap((columns, c) => rowParts.map((lines, r) => ({
+    columns,
+    lines,
+    withTotal: r === rowParts.length - 1,
+    withDelta: flat.hasDelta && c === columnParts.length - 1,
+  })));
+};
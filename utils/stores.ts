@@ -0,0 +1,92 @@
+import { NormalizedRow } from '../types';
+import { Totals, computeTotals } from './aggregate';
+import { bucketKey, Granularity } from './timeSeries';
+
+// --- ЭФФЕКТИВНОСТЬ МАГАЗИНОВ ---
+
+export type StoreMetric = 'revenue' | 'checks' | 'atv' | 'upt' | 'weight' | 'share';
+
+export const STORE_METRIC_LABELS: Record<StoreMetric, string> = {
+  revenue: 'Выручка',
+  checks: 'Чеки',
+  atv: 'ATV',
+  upt: 'UPT',
+  weight: 'Вес',
+  share: 'Доля сети',
+};
+
+export interface StoreStats {
+  store: string;
+  totals: Totals;
+  // Доля выручки магазина в выручке сети, %
+  share: number;
+  trend: { key: string, value: number }[];
+  // Отклонение от среднего по сети, %; null — если у сети нет значения
+  deviation: Record<Exclude<StoreMetric, 'share'>, number | null>;
+}
+
+export interface StoreReport {
+  stores: StoreStats[];
+  // Средний магазин: суммы делятся на число магазинов, ATV и UPT — показатели сети
+  average: Totals;
+}
+
+const deviationPct = (value: number, avg: number): number | null =>
+  avg !== 0 ? (value - avg) / Math.abs(avg) * 100 : null;
+
+export const buildStoreReport = (rows: NormalizedRow[], trendGranularity: Granularity = 'week'): StoreReport => {
+  const byStore = new Map<string, NormalizedRow[]>();
+  rows.forEach(r => {
+    if (!byStore.has(r.store_name)) byStore.set(r.store_name, []);
+    byStore.get(r.store_name)!.push(r);
+  });
+
+  const chain = computeTotals(rows);
+  const count = byStore.size || 1;
+  const average: Totals = {
+    revenue: chain.revenue / count,
+    checks: chain.checks / count,
+    pieces: chain.pieces / count,
+    weight: chain.weight / count,
+    atv: chain.atv,
+    upt: chain.upt,
+  };
+
+  // Спарклайны строятся на общей шкале периодов: пропуск у магазина — ноль, а не сдвиг
+  const trendKeys = Array.from(new Set(rows.filter(r => r.date).map(r => bucketKey(r.date, trendGranularity)))).sort();
+
+  const stores = Array.from(byStore.entries()).map(([store, list]): StoreStats => {
+    const totals = computeTotals(list);
+    const trendMap = new Map<string, number>();
+    list.forEach(r => {
+      if (!r.date) return;
+      const key = bucketKey(r.date, trendGranularity);
+      trendMap.set(key, (trendMap.get(key) || 0) + r.revenue_rub);
+    });
+    return {
+      store,
+      totals,
+      share: chain.revenue !== 0 ? totals.revenue / chain.revenue * 100 : 0,
+      trend: trendKeys.map(key => ({ key, value: trendMap.get(key) || 0 })),
+      deviation: {
+        revenue: deviationPct(totals.revenue, average.revenue),
+        checks: deviationPct(totals.checks, average.checks),
+        atv: deviationPct(totals.atv, average.atv),
+        upt: deviationPct(totals.upt, average.upt),
+        weight: deviationPct(totals.weight, average.weight),
+      },
+    };
+  });
+
+  return { stores, average };
+};
+
+export const storeMetricValue = (s: StoreStats, metric: StoreMetric): number =>
+  metric === 'share' ? s.share : s.totals[metric];
+
+export const sortStores = (stores: StoreStats[], metric: StoreMetric | 'store', dir: 'asc' | 'desc'): StoreStats[] => {
+  const sign = dir === 'asc' ? 1 : -1;
+  return [...stores].sort((a, b) => sign * (metric === 'store'
+    ? a.store.localeCompare(b.store)
+    : storeMetricValue(a, metric) - storeMetricValue(b, metric)));
+};
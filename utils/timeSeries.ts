@@ -0,0 +1,156 @@
+import { NormalizedRow, CustomMetricKey } from '../types';
+import { computeTotals } from './aggregate';
+import { MONTH_NAMES, startOfWeek, isValidISODate } from './dates';
+import { CustomMetric, MetricAcc, MetricEvaluator, accumulate, compileFormula, isCustomMetricKey, CompiledMetrics } from './metrics';
+
+// --- ВРЕМЕННЫЕ РЯДЫ ---
+
+export type Granularity = 'day' | 'week' | 'month' | 'quarter';
+export type SeriesMetric = 'revenue' | 'checks' | 'atv' | 'upt' | 'weight';
+// На графике, кроме базовых, доступны вычисляемые показатели пользователя
+export type ChartMetric = SeriesMetric | CustomMetricKey;
+
+export const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: 'День',
+  week: 'Неделя',
+  month: 'Месяц',
+  quarter: 'Квартал',
+};
+
+export const SERIES_METRIC_LABELS: Record<SeriesMetric, string> = {
+  revenue: 'Выручка',
+  checks: 'Чеки',
+  atv: 'ATV (Ср. чек)',
+  upt: 'UPT',
+  weight: 'Вес',
+};
+
+// Отношения нельзя складывать по магазинам — для них стек недоступен
+export const RATIO_METRICS: SeriesMetric[] = ['atv', 'upt'];
+
+export const chartMetricLabel = (metric: ChartMetric, metrics: CompiledMetrics): string =>
+  isCustomMetricKey(metric) ? metrics.get(metric)?.metric.name || metric : SERIES_METRIC_LABELS[metric];
+
+// Формула пользователя в общем случае тоже отношение, поэтому стек для неё недоступен
+export const canStackMetric = (metric: ChartMetric): boolean =>
+  !isCustomMetricKey(metric) && !RATIO_METRICS.includes(metric);
+
+// Окно скользящего среднего по умолчанию: неделя для дней, месяц для недель
+export const DEFAULT_MA_WINDOW: Record<Granularity, number> = {
+  day: 7,
+  week: 4,
+  month: 3,
+  quarter: 2,
+};
+
+// Ключ корзины сортируется как строка: неделя — дата её понедельника
+export const bucketKey = (date: string, g: Granularity): string => {
+  switch (g) {
+    case 'day': return date;
+    case 'week': return startOfWeek(date);
+    case 'month': return date.slice(0, 7);
+    case 'quarter': return `${date.slice(0, 4)}-Q${Math.ceil(Number(date.slice(5, 7)) / 3)}`;
+  }
+};
+
+export const bucketLabel = (key: string, g: Granularity): string => {
+  switch (g) {
+    case 'day': return key;
+    case 'week': return `с ${key.slice(8, 10)}.${key.slice(5, 7)}`;
+    case 'month': return `${MONTH_NAMES[Number(key.slice(5, 7)) - 1]} ${key.slice(0, 4)}`;
+    case 'quarter': return `${key.slice(5)} ${key.slice(0, 4)}`;
+  }
+};
+
+// Ряды магазинов хранятся с префиксом, чтобы не пересекаться со служебными полями точки
+export const storeSeriesKey = (store: string): string => `store:${store}`;
+
+export interface SeriesPoint {
+  key: string;
+  name: string;
+  value?: number;
+  compare?: number;
+  ma?: number;
+  forecast?: number;
+  // Нижняя граница и ширина доверительного интервала — для закраски полосы стеком
+  forecastLow?: number;
+  forecastBand?: number;
+  [series: string]: number | string | undefined;
+}
+
+export interface TimeSeriesOptions {
+  granularity: Granularity;
+  metric: ChartMetric;
+  // Формула вычисляемого показателя передаётся целиком: ряд может строиться в воркере
+  customMetric?: CustomMetric | null;
+  // Строки базового периода и перенос их дат на текущий период
+  compareRows?: NormalizedRow[] | null;
+  alignDate?: (date: string) => string;
+  maWindow?: number;
+  stackByStore?: boolean;
+}
+
+const groupBy = (rows: NormalizedRow[], keyOf: (r: NormalizedRow) => string): Map<string, NormalizedRow[]> => {
+  const groups = new Map<string, NormalizedRow[]>();
+  rows.forEach(r => {
+    const k = keyOf(r);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(r);
+  });
+  return groups;
+};
+
+export const buildTimeSeries = (rows: NormalizedRow[], opts: TimeSeriesOptions): { points: SeriesPoint[], stores: string[] } => {
+  const { granularity, metric } = opts;
+  // Строки без распознанной даты не попадают ни в одну корзину
+  const valid = rows.filter(r => isValidISODate(r.date));
+  // Вычисляемый показатель считается по суммам корзины; total() — по всему выбранному периоду
+  const evaluator: MetricEvaluator | null = isCustomMetricKey(metric) && opts.customMetric
+    ? compileFormula(opts.customMetric.formula)
+    : null;
+  const totalOf = (whole: NormalizedRow[]): MetricAcc | null => evaluator ? accumulate(whole) : null;
+  const valueOf = (list: NormalizedRow[], total: MetricAcc | null): number => {
+    if (evaluator) return evaluator(accumulate(list), total!);
+    return isCustomMetricKey(metric) ? 0 : computeTotals(list)[metric];
+  };
+  const total = totalOf(valid);
+  const points = new Map<string, SeriesPoint>();
+  const pointAt = (key: string) => {
+    if (!points.has(key)) points.set(key, { key, name: bucketLabel(key, granularity) });
+    return points.get(key)!;
+  };
+
+  const stores = opts.stackByStore ? Array.from(new Set(valid.map(r => r.store_name))).sort() : [];
+
+  groupBy(valid, r => bucketKey(r.date, granularity)).forEach((list, key) => {
+    const point = pointAt(key);
+    point.value = valueOf(list, total);
+    if (stores.length) {
+      groupBy(list, r => r.store_name).forEach((storeRows, store) => {
+        point[storeSeriesKey(store)] = valueOf(storeRows, total);
+      });
+    }
+  });
+
+  if (opts.compareRows) {
+    const align = opts.alignDate || ((d: string) => d);
+    const compareValid = opts.compareRows.filter(r => isValidISODate(r.date));
+    const compareTotal = totalOf(compareValid);
+    groupBy(compareValid, r => bucketKey(align(r.date), granularity)).forEach((list, key) => {
+      pointAt(key).compare = valueOf(list, compareTotal);
+    });
+  }
+
+  const sorted = Array.from(points.values()).sort((a, b) => a.key.localeCompare(b.key));
+
+  if (opts.maWindow && opts.maWindow > 1) {
+    const window = opts.maWindow;
+    sorted.forEach((p, i) => {
+      if (i < window - 1) return;
+      const slice = sorted.slice(i - window + 1, i + 1);
+      p.ma = slice.reduce((acc, x) => acc + (x.value || 0), 0) / window;
+    });
+  }
+
+  return { points: sorted, stores };
+};
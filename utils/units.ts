@@ -0,0 +1,82 @@
+import { NormalizedRow } from '../types';
+import { Granularity, bucketKey, bucketLabel } from './timeSeries';
+
+// --- ЕДИНИЦЫ ИЗМЕРЕНИЯ ---
+
+export type UnitType = NormalizedRow['unit_type'];
+
+export const UNIT_TYPE_LABELS: Record<UnitType, string> = {
+  kg: 'Весовые (кг)',
+  pcs: 'Штучные (шт)',
+};
+
+// native — как в источнике; pieces — весовой товар пересчитывается в штуки; kg — штучный в килограммы
+export type VolumeMode = 'native' | 'pieces' | 'kg';
+
+export const VOLUME_MODE_LABELS: Record<VolumeMode, string> = {
+  native: 'Как в данных',
+  pieces: 'Всё в штуках',
+  kg: 'Всё в кг',
+};
+
+const hasFactor = (r: NormalizedRow) => r.pieces_per_kg !== null && r.pieces_per_kg > 0;
+
+// Строки без коэффициента «Шт. в кг» остаются как есть — их учёт показывается отдельно
+export const needsConversion = (r: NormalizedRow, mode: VolumeMode): boolean =>
+  (mode === 'pieces' && r.unit_type === 'kg') || (mode === 'kg' && r.unit_type === 'pcs');
+
+export const convertUnits = (rows: NormalizedRow[], mode: VolumeMode): NormalizedRow[] => {
+  if (mode === 'native') return rows;
+  return rows.map(r => {
+    if (!needsConversion(r, mode) || !hasFactor(r)) return r;
+    if (mode === 'pieces') {
+      const pieces = r.weight_kg * r.pieces_per_kg!;
+      return { ...r, pieces, upt: r.checks > 0 ? pieces / r.checks : 0 };
+    }
+    return { ...r, weight_kg: r.pieces / r.pieces_per_kg! };
+  });
+};
+
+export const unconvertedCount = (rows: NormalizedRow[], mode: VolumeMode): number =>
+  mode === 'native' ? 0 : rows.filter(r => needsConversion(r, mode) && !hasFactor(r)).length;
+
+// --- ДИНАМИКА ЦЕН ---
+
+export interface PriceTrend {
+  categories: string[];
+  points: { key: string, name: string, [category: string]: number | string }[];
+}
+
+// Цена — отношение сумм: выручка за период к весу или штукам за тот же период
+export const buildPriceTrend = (rows: NormalizedRow[], unit: UnitType, granularity: Granularity, limit: number): PriceTrend => {
+  const relevant = rows.filter(r => r.date && r.unit_type === unit);
+  const volumeOf = (r: NormalizedRow) => unit === 'kg' ? r.weight_kg : r.pieces;
+
+  const revenueByCat = new Map<string, number>();
+  relevant.forEach(r => revenueByCat.set(r.category_name, (revenueByCat.get(r.category_name) || 0) + r.revenue_rub));
+  const categories = Array.from(revenueByCat.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([cat]) => cat);
+  const keep = new Set(categories);
+
+  const sums = new Map<string, Map<string, { rev: number, vol: number }>>();
+  relevant.forEach(r => {
+    if (!keep.has(r.category_name)) return;
+    const key = bucketKey(r.date, granularity);
+    if (!sums.has(key)) sums.set(key, new Map());
+    const byCat = sums.get(key)!;
+    const acc = byCat.get(r.category_name) || { rev: 0, vol: 0 };
+    byCat.set(r.category_name, { rev: acc.rev + r.revenue_rub, vol: acc.vol + volumeOf(r) });
+  });
+
+  const points = Array.from(sums.keys()).sort().map(key => {
+    const point: PriceTrend['points'][number] = { key, name: bucketLabel(key, granularity) };
+    sums.get(key)!.forEach((acc, cat) => {
+      if (acc.vol > 0) point[cat] = acc.rev / acc.vol;
+    });
+    return point;
+  });
+
+  return { categories, points };
+};
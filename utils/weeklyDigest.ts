@@ -0,0 +1,99 @@
+import { NormalizedRow } from '../types';
+import { Totals, Delta, computeTotals, computeDelta } from './aggregate';
+import { DateRange, addDays, dataDateRange, startOfWeek } from './dates';
+import { Formatter, formatPercent } from './format';
+
+// --- НЕДЕЛЬНАЯ СВОДКА ---
+
+export interface DigestMover {
+  name: string;
+  revenue: number;
+  baseRevenue: number;
+  delta: Delta;
+}
+
+// Факты для текста сводки: модель пересказывает их, но не считает сама
+export interface WeeklyDigest {
+  week: DateRange;
+  baseWeek: DateRange;
+  // false — в данных нет ни одной полной недели, берётся неполная последняя
+  complete: boolean;
+  totals: Totals;
+  baseTotals: Totals;
+  revenue: Delta;
+  checks: Delta;
+  atv: Delta;
+  storeRisers: DigestMover[];
+  storeFallers: DigestMover[];
+  categoryRisers: DigestMover[];
+  categoryFallers: DigestMover[];
+}
+
+const MOVERS_LIMIT = 3;
+
+const movers = (current: NormalizedRow[], base: NormalizedRow[], field: 'store_name' | 'category_name'): DigestMover[] => {
+  const sums = new Map<string, { revenue: number, baseRevenue: number }>();
+  const add = (rows: NormalizedRow[], key: 'revenue' | 'baseRevenue') => rows.forEach(r => {
+    const name = r[field];
+    if (!sums.has(name)) sums.set(name, { revenue: 0, baseRevenue: 0 });
+    sums.get(name)![key] += r.revenue_rub;
+  });
+  add(current, 'revenue');
+  add(base, 'baseRevenue');
+  return Array.from(sums, ([name, s]) => ({ name, ...s, delta: computeDelta(s.revenue, s.baseRevenue) }))
+    .sort((a, b) => b.delta.abs - a.delta.abs);
+};
+
+// Последняя полная неделя (пн–вс) выборки против предыдущей
+export const buildWeeklyDigest = (rows: NormalizedRow[]): WeeklyDigest | null => {
+  const range = dataDateRange(rows.map(r => r.date));
+  if (!range) return null;
+  const lastSunday = addDays(startOfWeek(addDays(range.to, 1)), -1);
+  const complete = addDays(lastSunday, -6) >= range.from;
+  const from = complete ? addDays(lastSunday, -6) : startOfWeek(range.to);
+  const week = { from, to: addDays(from, 6) };
+  const baseWeek = { from: addDays(from, -7), to: addDays(from, -1) };
+
+  const inRange = (r: DateRange) => rows.filter(row => row.date >= r.from && row.date <= r.to);
+  const current = inRange(week);
+  const base = inRange(baseWeek);
+  const totals = computeTotals(current);
+  const baseTotals = computeTotals(base);
+  const stores = movers(current, base, 'store_name');
+  const categories = movers(current, base, 'category_name');
+
+  return {
+    week,
+    baseWeek,
+    complete,
+    totals,
+    baseTotals,
+    revenue: computeDelta(totals.revenue, baseTotals.revenue),
+    checks: computeDelta(totals.checks, baseTotals.checks),
+    atv: computeDelta(totals.atv, baseTotals.atv),
+    storeRisers: stores.filter(m => m.delta.abs > 0).slice(0, MOVERS_LIMIT),
+    storeFallers: stores.filter(m => m.delta.abs < 0).reverse().slice(0, MOVERS_LIMIT),
+    categoryRisers: categories.filter(m => m.delta.abs > 0).slice(0, MOVERS_LIMIT),
+    categoryFallers: categories.filter(m => m.delta.abs < 0).reverse().slice(0, MOVERS_LIMIT),
+  };
+};
+
+const describeDelta = (d: Delta): string =>
+  d.pct === null ? 'без базы для сравнения' : formatPercent(d.pct);
+
+const describeMovers = (list: DigestMover[], fmt: Formatter): string =>
+  list.map(m => `${m.name} (${m.delta.abs > 0 ? '+' : '−'}${fmt.currency(Math.abs(m.delta.abs))})`).join(', ');
+
+// Текст по шаблону — без модели, из тех же фактов
+export const templateSummary = (d: WeeklyDigest, fmt: Formatter): string => {
+  const period = `${d.week.from} — ${d.week.to}`;
+  const lines = [
+    `${d.complete ? 'Неделя' : 'Неполная неделя'} ${period}: выручка ${fmt.currency(d.totals.revenue)} (${describeDelta(d.revenue)} к предыдущей неделе), ` +
+    `чеков ${d.totals.checks.toLocaleString('ru-RU')} (${describeDelta(d.checks)}), средний чек ${fmt.currency(d.totals.atv)} (${describeDelta(d.atv)}).`,
+  ];
+  if (d.storeRisers.length) lines.push(`Больше всего прибавили магазины: ${describeMovers(d.storeRisers, fmt)}.`);
+  if (d.storeFallers.length) lines.push(`Сильнее всего просели: ${describeMovers(d.storeFallers, fmt)}.`);
+  if (d.categoryRisers.length) lines.push(`Растущие категории: ${describeMovers(d.categoryRisers, fmt)}.`);
+  if (d.categoryFallers.length) lines.push(`Падающие категории: ${describeMovers(d.categoryFallers, fmt)}.`);
+  return lines.join('\n');
+};
@@ -0,0 +1,15 @@
+import { createAnalyticsEngine, AnalyticsRequest } from '../utils/analyticsEngine';
+
+// --- ВОРКЕР АНАЛИТИКИ ---
+
+// Набор строк и индексы живут здесь; главный поток получает только результаты запросов
+const engine = createAnalyticsEngine();
+
+self.onmessage = (e: MessageEvent<{ id: number, request: AnalyticsRequest }>) => {
+  const { id, request } = e.data;
+  try {
+    self.postMessage({ id, result: engine.handle(request) });
+  } catch (err: any) {
+    self.postMessage({ id, error: err?.message || String(err) });
+  }
+};